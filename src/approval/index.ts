@@ -0,0 +1,8 @@
+/**
+ * Approval module - human-in-the-loop confirmation of tool calls.
+ *
+ * @module approval
+ */
+
+export * from './types.js';
+export * from './providers.js';
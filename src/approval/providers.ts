@@ -0,0 +1,144 @@
+/**
+ * Built-in approval providers.
+ *
+ * @module approval/providers
+ */
+
+import { createInterface } from 'node:readline/promises';
+import type { Readable, Writable } from 'node:stream';
+import type {
+  ApprovalProvider,
+  ApprovalRequest,
+  ApprovalResponse,
+} from './types.js';
+
+/**
+ * Create an approval provider from a callback.
+ *
+ * @param callback - Function that decides whether to approve
+ * @param name - Provider name for logging
+ *
+ * @example
+ * ```typescript
+ * const provider = createCallbackApprovalProvider(async (request) => ({
+ *   approved: await askSlackChannel(request),
+ * }));
+ * ```
+ */
+export function createCallbackApprovalProvider(
+  callback: (
+    request: ApprovalRequest,
+    signal: AbortSignal
+  ) => ApprovalResponse | boolean | Promise<ApprovalResponse | boolean>,
+  name = 'callback'
+): ApprovalProvider {
+  return {
+    name,
+    async requestApproval(request, signal) {
+      const answer = await callback(request, signal);
+      return typeof answer === 'boolean' ? { approved: answer } : answer;
+    },
+  };
+}
+
+/**
+ * Options for the CLI approval provider.
+ */
+export interface CLIApprovalProviderOptions {
+  /** Input stream (default: process.stdin) */
+  input?: Readable;
+  /** Output stream (default: process.stdout) */
+  output?: Writable;
+}
+
+/**
+ * Create an approval provider that prompts on the terminal.
+ *
+ * Answers starting with "y" approve the call; anything else denies it.
+ */
+export function createCLIApprovalProvider(
+  options: CLIApprovalProviderOptions = {}
+): ApprovalProvider {
+  return {
+    name: 'cli',
+    async requestApproval(request, signal) {
+      const rl = createInterface({
+        input: options.input ?? process.stdin,
+        output: options.output ?? process.stdout,
+      });
+
+      try {
+        const answer = await rl.question(
+          `\nApproval required for ${request.toolName} (${request.reason})\n` +
+          `Arguments: ${JSON.stringify(request.arguments)}\n` +
+          'Approve? [y/N] ',
+          { signal }
+        );
+        return {
+          approved: answer.trim().toLowerCase().startsWith('y'),
+          approver: 'cli',
+        };
+      } finally {
+        rl.close();
+      }
+    },
+  };
+}
+
+/**
+ * Options for the webhook approval provider.
+ */
+export interface WebhookApprovalProviderOptions {
+  /** URL to POST approval requests to */
+  url: string;
+  /** Additional headers to include in requests */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Create an approval provider that POSTs requests to a webhook.
+ *
+ * The webhook receives the approval request as JSON and must respond with
+ * `{ "approved": boolean, "approver"?: string, "reason"?: string }`. It may
+ * hold the request open until a person answers.
+ */
+export function createWebhookApprovalProvider(
+  options: WebhookApprovalProviderOptions
+): ApprovalProvider {
+  return {
+    name: 'webhook',
+    async requestApproval(request, signal) {
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+        body: JSON.stringify({
+          call_id: request.callId,
+          tool_name: request.toolName,
+          arguments: request.arguments,
+          rule_ids: request.ruleIds,
+          reason: request.reason,
+          timestamp: request.timestamp.toISOString(),
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Approval webhook returned status ${response.status}`);
+      }
+
+      const data = await response.json() as Record<string, unknown>;
+      if (typeof data.approved !== 'boolean') {
+        throw new Error('Invalid approval webhook response: missing approved');
+      }
+
+      return {
+        approved: data.approved,
+        approver: typeof data.approver === 'string' ? data.approver : undefined,
+        reason: typeof data.reason === 'string' ? data.reason : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Type definitions for human-in-the-loop approval.
+ *
+ * Rules with action "require_approval" pause a tool call until an
+ * approval provider (a person, via CLI, callback or webhook) answers.
+ *
+ * @module approval/types
+ */
+
+/**
+ * Request sent to an approval provider.
+ */
+export interface ApprovalRequest {
+  /** Unique ID of the tool call */
+  callId: string;
+  /** Name of the tool being called */
+  toolName: string;
+  /** Arguments the tool would be called with */
+  arguments: Record<string, unknown>;
+  /** IDs of the rules that require approval */
+  ruleIds: string[];
+  /** Human-readable reason approval is needed */
+  reason: string;
+  /** When approval was requested */
+  timestamp: Date;
+}
+
+/**
+ * Answer from an approval provider.
+ */
+export interface ApprovalResponse {
+  /** Whether the call is approved */
+  approved: boolean;
+  /** Who answered (if known) */
+  approver?: string;
+  /** Optional comment from the approver */
+  reason?: string;
+}
+
+/**
+ * Source of approval decisions.
+ *
+ * Providers should stop waiting when the signal is aborted (on timeout).
+ */
+export interface ApprovalProvider {
+  /** Name of the provider, for logging */
+  name: string;
+  /** Ask for approval of a tool call */
+  requestApproval(
+    request: ApprovalRequest,
+    signal: AbortSignal
+  ): Promise<ApprovalResponse>;
+}
+
+/**
+ * Answer to use when no approval arrives in time.
+ */
+export type ApprovalDefaultAnswer = 'approve' | 'deny';
+
+/**
+ * Options controlling how approvals are requested.
+ */
+export interface ApprovalOptions {
+  /** Provider to ask for approval */
+  provider?: ApprovalProvider;
+  /** Time to wait for an answer in milliseconds (default: 60000) */
+  timeout?: number;
+  /** Answer to use on timeout (default: deny) */
+  defaultAnswer?: ApprovalDefaultAnswer;
+}
+
+/**
+ * Outcome of an approval step, attached to the interception result.
+ */
+export interface ApprovalOutcome {
+  /** Whether the call was approved */
+  approved: boolean;
+  /** IDs of the rules that required approval */
+  ruleIds: string[];
+  /** Provider that answered, if any */
+  provider?: string;
+  /** Who answered (if known) */
+  approver?: string;
+  /** Comment from the approver, or why the default answer was used */
+  reason?: string;
+  /** Whether the default answer was used because the provider timed out */
+  timedOut: boolean;
+}
+
+/**
+ * Default approval values.
+ */
+export const APPROVAL_DEFAULTS = {
+  timeout: 60000,
+  defaultAnswer: 'deny',
+} as const;
+
+/**
+ * Error thrown when an approval provider does not answer in time.
+ */
+export class ApprovalTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Approval timed out after ${timeoutMs}ms`);
+    this.name = 'ApprovalTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Decision backend for the external validation API.
+ *
+ * @module backends/api
+ */
+
+import type { Logger } from '../utils/logger.js';
+import type { Rule, ToolCallContext } from '../rules/types.js';
+import { ValidationAPIClient, type ValidationAPIConfig } from '../rules/api-client.js';
+import type { BackendDecision, DecisionBackend } from './types.js';
+
+/**
+ * A decision waiting for the next batch request.
+ */
+interface PendingDecision {
+  context: ToolCallContext;
+  rules: Rule[];
+  resolve: (decision: BackendDecision) => void;
+  reject: (error: unknown) => void;
+}
+
+/** Default milliseconds to collect calls for a batch request */
+const DEFAULT_BATCH_WINDOW_MS = 10;
+
+/** Default maximum number of calls per batch request */
+const DEFAULT_BATCH_MAX_SIZE = 50;
+
+/**
+ * Options for the API backend.
+ */
+export interface APIBackendOptions {
+  /** API configuration */
+  config: ValidationAPIConfig;
+  /** Logger instance */
+  logger: Logger;
+}
+
+/**
+ * Backend that asks the validation API, retrying on failure.
+ *
+ * With a batch endpoint configured, decisions are collected for
+ * `batchWindow` milliseconds after the first one is requested, or until
+ * `batchMaxSize` are pending, and then sent in one batch request. If the
+ * batch request fails, each call falls back to a single request.
+ */
+export class APIBackend implements DecisionBackend {
+  readonly name = 'api';
+  readonly label = 'API';
+
+  /** Client used for requests */
+  readonly client: ValidationAPIClient;
+
+  private readonly logger: Logger;
+  private readonly batchWindow: number;
+  private readonly batchMaxSize: number;
+  private pending: PendingDecision[] = [];
+  private batchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: APIBackendOptions) {
+    this.logger = options.logger;
+    this.batchWindow = options.config.batchWindow ?? DEFAULT_BATCH_WINDOW_MS;
+    this.batchMaxSize = Math.max(1, options.config.batchMaxSize ?? DEFAULT_BATCH_MAX_SIZE);
+    this.client = new ValidationAPIClient({
+      config: options.config,
+      logger: options.logger,
+    });
+  }
+
+  /**
+   * Ask the API for a decision.
+   *
+   * @throws {ValidationAPIError} If every attempt fails
+   */
+  decide(context: ToolCallContext, rules: Rule[]): Promise<BackendDecision> {
+    if (!this.client.supportsBatch) {
+      return this.client.request(context, rules);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ context, rules, resolve, reject });
+      if (this.pending.length >= this.batchMaxSize) {
+        void this.flush();
+      } else if (!this.batchTimer) {
+        this.batchTimer = setTimeout(() => void this.flush(), this.batchWindow);
+      }
+    });
+  }
+
+  /**
+   * Send the pending decisions, in one batch request if there are several.
+   */
+  private async flush(): Promise<void> {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+    const batch = this.pending;
+    this.pending = [];
+
+    if (batch.length > 1) {
+      try {
+        const responses = await this.client.requestBatch(batch);
+        batch.forEach((item, index) => item.resolve(responses[index]));
+        return;
+      } catch (error) {
+        this.logger.warn('Batch validation request failed, falling back to single requests', {
+          size: batch.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    await Promise.all(batch.map((item) =>
+      this.client.request(item.context, item.rules).then(item.resolve, item.reject)
+    ));
+  }
+}
+
+/**
+ * Create an API backend.
+ *
+ * @param options - Backend options
+ * @returns APIBackend instance
+ */
+export function createAPIBackend(options: APIBackendOptions): APIBackend {
+  return new APIBackend(options);
+}
@@ -0,0 +1,217 @@
+/**
+ * Circuit breaker for decision backends.
+ *
+ * Stops calling a backend that keeps failing, so calls get the fail mode
+ * immediately instead of waiting for timeouts and retries, and lets a
+ * trial call through after a cool-down to detect recovery.
+ *
+ * @module backends/circuit-breaker
+ */
+
+import type { Rule, ToolCallContext } from '../rules/types.js';
+import type {
+  BackendDecision,
+  BackendHealth,
+  CircuitState,
+  DecisionBackend,
+} from './types.js';
+
+/**
+ * Options for a circuit breaker.
+ */
+export interface CircuitBreakerOptions {
+  /** Failure rate (0.0 - 1.0) in the window at which the circuit opens (default: 0.5) */
+  failureRate?: number;
+  /** Minimum calls in the window before the circuit can open (default: 5) */
+  minimumCalls?: number;
+  /** Length of the failure-rate window in milliseconds (default: 60000) */
+  window?: number;
+  /** Milliseconds the circuit stays open before a trial call (default: 30000) */
+  resetTimeout?: number;
+}
+
+/**
+ * Options for a circuit breaker backend.
+ */
+export interface CircuitBreakerBackendOptions extends CircuitBreakerOptions {
+  /** Backend to protect */
+  backend: DecisionBackend;
+}
+
+/**
+ * Error thrown instead of calling a backend whose circuit is open.
+ */
+export class CircuitOpenError extends Error {
+  /** When the next trial call will be let through */
+  readonly retryAt: Date;
+
+  constructor(retryAt: Date) {
+    super(`Circuit open until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Backend that guards another backend with a circuit breaker.
+ *
+ * - closed: calls go through; the circuit opens when the failure rate in
+ *   the window reaches the threshold
+ * - open: calls fail with `CircuitOpenError` until the reset timeout passes
+ * - half-open: one trial call goes through; success closes the circuit,
+ *   failure opens it again
+ */
+export class CircuitBreakerBackend implements DecisionBackend {
+  readonly name: string;
+  readonly label: string;
+
+  /** Backend guarded by the breaker */
+  readonly backend: DecisionBackend;
+
+  private readonly failureRate: number;
+  private readonly minimumCalls: number;
+  private readonly window: number;
+  private readonly resetTimeout: number;
+
+  private state: CircuitState = 'closed';
+  private outcomes: Array<{ time: number; failed: boolean }> = [];
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerBackendOptions) {
+    this.backend = options.backend;
+    this.name = options.backend.name;
+    this.label = options.backend.label ?? options.backend.name;
+    this.failureRate = options.failureRate ?? 0.5;
+    this.minimumCalls = options.minimumCalls ?? 5;
+    this.window = options.window ?? 60000;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+  }
+
+  /**
+   * Ask the protected backend, unless its circuit is open.
+   *
+   * @throws {CircuitOpenError} If the circuit is open
+   */
+  async decide(context: ToolCallContext, rules: Rule[]): Promise<BackendDecision> {
+    const now = Date.now();
+
+    if (this.state === 'open' && this.openedAt !== undefined) {
+      if (now < this.openedAt + this.resetTimeout) {
+        throw new CircuitOpenError(new Date(this.openedAt + this.resetTimeout));
+      }
+      this.state = 'half-open';
+    }
+
+    const trial = this.state === 'half-open';
+    if (trial) {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(new Date(now + this.resetTimeout));
+      }
+      this.trialInFlight = true;
+    }
+
+    try {
+      const decision = await this.backend.decide(context, rules);
+      this.recordSuccess(trial);
+      return decision;
+    } catch (error) {
+      this.recordFailure(trial);
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * Report the circuit state, and that of the protected backend if it reports any.
+   */
+  health(): BackendHealth[] {
+    this.prune(Date.now());
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length;
+
+    const health: BackendHealth = {
+      backend: this.name,
+      state: this.state,
+      calls: this.outcomes.length,
+      failures,
+    };
+    if (this.state === 'open' && this.openedAt !== undefined) {
+      health.openedAt = new Date(this.openedAt).toISOString();
+      health.retryAt = new Date(this.openedAt + this.resetTimeout).toISOString();
+    }
+
+    return [health, ...(this.backend.health?.() ?? [])];
+  }
+
+  /**
+   * Record a successful call, closing the circuit after a successful trial.
+   */
+  private recordSuccess(trial: boolean): void {
+    if (trial) {
+      this.state = 'closed';
+      this.outcomes = [];
+      this.openedAt = undefined;
+      return;
+    }
+
+    this.record(false);
+  }
+
+  /**
+   * Record a failed call, opening the circuit if the failure rate is reached.
+   */
+  private recordFailure(trial: boolean): void {
+    if (trial) {
+      this.open();
+      return;
+    }
+
+    this.record(true);
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length;
+    if (
+      this.outcomes.length >= this.minimumCalls &&
+      failures / this.outcomes.length >= this.failureRate
+    ) {
+      this.open();
+    }
+  }
+
+  /**
+   * Record a call outcome in the window.
+   */
+  private record(failed: boolean): void {
+    const now = Date.now();
+    this.prune(now);
+    this.outcomes.push({ time: now, failed });
+  }
+
+  /**
+   * Drop outcomes older than the window.
+   */
+  private prune(now: number): void {
+    this.outcomes = this.outcomes.filter((outcome) => outcome.time > now - this.window);
+  }
+
+  /**
+   * Open the circuit.
+   */
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+  }
+}
+
+/**
+ * Create a circuit breaker backend.
+ *
+ * @param options - Protected backend and breaker options
+ * @returns CircuitBreakerBackend instance
+ */
+export function createCircuitBreakerBackend(
+  options: CircuitBreakerBackendOptions
+): CircuitBreakerBackend {
+  return new CircuitBreakerBackend(options);
+}
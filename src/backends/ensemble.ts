@@ -0,0 +1,224 @@
+/**
+ * Ensemble of decision backends.
+ *
+ * Runs several backends in parallel and combines their decisions, so one
+ * model's blind spots do not decide a call alone.
+ *
+ * @module backends/ensemble
+ */
+
+import type { Rule, ToolCallContext } from '../rules/types.js';
+import type { BackendResult } from '../types/config.js';
+import type { BackendDecision, BackendHealth, DecisionBackend } from './types.js';
+
+/**
+ * How member decisions are combined.
+ * - "any-block": Block if any member blocks
+ * - "majority": Block if at least half of the members block
+ * - "weighted": Block if the weighted average of `should_block_weight`
+ *   reaches the threshold
+ */
+export type EnsembleStrategy = 'any-block' | 'majority' | 'weighted';
+
+/**
+ * Options for an ensemble backend.
+ */
+export interface EnsembleBackendOptions {
+  /** Member backends */
+  backends: DecisionBackend[];
+  /** Combination strategy (default: any-block) */
+  strategy?: EnsembleStrategy;
+  /** Block threshold for the weighted strategy (default: 0.5) */
+  threshold?: number;
+  /** Weight of each member by name in the weighted average (default: 1) */
+  weights?: Record<string, number>;
+  /** Backend name (default: ensemble) */
+  name?: string;
+}
+
+/**
+ * Backend that combines the decisions of several backends.
+ *
+ * A block from the remaining members stands when some members fail, but a
+ * pass does not: the ensemble fails instead, so the caller's fail mode
+ * decides. A member without weights counts as 1 for the side it decided.
+ */
+export class EnsembleBackend implements DecisionBackend {
+  readonly name: string;
+  readonly label = 'Ensemble';
+
+  private readonly backends: DecisionBackend[];
+  private readonly strategy: EnsembleStrategy;
+  private readonly threshold: number;
+  private readonly weights: Record<string, number>;
+
+  /**
+   * @throws {Error} If no member backends are given
+   */
+  constructor(options: EnsembleBackendOptions) {
+    if (options.backends.length === 0) {
+      throw new Error('Ensemble requires at least one backend');
+    }
+
+    this.name = options.name ?? 'ensemble';
+    this.backends = options.backends;
+    this.strategy = options.strategy ?? 'any-block';
+    this.threshold = options.threshold ?? 0.5;
+    this.weights = options.weights ?? {};
+  }
+
+  /**
+   * Ask every member in parallel and combine their decisions.
+   *
+   * @throws {Error} If every member fails, or some fail and the rest pass
+   */
+  async decide(context: ToolCallContext, rules: Rule[]): Promise<BackendDecision> {
+    const outcomes = await Promise.all(
+      this.backends.map((backend) => this.run(backend, context, rules))
+    );
+    const results = outcomes.map((outcome) => outcome.result);
+    const decided = outcomes.filter(
+      (outcome): outcome is MemberOutcome & { decision: BackendDecision } => !!outcome.decision
+    );
+
+    if (decided.length === 0) {
+      throw new Error(
+        `All ensemble backends failed: ${results
+          .map((result) => `${result.backend}: ${result.error}`)
+          .join('; ')}`
+      );
+    }
+
+    const blockWeight = this.averageBlockWeight(decided);
+    const blocks = decided.filter((outcome) => outcome.decision.decision === 'block');
+    let block: boolean;
+    switch (this.strategy) {
+      case 'majority':
+        block = blocks.length * 2 >= decided.length;
+        break;
+      case 'weighted':
+        block = blockWeight >= this.threshold;
+        break;
+      default:
+        block = blocks.length > 0;
+    }
+
+    if (!block && decided.length < outcomes.length) {
+      throw new Error(
+        `Ensemble backends failed: ${results
+          .filter((result) => result.error !== undefined)
+          .map((result) => `${result.backend}: ${result.error}`)
+          .join('; ')}`
+      );
+    }
+
+    const agreeing = decided.filter(
+      (outcome) => (outcome.decision.decision === 'block') === block
+    );
+
+    return {
+      decision: block ? 'block' : 'pass',
+      should_pass_weight: 1 - blockWeight,
+      should_block_weight: blockWeight,
+      reasoning: agreeing
+        .map((outcome) => `${outcome.label}: ${outcome.decision.reasoning}`)
+        .join('; '),
+      matched_rules: [
+        ...new Set(agreeing.flatMap((outcome) => outcome.decision.matched_rules ?? [])),
+      ],
+      results,
+      metadata: {
+        ensemble_strategy: this.strategy,
+        ensemble_votes: { block: blocks.length, pass: decided.length - blocks.length },
+      },
+    };
+  }
+
+  /**
+   * Report the health of the members.
+   */
+  health(): BackendHealth[] {
+    return this.backends.flatMap((backend) => backend.health?.() ?? []);
+  }
+
+  /**
+   * Run one member, recording its result instead of throwing.
+   */
+  private async run(
+    backend: DecisionBackend,
+    context: ToolCallContext,
+    rules: Rule[]
+  ): Promise<MemberOutcome> {
+    const label = backend.label ?? backend.name;
+    const start = performance.now();
+
+    try {
+      const decision = await backend.decide(context, rules);
+      if (decision?.decision !== 'pass' && decision?.decision !== 'block') {
+        throw new Error('Invalid decision (must be "pass" or "block")');
+      }
+
+      return {
+        label,
+        decision,
+        result: {
+          backend: backend.name,
+          decision: decision.decision,
+          passWeight: decision.should_pass_weight,
+          blockWeight: decision.should_block_weight,
+          reasoning: decision.reasoning,
+          matchedRules: decision.matched_rules,
+          durationMs: performance.now() - start,
+        },
+      };
+    } catch (error) {
+      return {
+        label,
+        result: {
+          backend: backend.name,
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: performance.now() - start,
+        },
+      };
+    }
+  }
+
+  /**
+   * Weighted average of the members' block weights.
+   */
+  private averageBlockWeight(
+    decided: Array<MemberOutcome & { decision: BackendDecision }>
+  ): number {
+    let total = 0;
+    let weighted = 0;
+
+    for (const { result, decision } of decided) {
+      const weight = this.weights[result.backend] ?? 1;
+      const blockWeight = decision.should_block_weight ??
+        (decision.decision === 'block' ? 1 : 0);
+      total += weight;
+      weighted += weight * blockWeight;
+    }
+
+    return total > 0 ? weighted / total : 0;
+  }
+}
+
+/**
+ * Outcome of one ensemble member.
+ */
+interface MemberOutcome {
+  label: string;
+  decision?: BackendDecision;
+  result: BackendResult;
+}
+
+/**
+ * Create an ensemble backend.
+ *
+ * @param options - Ensemble options
+ * @returns EnsembleBackend instance
+ */
+export function createEnsembleBackend(options: EnsembleBackendOptions): EnsembleBackend {
+  return new EnsembleBackend(options);
+}
@@ -0,0 +1,12 @@
+/**
+ * Decision backends module exports.
+ *
+ * @module backends
+ */
+
+export * from './types.js';
+export * from './api.js';
+export * from './kernel.js';
+export * from './local.js';
+export * from './ensemble.js';
+export * from './circuit-breaker.js';
@@ -0,0 +1,94 @@
+/**
+ * Decision backend for the local kernel model.
+ *
+ * @module backends/kernel
+ */
+
+import type { Logger } from '../utils/logger.js';
+import type { Rule, ToolCallContext } from '../rules/types.js';
+import type { KernelConfig } from '../kernel/types.js';
+import { KernelClient } from '../kernel/client.js';
+import type { BackendDecision, DecisionBackend } from './types.js';
+
+/**
+ * Options for the kernel backend.
+ */
+export interface KernelBackendOptions {
+  /** Kernel configuration (required unless a client is given) */
+  config?: KernelConfig | null;
+  /** Injected kernel client for testing or custom configurations */
+  client?: KernelClient;
+  /** Logger instance */
+  logger: Logger;
+}
+
+/**
+ * Backend that asks the kernel model via Ollama.
+ *
+ * The client is created on first use, so a missing configuration only
+ * fails the calls that reach the kernel.
+ */
+export class KernelBackend implements DecisionBackend {
+  readonly name = 'kernel';
+  readonly label = 'Kernel';
+
+  private readonly config: KernelConfig | null;
+  private readonly logger: Logger;
+  private client: KernelClient | null;
+
+  constructor(options: KernelBackendOptions) {
+    this.config = options.config ?? null;
+    this.logger = options.logger;
+    this.client = options.client ?? null;
+  }
+
+  /**
+   * Ask the kernel model for a decision.
+   *
+   * @throws {KernelError} If the model cannot be reached or its answer parsed
+   */
+  async decide(context: ToolCallContext, rules: Rule[]): Promise<BackendDecision> {
+    const response = await this.getClient().evaluate(
+      { tool: context.tool_name, arguments: context.arguments, history: context.call_history },
+      rules
+    );
+
+    return {
+      decision: response.decision,
+      should_pass_weight: response.pass_weight,
+      should_block_weight: response.block_weight,
+      reasoning: response.reasoning,
+      matched_rules: response.matched_rules,
+    };
+  }
+
+  /**
+   * Get or create the kernel client.
+   */
+  private getClient(): KernelClient {
+    if (this.client) {
+      return this.client;
+    }
+
+    if (!this.config) {
+      throw new Error('Kernel configuration not available');
+    }
+
+    this.client = new KernelClient({
+      config: this.config,
+      logger: this.logger,
+    });
+
+    return this.client;
+  }
+}
+
+/**
+ * Create a kernel backend.
+ *
+ * @param options - Backend options
+ * @returns KernelBackend instance
+ */
+export function createKernelBackend(options: KernelBackendOptions): KernelBackend {
+  return new KernelBackend(options);
+}
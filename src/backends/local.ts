@@ -0,0 +1,201 @@
+/**
+ * Decision backend for deterministic rule evaluation.
+ *
+ * Evaluates rule conditions locally, without any model or network call,
+ * and applies rule set default actions.
+ *
+ * @module backends/local
+ */
+
+import type {
+  Rule,
+  RuleAction,
+  RuleSetSettings,
+  ToolCallContext,
+} from '../rules/types.js';
+import type { ToolCallHistoryEntry } from '../types/config.js';
+import {
+  ACTION_PRECEDENCE,
+  evaluateRules,
+  type RuleEvaluationResult,
+  type RuleEvaluationTarget,
+} from '../rules/evaluator.js';
+import type { BackendDecision, DecisionBackend } from './types.js';
+
+/**
+ * The rule set a rule was loaded from.
+ */
+export interface LocalRuleSet {
+  /** Rule set name */
+  name: string;
+  /** Rule set settings */
+  settings?: RuleSetSettings;
+}
+
+/**
+ * Local rule evaluation, including rule set default actions that applied.
+ */
+export interface LocalEvaluation extends RuleEvaluationResult {
+  /** Default actions of rule sets none of whose rules matched */
+  defaultActions: Array<{ ruleSet: string; action: RuleAction }>;
+}
+
+/**
+ * Options for the local backend.
+ */
+export interface LocalBackendOptions {
+  /** Look up the rule set of a rule, for `default_action` */
+  getRuleSet?: (rule: Rule) => LocalRuleSet | undefined;
+}
+
+/**
+ * Backend that evaluates rule conditions deterministically.
+ *
+ * Rules without conditions never match here; use `evaluate` to tell
+ * whether a call was fully decided.
+ */
+export class LocalBackend implements DecisionBackend {
+  readonly name = 'local';
+  readonly label = 'Local rules';
+
+  private readonly getRuleSet: (rule: Rule) => LocalRuleSet | undefined;
+
+  constructor(options: LocalBackendOptions = {}) {
+    this.getRuleSet = options.getRuleSet ?? (() => undefined);
+  }
+
+  /**
+   * Decide a tool call from rule conditions.
+   */
+  async decide(context: ToolCallContext, rules: Rule[]): Promise<BackendDecision> {
+    return this.toDecision(this.evaluate(context, rules));
+  }
+
+  /**
+   * Evaluate rules deterministically and apply rule set default actions.
+   *
+   * A rule set's `default_action` applies when none of its rules for this
+   * tool matched and all of them could be evaluated locally.
+   *
+   * @param history - Full call history for sequence conditions (default:
+   *   the `call_history` summary, whose calls may lack arguments)
+   */
+  evaluate(
+    context: ToolCallContext,
+    rules: Rule[],
+    history?: readonly ToolCallHistoryEntry[]
+  ): LocalEvaluation {
+    const evaluation: LocalEvaluation = {
+      ...evaluateRules(rules, toEvaluationTarget(context, history)),
+      defaultActions: [],
+    };
+
+    const undecided = new Set<Rule>(evaluation.unevaluatedRules);
+    for (const error of evaluation.errors) {
+      for (const rule of rules) {
+        if (rule.id === error.ruleId) undecided.add(rule);
+      }
+    }
+
+    const rulesBySet = new Map<LocalRuleSet, Rule[]>();
+    for (const rule of rules) {
+      const ruleSet = this.getRuleSet(rule);
+      if (!ruleSet?.settings?.default_action) continue;
+      rulesBySet.set(ruleSet, [...(rulesBySet.get(ruleSet) ?? []), rule]);
+    }
+
+    for (const [ruleSet, setRules] of rulesBySet) {
+      const anyMatched = setRules.some((rule) => evaluation.matchedRules.includes(rule));
+      const anyUndecided = setRules.some((rule) => undecided.has(rule));
+      if (anyMatched || anyUndecided) continue;
+
+      const action = ruleSet.settings?.default_action as RuleAction;
+      evaluation.defaultActions.push({ ruleSet: ruleSet.name, action });
+      if (
+        evaluation.action === null ||
+        ACTION_PRECEDENCE[action] > ACTION_PRECEDENCE[evaluation.action]
+      ) {
+        evaluation.action = action;
+      }
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Convert an evaluation into a decision for its strongest action.
+   */
+  toDecision(evaluation: LocalEvaluation): BackendDecision {
+    const blocked = evaluation.action === 'block';
+    const decision: BackendDecision = {
+      decision: blocked ? 'block' : 'pass',
+      should_pass_weight: blocked ? 0 : 1,
+      should_block_weight: blocked ? 1 : 0,
+      reasoning: describeAction(evaluation),
+      matched_rules: evaluation.matchedRules.map((rule) => rule.id),
+    };
+
+    if (evaluation.defaultActions.length > 0) {
+      decision.metadata = { default_actions: evaluation.defaultActions };
+    }
+
+    return decision;
+  }
+}
+
+/**
+ * Build the evaluation target for rule conditions.
+ */
+function toEvaluationTarget(
+  context: ToolCallContext,
+  history?: readonly ToolCallHistoryEntry[]
+): RuleEvaluationTarget {
+  return {
+    tool_name: context.tool_name,
+    arguments: context.arguments,
+    context: context.custom ?? {},
+    history: history ?? (context.call_history ?? []).map((entry) => ({
+      toolName: entry.tool_name,
+      arguments: entry.arguments ?? {},
+      validationResult: { decision: entry.decision ?? (entry.allowed ? 'allow' : 'deny') },
+      timestamp: new Date(entry.timestamp),
+    })),
+  };
+}
+
+/**
+ * Describe the strongest action of an evaluation.
+ */
+function describeAction(evaluation: LocalEvaluation): string {
+  switch (evaluation.action) {
+    case 'block': {
+      const blocking = evaluation.matchedRules.filter((rule) => rule.action === 'block');
+      return blocking.length > 0
+        ? `Blocked by rule: ${blocking.map((rule) => rule.name).join(', ')}`
+        : `Blocked by default action of rule set: ${evaluation.defaultActions
+          .filter((entry) => entry.action === 'block')
+          .map((entry) => entry.ruleSet)
+          .join(', ')}`;
+    }
+    case 'require_approval':
+      return 'Requires approval';
+    case 'warn':
+      return 'Matched warning rule';
+    case 'log':
+      return 'Matched logging rule';
+    case 'allow':
+      return 'Explicitly allowed by rule';
+    default:
+      return 'No rules matched';
+  }
+}
+
+/**
+ * Create a local backend.
+ *
+ * @param options - Backend options
+ * @returns LocalBackend instance
+ */
+export function createLocalBackend(options: LocalBackendOptions = {}): LocalBackend {
+  return new LocalBackend(options);
+}
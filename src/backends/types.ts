@@ -0,0 +1,83 @@
+/**
+ * Type definitions for decision backends.
+ *
+ * A decision backend decides whether a tool call should pass or be blocked,
+ * given the call and the rules that apply to it. The validation API, the
+ * kernel model and the local rule engine are all backends.
+ *
+ * @module backends/types
+ */
+
+import type { Rule, ToolCallContext } from '../rules/types.js';
+import type { BackendResult } from '../types/config.js';
+
+/**
+ * Decision returned by a backend.
+ */
+export interface BackendDecision {
+  /** Final decision */
+  decision: 'pass' | 'block';
+  /** Confidence that the call should pass (0.0 - 1.0), if reported */
+  should_pass_weight?: number;
+  /** Confidence that the call should be blocked (0.0 - 1.0), if reported */
+  should_block_weight?: number;
+  /** Human-readable reasoning for the decision */
+  reasoning: string;
+  /** IDs of rules that matched */
+  matched_rules?: string[];
+  /** Results of member backends, for decisions combined from several */
+  results?: BackendResult[];
+  /** Additional metadata, merged into the validation result metadata */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * State of a backend's circuit breaker.
+ * - "closed": Calls go through
+ * - "open": Calls fail immediately
+ * - "half-open": A trial call goes through to detect recovery
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of a backend, as reported by its circuit breaker.
+ */
+export interface BackendHealth {
+  /** Backend name */
+  backend: string;
+  /** Circuit state */
+  state: CircuitState;
+  /** Calls in the failure-rate window */
+  calls: number;
+  /** Failed calls in the failure-rate window */
+  failures: number;
+  /** When the circuit opened (ISO 8601), while open */
+  openedAt?: string;
+  /** When the next trial call is let through (ISO 8601), while open */
+  retryAt?: string;
+}
+
+/**
+ * Something that decides tool calls against rules.
+ */
+export interface DecisionBackend {
+  /** Backend name, recorded as `validation_path` in result metadata */
+  readonly name: string;
+  /** Name used in reasons and log messages (default: name) */
+  readonly label?: string;
+
+  /**
+   * Decide a tool call.
+   *
+   * @param context - Tool call context
+   * @param rules - Rules applicable to the call
+   * @returns The decision
+   * @throws If no decision can be made; the caller applies the fail mode
+   */
+  decide(context: ToolCallContext, rules: Rule[]): Promise<BackendDecision>;
+
+  /**
+   * Report the health of this backend and any backends it wraps.
+   */
+  health?(): BackendHealth[];
+}
@@ -7,6 +7,8 @@
  */
 
 import { init } from './init.js';
+import { lint } from './lint.js';
+import { runPolicyTests } from './test.js';
 
 const VERSION = '0.1.0';
 
@@ -22,17 +24,27 @@ Usage:
 
 Commands:
   init          Initialize Veto in the current directory
+  lint          Check config and rule files (alias: validate)
+  test          Run YAML policy tests
   version       Show version information
   help          Show this help message
 
 Options:
-  --force, -f   Force overwrite existing files (init)
-  --quiet, -q   Suppress output
-  --help, -h    Show help
+  --force, -f          Force overwrite existing files (init)
+  --config-dir <dir>   Veto directory to use (lint, test, default: ./veto)
+  --profile <name>     Configuration profile to apply (lint, default: VETO_PROFILE)
+  --manifest <file>    JSON or YAML tool manifest to check tool names against (lint)
+  --tests <path>       Policy test file or directory (test, default: <config-dir>/tests)
+  --junit <file>       Write a JUnit XML report (test)
+  --quiet, -q          Suppress output
+  --help, -h           Show help
 
 Examples:
-  veto init           Initialize Veto in current directory
-  veto init --force   Reinitialize, overwriting existing files
+  veto init                          Initialize Veto in current directory
+  veto init --force                  Reinitialize, overwriting existing files
+  veto lint --manifest tools.json    Check rules against the available tools
+  veto lint --profile production     Check the rules loaded with the production profile
+  veto test --junit report.xml       Run policy tests and write a JUnit report
 `);
 }
 
@@ -43,20 +55,36 @@ function printVersion(): void {
   console.log(`veto v${VERSION}`);
 }
 
+/**
+ * Flags that take a value, as `--flag value` or `--flag=value`.
+ */
+const VALUE_FLAGS = new Set(['config-dir', 'profile', 'manifest', 'tests', 'junit']);
+
 /**
  * Parse command line arguments.
  */
 function parseArgs(args: string[]): {
   command: string;
   flags: Record<string, boolean>;
+  values: Record<string, string>;
 } {
   const flags: Record<string, boolean> = {};
+  const values: Record<string, string> = {};
   let command = '';
 
-  for (const arg of args) {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
     if (arg.startsWith('--')) {
-      const flag = arg.slice(2);
-      flags[flag] = true;
+      const [flag, value] = arg.slice(2).split(/=(.*)/s);
+      if (VALUE_FLAGS.has(flag)) {
+        const resolved = value ?? args[++i];
+        if (resolved === undefined) {
+          throw new Error(`Missing value for --${flag}`);
+        }
+        values[flag] = resolved;
+      } else {
+        flags[flag] = true;
+      }
     } else if (arg.startsWith('-')) {
       const shortFlags = arg.slice(1).split('');
       for (const f of shortFlags) {
@@ -77,7 +105,7 @@ function parseArgs(args: string[]): {
     }
   }
 
-  return { command, flags };
+  return { command, flags, values };
 }
 
 /**
@@ -85,7 +113,7 @@ function parseArgs(args: string[]): {
  */
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
-  const { command, flags } = parseArgs(args);
+  const { command, flags, values } = parseArgs(args);
 
   // Handle help flag
   if (flags['help'] || command === 'help') {
@@ -110,6 +138,29 @@ async function main(): Promise<void> {
       break;
     }
 
+    case 'lint':
+    case 'validate': {
+      const result = await lint({
+        configDir: values['config-dir'],
+        profile: values['profile'],
+        manifest: values['manifest'],
+        quiet: flags['quiet'],
+      });
+      process.exit(result.success ? 0 : 1);
+      break;
+    }
+
+    case 'test': {
+      const result = await runPolicyTests({
+        configDir: values['config-dir'],
+        tests: values['tests'],
+        junit: values['junit'],
+        quiet: flags['quiet'],
+      });
+      process.exit(result.success ? 0 : 1);
+      break;
+    }
+
     case '': {
       // No command provided
       console.log('Veto - AI Agent Tool Call Guardrail');
@@ -7,7 +7,7 @@
  * @module cli/config
  */
 
-import { existsSync, readFileSync } from 'node:fs';
+import { existsSync } from 'node:fs';
 import { join, resolve } from 'node:path';
 import type { Logger } from '../utils/logger.js';
 import { createLogger } from '../utils/logger.js';
@@ -16,36 +16,21 @@ import { RuleValidator } from '../rules/rule-validator.js';
 import type { RuleValidatorConfig } from '../rules/rule-validator.js';
 import type { ValidationAPIConfig } from '../rules/api-client.js';
 import type { YamlParser } from '../rules/loader.js';
+import { selectProfile } from '../utils/profile.js';
+import {
+  createConfiguredBackend,
+  createEscalationBackend,
+  readConfigFile,
+  resolveAPIConfig,
+  resolveDecisionCache,
+  resolveRemoteBackend,
+  type ConfiguredBackendOptions,
+  type VetoConfigFile,
+} from '../core/config.js';
+import type { FailMode, ValidationMode, VetoMode } from '../core/pipeline.js';
+import type { DecisionBackend } from '../backends/types.js';
 
-/**
- * Parsed veto.config.yaml structure.
- */
-export interface VetoConfigFile {
-  version?: string;
-  api?: {
-    baseUrl?: string;
-    endpoint?: string;
-    timeout?: number;
-    retries?: number;
-    retryDelay?: number;
-    apiKey?: string;
-  };
-  validation?: {
-    failMode?: 'open' | 'closed';
-    defaultDecision?: 'allow' | 'block';
-  };
-  logging?: {
-    level?: LogLevel;
-  };
-  rules?: {
-    directory?: string;
-    recursive?: boolean;
-  };
-  session?: {
-    sessionHeader?: string;
-    agentHeader?: string;
-  };
-}
+export type { VetoConfigFile };
 
 /**
  * Loaded Veto configuration with initialized components.
@@ -55,18 +40,26 @@ export interface LoadedVetoConfig {
   vetoDir: string;
   /** Path to the config file */
   configPath: string;
-  /** Raw parsed config */
+  /** Parsed config, with the profile applied */
   raw: VetoConfigFile;
+  /** Applied profile, if any */
+  profile?: string;
   /** Resolved API configuration */
   apiConfig: ValidationAPIConfig;
   /** Log level */
   logLevel: LogLevel;
-  /** Fail mode */
-  failMode: 'open' | 'closed';
+  /** Operating mode */
+  mode: VetoMode;
+  /** Validation mode */
+  validationMode: ValidationMode;
+  /** Fail mode for rule sets that do not set `fail_mode` */
+  failMode: FailMode;
   /** Rules directory path */
   rulesDir: string;
   /** Whether to search subdirectories */
   recursiveRules: boolean;
+  /** Tags selecting the active rules (all rules if empty) */
+  ruleTags: string[];
   /** Logger instance */
   logger: Logger;
   /** Rule validator (call initialize() before use) */
@@ -79,6 +72,8 @@ export interface LoadedVetoConfig {
 export interface LoadConfigOptions {
   /** YAML parser function (required) */
   yamlParser: YamlParser;
+  /** Profile to apply (defaults to VETO_PROFILE) */
+  profile?: string;
   /** Override log level */
   logLevel?: LogLevel;
   /** Override API base URL */
@@ -91,6 +86,8 @@ export interface LoadConfigOptions {
   agentId?: string;
   /** Custom logger */
   logger?: Logger;
+  /** Decision backends selectable by name in `validation.mode` or `validation.backend` */
+  backends?: DecisionBackend[];
 }
 
 /**
@@ -130,38 +127,57 @@ export async function loadVetoConfig(
     );
   }
 
-  // Read and parse config
-  const configContent = readFileSync(configPath, 'utf-8');
-  const rawConfig = options.yamlParser(configContent) as VetoConfigFile;
+  // Read and parse config, apply the selected profile, then interpolate ${VAR} references
+  const profile = selectProfile(options.profile);
+  const rawConfig = readConfigFile(configPath, profile, options.yamlParser);
 
   // Resolve values with defaults and overrides
   const logLevel = options.logLevel ?? rawConfig.logging?.level ?? 'info';
   const logger = options.logger ?? createLogger(logLevel);
 
+  if (profile !== undefined) {
+    logger.info('Using configuration profile', { profile });
+  }
+
   // Build API config
-  const apiConfig: ValidationAPIConfig = {
-    baseUrl: options.apiBaseUrl ?? rawConfig.api?.baseUrl ?? 'http://localhost:8080',
-    endpoint: rawConfig.api?.endpoint ?? '/tool/call/check',
-    timeout: rawConfig.api?.timeout ?? 10000,
-    retries: rawConfig.api?.retries ?? 2,
-    retryDelay: rawConfig.api?.retryDelay ?? 1000,
-    apiKey: options.apiKey ?? rawConfig.api?.apiKey,
-  };
+  const apiOverrides = { baseUrl: options.apiBaseUrl, apiKey: options.apiKey };
+  const apiConfig = resolveAPIConfig(rawConfig, apiOverrides);
 
   // Resolve rules directory
   const rulesRelative = rawConfig.rules?.directory ?? './rules';
   const rulesDir = resolve(resolvedVetoDir, rulesRelative);
   const recursiveRules = rawConfig.rules?.recursive ?? true;
+  const ruleTags = rawConfig.rules?.tags ?? [];
 
-  // Fail mode
+  // Modes
+  const mode = rawConfig.mode ?? 'strict';
+  const validationMode = rawConfig.validation?.mode ?? 'api';
   const failMode = rawConfig.validation?.failMode ?? 'closed';
+  const remoteBackend = resolveRemoteBackend(validationMode, rawConfig);
 
   // Create rule validator config
+  const backendOptions: ConfiguredBackendOptions = {
+    logger,
+    backends: options.backends,
+    api: apiOverrides,
+    getRuleSet: (rule) => validator.getRuleLoader().getRules().ruleSets
+      .find((ruleSet) => ruleSet.rules.includes(rule)),
+  };
   const validatorConfig: RuleValidatorConfig = {
     api: apiConfig,
+    backend: remoteBackend
+      ? createConfiguredBackend(remoteBackend, rawConfig, backendOptions)
+      : undefined,
+    escalationBackend: createEscalationBackend(rawConfig, backendOptions) ?? undefined,
+    thresholds: rawConfig.validation?.thresholds,
+    cache: resolveDecisionCache(rawConfig) ?? undefined,
+    history: rawConfig.validation?.history,
+    mode,
+    validationMode,
     rulesDir: rulesDir,
     yamlParser: options.yamlParser,
     recursiveRuleSearch: recursiveRules,
+    ruleTags,
     failMode: failMode,
     sessionId: options.sessionId,
     agentId: options.agentId,
@@ -177,11 +193,15 @@ export async function loadVetoConfig(
     vetoDir: resolvedVetoDir,
     configPath,
     raw: rawConfig,
+    profile,
     apiConfig,
     logLevel,
+    mode,
+    validationMode,
     failMode,
     rulesDir,
     recursiveRules,
+    ruleTags,
     logger,
     validator,
   };
@@ -221,6 +241,10 @@ export function findVetoDir(startDir: string = process.cwd()): string | null {
 export function loadEnvOverrides(): Partial<LoadConfigOptions> {
   const overrides: Partial<LoadConfigOptions> = {};
 
+  if (process.env.VETO_PROFILE) {
+    overrides.profile = process.env.VETO_PROFILE;
+  }
+
   if (process.env.VETO_API_URL) {
     overrides.apiBaseUrl = process.env.VETO_API_URL;
   }
@@ -5,6 +5,22 @@
  */
 
 export { init, isInitialized, getVetoDir, type InitOptions, type InitResult } from './init.js';
+export {
+  lint,
+  type LintOptions,
+  type LintResult,
+  type LintFinding,
+  type LintSeverity,
+} from './lint.js';
+export {
+  runPolicyTests,
+  formatJUnit,
+  type PolicyTestCase,
+  type PolicyTestHistoryEntry,
+  type PolicyTestOptions,
+  type PolicyTestCaseResult,
+  type PolicyTestResult,
+} from './test.js';
 export {
   loadVetoConfig,
   findVetoDir,
@@ -0,0 +1,495 @@
+/**
+ * veto lint command implementation.
+ *
+ * Checks veto.config.yaml and every rule file without starting Veto, so
+ * policy changes can be gated in CI.
+ *
+ * @module cli/lint
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { Rule, RuleCondition } from '../rules/types.js';
+import { ACTION_PRECEDENCE } from '../rules/evaluator.js';
+import { selectProfile } from '../utils/profile.js';
+import { readConfigFile, type VetoConfigFile } from '../core/config.js';
+import {
+  findDuplicateRuleIds,
+  validateRuleFile,
+  type RuleFileValidation,
+  type RuleSchemaIssue,
+} from '../rules/schema.js';
+import { RuleInheritanceError } from '../rules/inheritance.js';
+import {
+  findPulledInFiles,
+  findRuleFiles,
+  isRuleSelected,
+  resolveRuleFile,
+  type ParsedRuleFile,
+} from '../rules/loader.js';
+
+/**
+ * Options for the lint command.
+ */
+export interface LintOptions {
+  /** Path to the veto directory (defaults to ./veto) */
+  configDir?: string;
+  /** Configuration profile to apply (defaults to VETO_PROFILE) */
+  profile?: string;
+  /** Path to a JSON or YAML tool manifest listing the available tools */
+  manifest?: string;
+  /** Suppress output */
+  quiet?: boolean;
+}
+
+/**
+ * Severity of a lint finding. Errors and warnings fail the lint.
+ */
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A single lint finding.
+ */
+export interface LintFinding {
+  /** Severity of the finding */
+  severity: LintSeverity;
+  /** Machine-readable finding code, e.g. "unknown-tool" */
+  code: string;
+  /** Description of the problem */
+  message: string;
+  /** File the finding refers to */
+  file?: string;
+  /** 1-based line number */
+  line?: number;
+  /** 1-based column number */
+  column?: number;
+  /** Rule the finding refers to */
+  ruleId?: string;
+}
+
+/**
+ * Result of the lint command.
+ */
+export interface LintResult {
+  /** True if there are no errors or warnings */
+  success: boolean;
+  /** All findings, in file order */
+  findings: LintFinding[];
+  /** Number of rule files checked */
+  filesChecked: number;
+  /** Number of rules checked */
+  rulesChecked: number;
+}
+
+/**
+ * A rule together with where it was defined.
+ */
+interface LocatedRule {
+  rule: Rule;
+  file: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Print a message to console (unless quiet mode).
+ */
+function log(message: string, quiet: boolean): void {
+  if (!quiet) {
+    console.log(message);
+  }
+}
+
+/**
+ * Lint the Veto configuration and rule files.
+ *
+ * Reports schema errors, duplicate rule IDs, rules naming tools missing
+ * from the tool manifest, shadowed and contradictory rules, and disabled
+ * rules.
+ *
+ * @param options - Lint options
+ * @returns Findings and whether the lint passed
+ */
+export async function lint(options: LintOptions = {}): Promise<LintResult> {
+  const { quiet = false } = options;
+  const configDir = resolve(options.configDir ?? './veto');
+  const findings: LintFinding[] = [];
+
+  // Load config and rule files the way Veto.init does
+  const configPath = join(configDir, 'veto.config.yaml');
+  const profile = selectProfile(options.profile);
+  let config: VetoConfigFile = {};
+
+  if (!existsSync(configPath)) {
+    findings.push(profile !== undefined
+      ? {
+        severity: 'error',
+        code: 'invalid-config',
+        message: `Unknown profile "${profile}": ${configPath} not found`,
+        file: configPath,
+      }
+      : {
+        severity: 'warning',
+        code: 'missing-config',
+        message: 'veto.config.yaml not found, using defaults',
+        file: configPath,
+      });
+  } else {
+    try {
+      config = readConfigFile(configPath, profile);
+    } catch (error) {
+      findings.push({
+        severity: 'error',
+        code: 'invalid-config',
+        message: error instanceof Error ? error.message : String(error),
+        file: configPath,
+      });
+    }
+  }
+
+  const rulesDir = resolve(configDir, config.rules?.directory ?? './rules');
+  const files = findRuleFiles(rulesDir, config.rules?.recursive ?? true);
+
+  // Schema and duplicate IDs
+  const validations: RuleFileValidation[] = files.map((file) =>
+    validateRuleFile(readFileSync(file, 'utf-8'), file)
+  );
+  const parsed = validations.map((validation) => resolveFile(validation, files, findings));
+
+  // Files pulled in by another file only load through it, as in Veto
+  const pulledIn = findPulledInFiles(parsed.filter((file): file is ParsedRuleFile => file !== null));
+  const loaded = validations.filter((validation) => !pulledIn.has(resolve(validation.file)));
+  for (const validation of validations) {
+    if (pulledIn.has(resolve(validation.file))) {
+      findings.push({
+        severity: 'info',
+        code: 'pulled-in-file',
+        message: 'Rules in this file are only loaded through the files that extend or include it',
+        file: validation.file,
+      });
+    }
+  }
+
+  const schemaIssues: RuleSchemaIssue[] = [
+    ...validations.flatMap((validation) => validation.issues),
+    ...findDuplicateRuleIds(loaded),
+  ];
+  findings.push(...schemaIssues.map(schemaFinding));
+
+  const rules = parsed.flatMap((file) =>
+    file && !pulledIn.has(resolve(file.validation.file)) ? locateRules(file) : []
+  );
+
+  // Disabled rules (Veto only loads rules with `enabled: true`)
+  for (const entry of rules) {
+    if (entry.rule.enabled === false) {
+      findings.push({
+        ...locate(entry),
+        severity: 'info',
+        code: 'disabled-rule',
+        message: `Rule "${entry.rule.id}" is disabled`,
+      });
+    } else if (entry.rule.enabled !== true) {
+      findings.push({
+        ...locate(entry),
+        severity: 'warning',
+        code: 'implicitly-disabled',
+        message: `Rule "${entry.rule.id}" has no "enabled: true" and will not be loaded`,
+      });
+    }
+  }
+
+  // Rules Veto loads, after `rules.tags` selection
+  const active = rules.filter((entry) => isRuleSelected(entry.rule, config.rules?.tags));
+
+  // Tools missing from the manifest
+  if (options.manifest) {
+    const manifestTools = loadManifest(resolve(options.manifest), findings);
+    if (manifestTools) {
+      for (const entry of active) {
+        for (const tool of entry.rule.tools ?? []) {
+          if (!manifestTools.has(tool)) {
+            findings.push({
+              ...locate(entry),
+              severity: 'error',
+              code: 'unknown-tool',
+              message: `Rule "${entry.rule.id}" names tool "${tool}" which is not in the tool manifest`,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  findings.push(...findRuleConflicts(active));
+
+  const result: LintResult = {
+    success: !findings.some((finding) => finding.severity !== 'info'),
+    findings,
+    filesChecked: files.length,
+    rulesChecked: rules.length,
+  };
+
+  printResult(result, quiet);
+  return result;
+}
+
+/**
+ * Find shadowed and contradictory rules.
+ *
+ * A rule is shadowed when a block rule with the same or wider tool scope
+ * matches every call it matches, so it can never change the outcome. Two
+ * rules contradict when they have the same scope and conditions, but one
+ * allows the call and the other does not.
+ */
+function findRuleConflicts(rules: readonly LocatedRule[]): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const candidates = rules.filter(
+    (entry) => Array.isArray(entry.rule.conditions) && entry.rule.conditions.length > 0
+  );
+
+  for (const a of candidates) {
+    for (const b of candidates) {
+      if (a === b) continue;
+
+      const sameConditions = conditionsEqual(a.rule, b.rule);
+      const sameScope = toolScopeEqual(a.rule, b.rule);
+
+      if (
+        sameConditions &&
+        sameScope &&
+        a.rule.action === 'allow' &&
+        b.rule.action !== 'allow' &&
+        ACTION_PRECEDENCE[b.rule.action] > ACTION_PRECEDENCE.warn
+      ) {
+        findings.push({
+          ...locate(b),
+          severity: 'warning',
+          code: 'contradictory-rules',
+          message: `Rule "${b.rule.id}" (${b.rule.action}) contradicts rule "${a.rule.id}" (allow) with the same conditions`,
+        });
+        continue;
+      }
+
+      if (
+        a.rule.action === 'block' &&
+        !a.rule.condition_groups?.length &&
+        !a.rule.sequence?.length &&
+        !a.rule.rate_limit &&
+        coversTools(a.rule, b.rule) &&
+        impliesConditions(b.rule, a.rule) &&
+        !(sameConditions && sameScope && (
+          // Already reported as a contradiction
+          b.rule.action === 'allow' ||
+          // Identical block rules shadow each other; report only the later one
+          (b.rule.action === 'block' && rules.indexOf(b) < rules.indexOf(a))
+        ))
+      ) {
+        findings.push({
+          ...locate(b),
+          severity: 'warning',
+          code: 'shadowed-rule',
+          message: `Rule "${b.rule.id}" is shadowed by block rule "${a.rule.id}", which matches every call it matches`,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Convert a schema issue to a lint finding.
+ */
+function schemaFinding(issue: RuleSchemaIssue): LintFinding {
+  return {
+    severity: 'error',
+    code: issue.message.startsWith('Duplicate rule ID') ? 'duplicate-id' : 'schema',
+    message: issue.path ? `${issue.path}: ${issue.message}` : issue.message,
+    file: issue.file,
+    line: issue.line,
+    column: issue.column,
+  };
+}
+
+/**
+ * Resolve the inheritance of a validated file.
+ *
+ * Problems resolving `extends` or `include` are added to the findings,
+ * along with schema issues in pulled-in files that are not linted on
+ * their own.
+ *
+ * @returns The parsed file, or null if it cannot be resolved
+ */
+function resolveFile(
+  validation: RuleFileValidation,
+  lintedFiles: readonly string[],
+  findings: LintFinding[]
+): ParsedRuleFile | null {
+  if (validation.syntaxError) {
+    return null;
+  }
+
+  try {
+    const parsed = resolveRuleFile(validation);
+    findings.push(
+      ...parsed.issues
+        .filter((issue) => !lintedFiles.includes(issue.file))
+        .map(schemaFinding)
+    );
+    return parsed;
+  } catch (error) {
+    findings.push({
+      severity: 'error',
+      code: 'invalid-inheritance',
+      message: error instanceof RuleInheritanceError
+        ? error.reason
+        : error instanceof Error ? error.message : String(error),
+      file: error instanceof RuleInheritanceError ? error.file : validation.file,
+    });
+    return null;
+  }
+}
+
+/**
+ * The rules of a parsed file, inherited ones included, with their locations.
+ */
+function locateRules(file: ParsedRuleFile): LocatedRule[] {
+  const { validation } = file;
+  return file.rules
+    .filter((rule): rule is Rule => !!rule && typeof rule === 'object' && typeof rule.id === 'string')
+    .map((rule) => {
+      const location = validation.ruleIds.find((entry) => entry.id === rule.id);
+      return { rule, file: validation.file, line: location?.line, column: location?.column };
+    });
+}
+
+/**
+ * Load the set of tool names from a tool manifest.
+ *
+ * Accepts a list of names, a list of tool definitions (`{ name }` or
+ * OpenAI-style `{ function: { name } }`), or an object with a `tools` list.
+ */
+function loadManifest(path: string, findings: LintFinding[]): Set<string> | null {
+  try {
+    const parsed = parseYaml(readFileSync(path, 'utf-8')) as unknown;
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { tools?: unknown } | null)?.tools;
+
+    if (!Array.isArray(list)) {
+      throw new Error('Expected a list of tools or an object with a "tools" list');
+    }
+
+    const names = new Set<string>();
+    for (const tool of list) {
+      if (typeof tool === 'string') {
+        names.add(tool);
+      } else if (tool && typeof tool === 'object') {
+        const name = (tool as { name?: unknown }).name ??
+          (tool as { function?: { name?: unknown } }).function?.name;
+        if (typeof name === 'string') {
+          names.add(name);
+        }
+      }
+    }
+    return names;
+  } catch (error) {
+    findings.push({
+      severity: 'error',
+      code: 'invalid-manifest',
+      message: `Cannot read tool manifest: ${error instanceof Error ? error.message : String(error)}`,
+      file: path,
+    });
+    return null;
+  }
+}
+
+/**
+ * Check whether rule `a` applies to every tool rule `b` applies to.
+ */
+function coversTools(a: Rule, b: Rule): boolean {
+  if (!a.tools || a.tools.length === 0) return true;
+  if (!b.tools || b.tools.length === 0) return false;
+  return b.tools.every((tool) => a.tools?.includes(tool));
+}
+
+/**
+ * Check whether two rules apply to the same tools.
+ */
+function toolScopeEqual(a: Rule, b: Rule): boolean {
+  return coversTools(a, b) && coversTools(b, a);
+}
+
+/**
+ * Check whether every call matching `specific` also matches `general`.
+ *
+ * True when all of `general`'s conditions also appear in `specific`.
+ */
+function impliesConditions(specific: Rule, general: Rule): boolean {
+  const conditions = specific.conditions ?? [];
+  return (general.conditions ?? []).every((condition) =>
+    conditions.some((candidate) => conditionEqual(candidate, condition))
+  );
+}
+
+/**
+ * Check whether two rules have the same conditions, in any order.
+ */
+function conditionsEqual(a: Rule, b: Rule): boolean {
+  return (
+    !a.condition_groups?.length &&
+    !b.condition_groups?.length &&
+    !a.sequence?.length &&
+    !b.sequence?.length &&
+    (a.conditions?.length ?? 0) === (b.conditions?.length ?? 0) &&
+    impliesConditions(a, b)
+  );
+}
+
+/**
+ * Compare two conditions structurally.
+ */
+function conditionEqual(a: RuleCondition, b: RuleCondition): boolean {
+  return (
+    a.field === b.field &&
+    a.operator === b.operator &&
+    JSON.stringify(a.value) === JSON.stringify(b.value)
+  );
+}
+
+/**
+ * Location fields of a finding for a rule.
+ */
+function locate(entry: LocatedRule): Pick<LintFinding, 'file' | 'line' | 'column' | 'ruleId'> {
+  return { file: entry.file, line: entry.line, column: entry.column, ruleId: entry.rule.id };
+}
+
+/**
+ * Print findings and a summary.
+ */
+function printResult(result: LintResult, quiet: boolean): void {
+  log('', quiet);
+
+  for (const finding of result.findings) {
+    const file = finding.file ? relative(process.cwd(), finding.file) : '';
+    const location = finding.line !== undefined
+      ? `${file}:${finding.line}:${finding.column ?? 1}`
+      : file;
+    log(`  ${location}  ${finding.severity}  ${finding.message}  [${finding.code}]`, quiet);
+  }
+
+  const count = (severity: LintSeverity) =>
+    result.findings.filter((finding) => finding.severity === severity).length;
+
+  if (result.findings.length > 0) {
+    log('', quiet);
+  }
+  log(
+    `Checked ${result.rulesChecked} rules in ${result.filesChecked} files: ` +
+    `${count('error')} errors, ${count('warning')} warnings, ${count('info')} notices`,
+    quiet
+  );
+  log('', quiet);
+}
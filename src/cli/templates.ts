@@ -33,6 +33,7 @@ logging:
 rules:
   directory: "./rules"
   recursive: true
+  watch: false  # Reload rules when rule files change
 `;
 
 /**
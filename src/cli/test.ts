@@ -0,0 +1,476 @@
+/**
+ * veto test command implementation.
+ *
+ * Runs declarative YAML policy tests through `Veto.validateToolCall` in the
+ * configured validation mode, with the decision backend replaced by a
+ * mocked decider.
+ *
+ * @module cli/test
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { extname, join, relative, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { Veto } from '../core/veto.js';
+import { readConfigFile, resolveRemoteBackend, type VetoConfigFile } from '../core/config.js';
+import { InMemoryHistoryStore } from '../core/history-store.js';
+import type { ValidationDecision } from '../types/config.js';
+import type { DecisionBackend } from '../backends/types.js';
+import type { KernelResponse } from '../kernel/types.js';
+import { generateToolCallId } from '../utils/id.js';
+import { selectProfile } from '../utils/profile.js';
+import { createCallbackApprovalProvider } from '../approval/providers.js';
+
+/**
+ * A previous call replayed before the tested call.
+ */
+export interface PolicyTestHistoryEntry {
+  /** Tool name */
+  tool: string;
+  /** Tool arguments */
+  arguments?: Record<string, unknown>;
+}
+
+/**
+ * A single declarative policy test.
+ */
+export interface PolicyTestCase {
+  /** Test name */
+  name: string;
+  /** Tool being called */
+  tool: string;
+  /** Tool arguments */
+  arguments?: Record<string, unknown>;
+  /** Calls replayed through Veto before the tested call */
+  history?: PolicyTestHistoryEntry[];
+  /** Custom context data (`context.*` in rule conditions) */
+  context?: Record<string, unknown>;
+  /**
+   * Mocked decider response. Calls the configured validation mode forwards
+   * to a backend get this response instead of reaching a real API or
+   * model; in local mode it is never used.
+   */
+  decider?: Partial<KernelResponse>;
+  /** Answer given when the call requires approval */
+  approval?: 'approve' | 'deny';
+  /** Expected outcome */
+  expect: {
+    /** Expected decision */
+    decision: ValidationDecision;
+    /** Expected matched rule IDs (any order) */
+    matched_rules?: string[];
+  };
+}
+
+/**
+ * Options for the test command.
+ */
+export interface PolicyTestOptions {
+  /** Path to the veto directory (defaults to ./veto) */
+  configDir?: string;
+  /** Test file or directory (defaults to <configDir>/tests) */
+  tests?: string;
+  /** Write a JUnit XML report to this path */
+  junit?: string;
+  /** Suppress output */
+  quiet?: boolean;
+}
+
+/**
+ * Outcome of a single policy test.
+ */
+export interface PolicyTestCaseResult {
+  /** Suite (test file) name */
+  suite: string;
+  /** Test name */
+  name: string;
+  /** Whether the test passed */
+  passed: boolean;
+  /** Why the test failed */
+  failures: string[];
+  /** Actual decision (undefined if the test could not run) */
+  decision?: ValidationDecision;
+  /** Actual matched rule IDs */
+  matchedRules: string[];
+  /** Actual decision reason */
+  reason?: string;
+  /** Duration in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Result of the test command.
+ */
+export interface PolicyTestResult {
+  /** True if every test passed */
+  success: boolean;
+  /** Results of all tests, in file order */
+  results: PolicyTestCaseResult[];
+  /** Number of passed tests */
+  passed: number;
+  /** Number of failed tests */
+  failed: number;
+}
+
+/**
+ * Print a message to console (unless quiet mode).
+ */
+function log(message: string, quiet: boolean): void {
+  if (!quiet) {
+    console.log(message);
+  }
+}
+
+/**
+ * Run declarative policy tests.
+ *
+ * Each test gets a fresh Veto instance loaded from the config directory,
+ * with rule watching off and history kept in memory. Calls are validated
+ * in the configured validation mode; the backends it forwards to are
+ * replaced by the test's mocked decider, which passes calls by default.
+ *
+ * @param options - Test options
+ * @returns Results of all tests
+ */
+export async function runPolicyTests(options: PolicyTestOptions = {}): Promise<PolicyTestResult> {
+  const { quiet = false } = options;
+  const configDir = resolve(options.configDir ?? './veto');
+  const testsPath = resolve(options.tests ?? join(configDir, 'tests'));
+  const results: PolicyTestCaseResult[] = [];
+  let deciderNames: string[] = [];
+
+  try {
+    deciderNames = findDeciderNames(configDir);
+  } catch (error) {
+    results.push({
+      suite: relative(process.cwd(), join(configDir, 'veto.config.yaml')),
+      name: '(load config)',
+      passed: false,
+      failures: [error instanceof Error ? error.message : String(error)],
+      matchedRules: [],
+      durationMs: 0,
+    });
+  }
+
+  for (const file of findTestFiles(testsPath)) {
+    const suite = relative(process.cwd(), file);
+    let cases: PolicyTestCase[];
+
+    try {
+      cases = parseTestFile(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      results.push({
+        suite,
+        name: '(load test file)',
+        passed: false,
+        failures: [error instanceof Error ? error.message : String(error)],
+        matchedRules: [],
+        durationMs: 0,
+      });
+      continue;
+    }
+
+    for (const testCase of cases) {
+      results.push(await runTestCase(configDir, deciderNames, suite, testCase));
+    }
+  }
+
+  const passed = results.filter((result) => result.passed).length;
+  const result: PolicyTestResult = {
+    success: results.length > 0 && passed === results.length,
+    results,
+    passed,
+    failed: results.length - passed,
+  };
+
+  printResult(result, testsPath, quiet);
+
+  if (options.junit) {
+    writeFileSync(options.junit, formatJUnit(result), 'utf-8');
+    log(`JUnit report written to ${options.junit}`, quiet);
+  }
+
+  return result;
+}
+
+/**
+ * Run a single test case.
+ */
+async function runTestCase(
+  configDir: string,
+  deciderNames: readonly string[],
+  suite: string,
+  testCase: PolicyTestCase
+): Promise<PolicyTestCaseResult> {
+  const started = Date.now();
+  const result: PolicyTestCaseResult = {
+    suite,
+    name: testCase.name ?? `${testCase.tool} call`,
+    passed: false,
+    failures: [],
+    matchedRules: [],
+    durationMs: 0,
+  };
+
+  const problems = checkTestCase(testCase);
+  if (problems.length > 0) {
+    result.failures = problems;
+    return result;
+  }
+
+  // History calls always pass the mocked decider; only the tested call gets
+  // the configured response
+  let deciderResponse: Partial<KernelResponse> | undefined;
+  let veto: Veto | undefined;
+
+  try {
+    veto = await Veto.init({
+      configDir,
+      logLevel: 'silent',
+      backends: deciderNames.map((name) => createMockDecider(name, () => deciderResponse)),
+      watch: false,
+      historyStore: new InMemoryHistoryStore(),
+      customContext: testCase.context,
+      approvalProvider: testCase.approval
+        ? createCallbackApprovalProvider(() => testCase.approval === 'approve', 'test')
+        : undefined,
+    });
+
+    for (const entry of testCase.history ?? []) {
+      await veto.validateToolCall({
+        id: generateToolCallId(),
+        name: entry.tool,
+        arguments: entry.arguments ?? {},
+      });
+    }
+
+    deciderResponse = testCase.decider;
+    const outcome = await veto.validateToolCall({
+      id: generateToolCallId(),
+      name: testCase.tool,
+      arguments: testCase.arguments ?? {},
+    });
+
+    const matched = outcome.validationResult.metadata?.matched_rules;
+    result.decision = outcome.validationResult.decision;
+    result.matchedRules = Array.isArray(matched) ? matched.map(String) : [];
+    result.reason = outcome.validationResult.reason;
+
+    if (result.decision !== testCase.expect.decision) {
+      result.failures.push(
+        `expected decision "${testCase.expect.decision}", got "${result.decision}"` +
+        (result.reason ? ` (${result.reason})` : '')
+      );
+    }
+
+    const expectedRules = testCase.expect.matched_rules;
+    if (expectedRules && !sameIds(expectedRules, result.matchedRules)) {
+      result.failures.push(
+        `expected matched rules [${expectedRules.join(', ')}], got [${result.matchedRules.join(', ')}]`
+      );
+    }
+  } catch (error) {
+    result.failures.push(error instanceof Error ? error.message : String(error));
+  } finally {
+    veto?.close();
+  }
+
+  result.passed = result.failures.length === 0;
+  result.durationMs = Date.now() - started;
+  return result;
+}
+
+/**
+ * Find the names of the backends the configured validation mode forwards
+ * calls to, including the uncertainty escalation backend.
+ */
+function findDeciderNames(configDir: string): string[] {
+  const configPath = join(configDir, 'veto.config.yaml');
+  const config: VetoConfigFile = existsSync(configPath)
+    ? readConfigFile(configPath, selectProfile())
+    : {};
+
+  const names = new Set<string>();
+  const backend = resolveRemoteBackend(config.validation?.mode ?? 'api', config);
+  if (backend) {
+    names.add(backend);
+  }
+  const escalation = config.validation?.thresholds?.uncertainty;
+  if (escalation?.action === 'backend' && escalation.backend) {
+    names.add(escalation.backend);
+  }
+  return [...names];
+}
+
+/**
+ * Create a decision backend that always returns the given response.
+ */
+function createMockDecider(
+  name: string,
+  getResponse: () => Partial<KernelResponse> | undefined
+): DecisionBackend {
+  return {
+    name,
+    label: 'Mocked decider',
+    decide: async () => {
+      const response = getResponse() ?? {};
+      const decision = response.decision ?? 'pass';
+      return {
+        decision,
+        should_pass_weight: response.pass_weight ?? (decision === 'pass' ? 1 : 0),
+        should_block_weight: response.block_weight ?? (decision === 'block' ? 1 : 0),
+        reasoning: response.reasoning ?? 'Mocked decider response',
+        matched_rules: response.matched_rules,
+      };
+    },
+  };
+}
+
+/**
+ * Parse a test file: a list of tests, or an object with a `tests` list.
+ */
+function parseTestFile(content: string): PolicyTestCase[] {
+  const parsed = parseYaml(content) as unknown;
+  const cases = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { tests?: unknown } | null)?.tests;
+
+  if (!Array.isArray(cases)) {
+    throw new Error('Expected a list of tests or an object with a "tests" list');
+  }
+  return cases as PolicyTestCase[];
+}
+
+/**
+ * Check that a test case has the required fields.
+ */
+function checkTestCase(testCase: PolicyTestCase): string[] {
+  const problems: string[] = [];
+  const decisions: ValidationDecision[] = ['allow', 'deny', 'modify'];
+
+  if (typeof testCase.tool !== 'string') {
+    problems.push('missing "tool"');
+  }
+  if (!testCase.expect || !decisions.includes(testCase.expect.decision)) {
+    problems.push(`"expect.decision" must be one of: ${decisions.join(', ')}`);
+  }
+  return problems;
+}
+
+/**
+ * Compare two ID lists, ignoring order.
+ */
+function sameIds(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+}
+
+/**
+ * Find YAML test files at a path (file or directory, searched recursively).
+ */
+function findTestFiles(path: string): string[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+  if (statSync(path).isFile()) {
+    return [path];
+  }
+
+  const files: string[] = [];
+  for (const entry of readdirSync(path).sort()) {
+    const fullPath = join(path, entry);
+    if (statSync(fullPath).isDirectory()) {
+      files.push(...findTestFiles(fullPath));
+    } else {
+      const ext = extname(entry).toLowerCase();
+      if (ext === '.yaml' || ext === '.yml') {
+        files.push(fullPath);
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Format results as a JUnit XML report.
+ */
+export function formatJUnit(result: PolicyTestResult): string {
+  const suites = new Map<string, PolicyTestCaseResult[]>();
+  for (const entry of result.results) {
+    const list = suites.get(entry.suite) ?? [];
+    list.push(entry);
+    suites.set(entry.suite, list);
+  }
+
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const totalTime = result.results.reduce((sum, entry) => sum + entry.durationMs, 0);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="veto" tests="${result.results.length}" failures="${result.failed}" time="${seconds(totalTime)}">`,
+  ];
+
+  for (const [suite, entries] of suites) {
+    const failures = entries.filter((entry) => !entry.passed).length;
+    const time = entries.reduce((sum, entry) => sum + entry.durationMs, 0);
+    lines.push(
+      `  <testsuite name="${escapeXml(suite)}" tests="${entries.length}" failures="${failures}" time="${seconds(time)}">`
+    );
+
+    for (const entry of entries) {
+      const open = `    <testcase name="${escapeXml(entry.name)}" classname="${escapeXml(suite)}" time="${seconds(entry.durationMs)}"`;
+      if (entry.passed) {
+        lines.push(`${open}/>`);
+      } else {
+        lines.push(`${open}>`);
+        lines.push(
+          `      <failure message="${escapeXml(entry.failures[0] ?? 'failed')}">${escapeXml(entry.failures.join('\n'))}</failure>`
+        );
+        lines.push('    </testcase>');
+      }
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Escape text for use in XML attributes and content.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Print a pass/fail table and a summary.
+ */
+function printResult(result: PolicyTestResult, testsPath: string, quiet: boolean): void {
+  log('', quiet);
+
+  if (result.results.length === 0) {
+    log(`  No policy tests found in ${relative(process.cwd(), testsPath) || '.'}`, quiet);
+    log('', quiet);
+    return;
+  }
+
+  const nameWidth = Math.max(...result.results.map((entry) => `${entry.suite} > ${entry.name}`.length));
+
+  for (const entry of result.results) {
+    const label = `${entry.suite} > ${entry.name}`.padEnd(nameWidth);
+    const status = entry.passed ? 'PASS' : 'FAIL';
+    log(`  ${status}  ${label}  ${entry.decision ?? '-'}`, quiet);
+    for (const failure of entry.failures) {
+      log(`          ${failure}`, quiet);
+    }
+  }
+
+  log('', quiet);
+  log(`${result.passed} passed, ${result.failed} failed`, quiet);
+  log('', quiet);
+}
@@ -0,0 +1,177 @@
+/**
+ * Decision cache for repeated identical tool calls.
+ *
+ * Agents often repeat the same call, and every repeat would otherwise pay a
+ * full backend round trip. Entries are keyed by backend, tool name, a hash
+ * of the canonicalized arguments, the session, agent and custom context of
+ * the call, and a version of the applicable rules.
+ *
+ * @module core/cache
+ */
+
+import { createHash } from 'node:crypto';
+import type { Rule } from '../rules/types.js';
+import type { BackendDecision } from '../backends/types.js';
+
+/**
+ * Options for the decision cache.
+ */
+export interface DecisionCacheOptions {
+  /** Milliseconds an entry stays valid (default: 60000) */
+  ttlMs?: number;
+  /** Maximum number of entries; the least recently used is evicted (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * Who a call was made by, which backends may take into account.
+ */
+export interface DecisionCacheScope {
+  /** Session ID of the call */
+  sessionId?: string;
+  /** Agent ID of the call */
+  agentId?: string;
+  /** Custom context of the call */
+  custom?: Record<string, unknown>;
+}
+
+interface CacheEntry {
+  decision: BackendDecision;
+  expiresAt: number;
+}
+
+/**
+ * LRU cache of backend decisions with a time to live.
+ */
+export class DecisionCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly ruleVersions = new WeakMap<Rule, string>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+
+  constructor(options: DecisionCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 60000;
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  /**
+   * Build the cache key for a call.
+   *
+   * @param backend - Name of the deciding backend
+   * @param toolName - Tool name
+   * @param args - Tool arguments
+   * @param rules - Rules applicable to the call
+   * @param scope - Session, agent and custom context of the call
+   */
+  key(
+    backend: string,
+    toolName: string,
+    args: Record<string, unknown>,
+    rules: readonly Rule[],
+    scope: DecisionCacheScope = {}
+  ): string {
+    const rulesVersion = hash(rules.map((rule) => this.ruleVersion(rule)).join(','));
+    const scopeHash = hash(canonicalize({
+      session_id: scope.sessionId,
+      agent_id: scope.agentId,
+      custom: scope.custom,
+    }));
+    return `${backend}:${toolName}:${hash(canonicalize(args))}:${scopeHash}:${rulesVersion}`;
+  }
+
+  /**
+   * Get a cached decision, if present and not expired.
+   */
+  get(key: string): BackendDecision | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.decision;
+  }
+
+  /**
+   * Cache a decision.
+   */
+  set(key: string, decision: BackendDecision): void {
+    this.entries.delete(key);
+    this.entries.set(key, { decision, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Get the number of cached entries, including expired ones not yet evicted.
+   */
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Remove all entries.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Hash of a rule's content, computed once per rule object.
+   */
+  private ruleVersion(rule: Rule): string {
+    let version = this.ruleVersions.get(rule);
+    if (!version) {
+      version = hash(canonicalize(rule));
+      this.ruleVersions.set(rule, version);
+    }
+    return version;
+  }
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal values
+ * serialize identically whatever their key order.
+ */
+export function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item)).join(',')}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value);
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Short SHA-256 hex digest of a string.
+ */
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
+
+/**
+ * Create a decision cache.
+ *
+ * @param options - Cache options
+ * @returns DecisionCache instance
+ */
+export function createDecisionCache(options?: DecisionCacheOptions): DecisionCache {
+  return new DecisionCache(options);
+}
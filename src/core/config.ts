@@ -0,0 +1,443 @@
+/**
+ * veto.config.yaml structure and resolution.
+ *
+ * Shared by `Veto`, the rule validator loaded by `loadVetoConfig`, and the
+ * CLI, so every entry point reads the same keys with the same defaults.
+ *
+ * @module core/config
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { LogLevel } from '../types/config.js';
+import type { Logger } from '../utils/logger.js';
+import { applyProfile } from '../utils/profile.js';
+import { interpolateEnv, type InterpolatedType } from '../utils/env.js';
+import type { APIAuthConfig } from '../utils/auth.js';
+import type { YamlParser } from '../rules/loader.js';
+import type { ValidationAPIConfig } from '../rules/api-client.js';
+import type { KernelConfig } from '../kernel/types.js';
+import { KERNEL_DEFAULTS } from '../kernel/types.js';
+import type { KernelClient } from '../kernel/client.js';
+import type { ApprovalDefaultAnswer } from '../approval/types.js';
+import type { DecisionBackend } from '../backends/types.js';
+import { APIBackend } from '../backends/api.js';
+import { KernelBackend } from '../backends/kernel.js';
+import { LocalBackend, type LocalRuleSet } from '../backends/local.js';
+import { EnsembleBackend, type EnsembleStrategy } from '../backends/ensemble.js';
+import {
+  CircuitBreakerBackend,
+  type CircuitBreakerOptions,
+} from '../backends/circuit-breaker.js';
+import type { Rule } from '../rules/types.js';
+import { DecisionCache } from './cache.js';
+import {
+  InMemoryHistoryStore,
+  JsonlHistoryStore,
+  type HistoryStore,
+} from './history-store.js';
+import type {
+  DecisionThresholds,
+  FailMode,
+  HistoryContextOptions,
+  RemoteBackend,
+  ValidationMode,
+  VetoMode,
+} from './pipeline.js';
+
+/**
+ * Parsed veto.config.yaml structure.
+ */
+export interface VetoConfigFile {
+  version?: string;
+  mode?: VetoMode;
+  validation?: {
+    mode?: ValidationMode;
+    /** Backend for undecided calls in hybrid mode (default: api) */
+    backend?: RemoteBackend;
+    /** Fail mode for rule sets that do not set `fail_mode` (default: closed) */
+    failMode?: FailMode;
+    defaultDecision?: 'allow' | 'block';
+    /** Members and strategy of the "ensemble" backend */
+    ensemble?: {
+      backends?: string[];
+      strategy?: EnsembleStrategy;
+      /** Block threshold for the weighted strategy (default: 0.5) */
+      threshold?: number;
+      /** Weight of each member in the weighted average (default: 1) */
+      weights?: Record<string, number>;
+    };
+    /** Block-weight thresholds and the uncertainty band around them */
+    thresholds?: Omit<DecisionThresholds, 'uncertainty'> & {
+      uncertainty?: NonNullable<DecisionThresholds['uncertainty']> & {
+        /** Backend to ask when the action is "backend" */
+        backend?: string;
+      };
+    };
+    /** Circuit breaker around the API and kernel backends */
+    circuitBreaker?: CircuitBreakerOptions & {
+      /** Set to false to disable the breaker (default: true) */
+      enabled?: boolean;
+    };
+    /** Cache backend decisions for repeated identical calls (opt-in) */
+    cache?: {
+      enabled?: boolean;
+      /** Milliseconds an entry stays valid (default: 60000) */
+      ttl?: number;
+      /** Maximum number of cached decisions (default: 1000) */
+      maxEntries?: number;
+    };
+    /** Earlier calls sent to the API and kernel backends, and where history is kept */
+    history?: HistoryContextOptions & {
+      /** Store the call history is persisted to (default: none) */
+      store?: 'memory' | 'jsonl';
+      /** File of the "jsonl" store, relative to the config directory (default: history.jsonl) */
+      path?: string;
+    };
+  };
+  api?: {
+    baseUrl?: string;
+    endpoint?: string;
+    /** Endpoint for validating several calls in one request (default: none) */
+    batchEndpoint?: string;
+    /** Milliseconds to collect calls for a batch request (default: 10) */
+    batchWindow?: number;
+    /** Maximum number of calls per batch request (default: 50) */
+    batchMaxSize?: number;
+    timeout?: number;
+    retries?: number;
+    /** Delay before the first retry, doubled for each further retry (default: 1000) */
+    retryDelay?: number;
+    /** Maximum delay between retries (default: 30000) */
+    maxRetryDelay?: number;
+    /** Sent as `Authorization: Bearer <apiKey>` unless `auth` sets one */
+    apiKey?: string;
+    /** Bearer token, custom headers and HMAC signing for API requests */
+    auth?: APIAuthConfig;
+  };
+  kernel?: {
+    baseUrl?: string;
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    timeout?: number;
+  };
+  logging?: {
+    level?: LogLevel;
+  };
+  rules?: {
+    directory?: string;
+    recursive?: boolean;
+    /** Reload rules when rule files or the config file change */
+    watch?: boolean;
+    /** Refuse to start (or reload) when rule files fail schema validation */
+    strict?: boolean;
+    /** Only load rules with at least one of these tags */
+    tags?: string[];
+  };
+  approval?: {
+    /** Milliseconds to wait for an answer (default: 60000) */
+    timeout?: number;
+    /** Answer used when the provider does not respond in time (default: deny) */
+    defaultAnswer?: ApprovalDefaultAnswer;
+  };
+  session?: {
+    sessionHeader?: string;
+    agentHeader?: string;
+    /** Maximum number of sessions kept; the least recently active is evicted (default: 1000) */
+    maxSessions?: number;
+    /** Milliseconds after which an idle session is evicted (default: 1800000) */
+    idleTimeout?: number;
+  };
+  /** Named overrides of the settings above, selected by VETO_PROFILE or the profile option */
+  profiles?: Record<string, Omit<VetoConfigFile, 'version' | 'profiles'>>;
+}
+
+/**
+ * Config values that are numbers or booleans, by path; `*` matches any key.
+ * Other interpolated values stay strings.
+ */
+const CONFIG_VALUE_TYPES = new Map<string, InterpolatedType>([
+  ['validation.ensemble.threshold', 'number'],
+  ['validation.ensemble.weights.*', 'number'],
+  ['validation.thresholds.block', 'number'],
+  ['validation.thresholds.severity.*', 'number'],
+  ['validation.thresholds.tools.*', 'number'],
+  ['validation.thresholds.uncertainty.margin', 'number'],
+  ['validation.circuitBreaker.enabled', 'boolean'],
+  ['validation.circuitBreaker.failureRate', 'number'],
+  ['validation.circuitBreaker.minimumCalls', 'number'],
+  ['validation.circuitBreaker.window', 'number'],
+  ['validation.circuitBreaker.resetTimeout', 'number'],
+  ['validation.cache.enabled', 'boolean'],
+  ['validation.cache.ttl', 'number'],
+  ['validation.cache.maxEntries', 'number'],
+  ['validation.history.depth', 'number'],
+  ['validation.history.includeArguments', 'boolean'],
+  ['api.batchWindow', 'number'],
+  ['api.batchMaxSize', 'number'],
+  ['api.timeout', 'number'],
+  ['api.retries', 'number'],
+  ['api.retryDelay', 'number'],
+  ['api.maxRetryDelay', 'number'],
+  ['kernel.temperature', 'number'],
+  ['kernel.maxTokens', 'number'],
+  ['kernel.timeout', 'number'],
+  ['rules.recursive', 'boolean'],
+  ['rules.watch', 'boolean'],
+  ['rules.strict', 'boolean'],
+  ['approval.timeout', 'number'],
+  ['session.maxSessions', 'number'],
+  ['session.idleTimeout', 'number'],
+]);
+
+/**
+ * Look up the type of a config value.
+ */
+function configValueType(path: readonly string[]): InterpolatedType | undefined {
+  return CONFIG_VALUE_TYPES.get(path.join('.')) ??
+    CONFIG_VALUE_TYPES.get([...path.slice(0, -1), '*'].join('.'));
+}
+
+/**
+ * Read and parse veto.config.yaml, merging in the given profile and then
+ * interpolating environment variables.
+ *
+ * The `profiles` block is dropped before interpolation, so variables only
+ * referenced by profiles that are not selected need not be set.
+ *
+ * @param configPath - Path to veto.config.yaml
+ * @param profile - Profile to apply, or undefined for the base config
+ * @param parse - YAML parser (default: the bundled parser)
+ * @throws {EnvInterpolationError} If a referenced variable is not set
+ * @throws {Error} If the profile is not defined in the file
+ */
+export function readConfigFile(
+  configPath: string,
+  profile: string | undefined,
+  parse: YamlParser = parseYaml
+): VetoConfigFile {
+  const content = readFileSync(configPath, 'utf-8');
+  const config = applyProfile((parse(content) as VetoConfigFile | null) ?? {}, profile);
+  const { profiles: _profiles, ...selected } = config;
+  return interpolateEnv(selected, process.env, configValueType);
+}
+
+/**
+ * Resolve the validation API configuration.
+ *
+ * @param config - Parsed config file
+ * @param overrides - Values that take precedence over the file
+ */
+export function resolveAPIConfig(
+  config: VetoConfigFile,
+  overrides: { baseUrl?: string; apiKey?: string } = {}
+): ValidationAPIConfig {
+  return {
+    baseUrl: overrides.baseUrl ?? config.api?.baseUrl ?? 'http://localhost:8080',
+    endpoint: config.api?.endpoint ?? '/tool/call/check',
+    batchEndpoint: config.api?.batchEndpoint,
+    batchWindow: config.api?.batchWindow,
+    batchMaxSize: config.api?.batchMaxSize,
+    timeout: config.api?.timeout ?? 10000,
+    retries: config.api?.retries ?? 2,
+    retryDelay: config.api?.retryDelay ?? 1000,
+    maxRetryDelay: config.api?.maxRetryDelay ?? 30000,
+    apiKey: overrides.apiKey ?? config.api?.apiKey,
+    auth: config.api?.auth,
+  };
+}
+
+/**
+ * Resolve the kernel configuration.
+ *
+ * @returns The configuration, or null if no model is configured
+ */
+export function resolveKernelSettings(config: VetoConfigFile): KernelConfig | null {
+  if (!config.kernel?.model) {
+    return null;
+  }
+
+  return {
+    baseUrl: config.kernel.baseUrl ?? KERNEL_DEFAULTS.baseUrl,
+    model: config.kernel.model,
+    temperature: config.kernel.temperature,
+    maxTokens: config.kernel.maxTokens,
+    timeout: config.kernel.timeout,
+  };
+}
+
+/**
+ * Get the remote backend a validation mode uses.
+ *
+ * @returns The backend name, or null in local mode
+ */
+export function resolveRemoteBackend(
+  validationMode: ValidationMode,
+  config: VetoConfigFile
+): RemoteBackend | null {
+  switch (validationMode) {
+    case 'local':
+      return null;
+    case 'hybrid':
+      return config.validation?.backend ?? 'api';
+    default:
+      return validationMode;
+  }
+}
+
+/**
+ * Options for creating a configured backend.
+ */
+export interface ConfiguredBackendOptions {
+  /** Logger instance */
+  logger: Logger;
+  /** Registered backends; these take precedence over the built-in ones */
+  backends?: readonly DecisionBackend[];
+  /** Overrides for the API configuration */
+  api?: { baseUrl?: string; apiKey?: string };
+  /** Injected kernel client */
+  kernelClient?: KernelClient;
+  /** Rule set lookup for the "local" backend */
+  getRuleSet?: (rule: Rule) => LocalRuleSet | undefined;
+}
+
+/**
+ * Get the backend with the given name.
+ *
+ * Registered backends are looked up first, then the built-in "api",
+ * "kernel", "local" and "ensemble" backends are created from the config file.
+ * The API and kernel backends are guarded by a circuit breaker unless
+ * `validation.circuitBreaker.enabled` is false.
+ *
+ * @param name - Backend name
+ * @param config - Parsed config file
+ * @param options - Logger, registered backends and overrides
+ * @throws {Error} If no backend has the name
+ */
+export function createConfiguredBackend(
+  name: RemoteBackend,
+  config: VetoConfigFile,
+  options: ConfiguredBackendOptions
+): DecisionBackend {
+  const registered = options.backends?.find((backend) => backend.name === name);
+  if (registered) {
+    return registered;
+  }
+
+  switch (name) {
+    case 'api':
+      return withCircuitBreaker(new APIBackend({
+        config: resolveAPIConfig(config, options.api),
+        logger: options.logger,
+      }), config);
+    case 'kernel':
+      return withCircuitBreaker(new KernelBackend({
+        config: resolveKernelSettings(config),
+        client: options.kernelClient,
+        logger: options.logger,
+      }), config);
+    case 'local':
+      return new LocalBackend({ getRuleSet: options.getRuleSet });
+    case 'ensemble': {
+      const ensemble = config.validation?.ensemble;
+      const members = ensemble?.backends ?? [];
+      if (members.length === 0 || members.includes('ensemble')) {
+        throw new Error('validation.ensemble.backends must list the backends to combine');
+      }
+
+      return new EnsembleBackend({
+        backends: members.map((member) => createConfiguredBackend(member, config, options)),
+        strategy: ensemble?.strategy,
+        threshold: ensemble?.threshold,
+        weights: ensemble?.weights,
+      });
+    }
+    default: {
+      const available = [
+        'api',
+        'kernel',
+        'local',
+        'ensemble',
+        ...(options.backends ?? []).map((backend) => backend.name),
+      ];
+      throw new Error(
+        `Unknown decision backend "${name}" (available: ${[...new Set(available)].join(', ')})`
+      );
+    }
+  }
+}
+
+/**
+ * Guard a backend with the configured circuit breaker, unless disabled.
+ */
+function withCircuitBreaker(backend: DecisionBackend, config: VetoConfigFile): DecisionBackend {
+  const { enabled = true, ...options } = config.validation?.circuitBreaker ?? {};
+  return enabled ? new CircuitBreakerBackend({ ...options, backend }) : backend;
+}
+
+/**
+ * Create the backend that uncertain decisions escalate to.
+ *
+ * @param config - Parsed config file
+ * @param options - Logger, registered backends and overrides
+ * @returns The backend, or null unless uncertain decisions escalate to one
+ * @throws {Error} If no backend is named, or the name is unknown
+ */
+export function createEscalationBackend(
+  config: VetoConfigFile,
+  options: ConfiguredBackendOptions
+): DecisionBackend | null {
+  const uncertainty = config.validation?.thresholds?.uncertainty;
+  if (uncertainty?.action !== 'backend') {
+    return null;
+  }
+  if (!uncertainty.backend) {
+    throw new Error('validation.thresholds.uncertainty.backend must name the backend to escalate to');
+  }
+
+  return createConfiguredBackend(uncertainty.backend, config, options);
+}
+
+/**
+ * Create the decision cache, if enabled.
+ *
+ * @returns The cache, or null unless `validation.cache.enabled` is set
+ */
+export function resolveDecisionCache(config: VetoConfigFile): DecisionCache | null {
+  const cache = config.validation?.cache;
+  if (!cache?.enabled) {
+    return null;
+  }
+
+  return new DecisionCache({ ttlMs: cache.ttl, maxEntries: cache.maxEntries });
+}
+
+/**
+ * Create the history store, if configured.
+ *
+ * @param config - Parsed config file
+ * @param configDir - Directory relative paths are resolved against
+ * @param retention - Milliseconds the in-memory store keeps entries past
+ *   its size limit
+ * @returns The store, or null unless `validation.history.store` is set
+ * @throws {Error} If the store type is unknown
+ */
+export function resolveHistoryStore(
+  config: VetoConfigFile,
+  configDir: string,
+  retention?: () => number
+): HistoryStore | null {
+  const { store, path = 'history.jsonl', redact } = config.validation?.history ?? {};
+  switch (store) {
+    case undefined:
+      return null;
+    case 'memory':
+      return new InMemoryHistoryStore({ retention });
+    case 'jsonl':
+      return new JsonlHistoryStore({ path: resolve(configDir, path), redact });
+    default:
+      throw new Error(`Unknown history store "${String(store)}" (available: memory, jsonl)`);
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Persistent storage for tool call history.
+ *
+ * History trackers keep recent calls in memory and write them through to
+ * a store, so rate limits and sequence conditions survive restarts. Stores
+ * are keyed by session ID; implement `HistoryStore` to keep history in
+ * Redis or a database.
+ *
+ * @module core/history-store
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { redactFields } from '../rules/transforms.js';
+import type { ToolCallHistoryEntry } from '../types/config.js';
+
+/**
+ * Storage for the call history of sessions.
+ */
+export interface HistoryStore {
+  /**
+   * Append an entry to a session's history.
+   */
+  append(sessionId: string, entry: ToolCallHistoryEntry): Promise<void>;
+  /**
+   * Get the most recent entries of a session, oldest first.
+   *
+   * @param limit - Number of most recent entries to return
+   * @param since - Also return earlier entries made at or after this time
+   */
+  read(sessionId: string, limit: number, since?: Date): Promise<ToolCallHistoryEntry[]>;
+  /**
+   * Remove all entries of a session.
+   */
+  clear(sessionId: string): Promise<void>;
+}
+
+/**
+ * Options for the in-memory history store.
+ */
+export interface InMemoryHistoryStoreOptions {
+  /** Maximum number of entries kept per session (default: 1000) */
+  maxEntries?: number;
+  /**
+   * Milliseconds entries are kept past maxEntries, so they stay available
+   * to the longest rate-limit or sequence window; read on every append
+   * (default: 0)
+   */
+  retention?: () => number;
+}
+
+/**
+ * History store that keeps entries in memory, shared by every tracker
+ * that uses it. Entries are lost on restart.
+ */
+export class InMemoryHistoryStore implements HistoryStore {
+  private readonly sessions = new Map<string, ToolCallHistoryEntry[]>();
+  private readonly maxEntries: number;
+  private readonly retention: () => number;
+
+  constructor(options: InMemoryHistoryStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.retention = options.retention ?? (() => 0);
+  }
+
+  /**
+   * Append an entry, removing the oldest entries beyond maxEntries that
+   * are older than the retention period.
+   */
+  async append(sessionId: string, entry: ToolCallHistoryEntry): Promise<void> {
+    const entries = this.sessions.get(sessionId) ?? [];
+    entries.push(entry);
+    const cutoff = Date.now() - this.retention();
+    let excess = 0;
+    while (
+      entries.length - excess > this.maxEntries &&
+      entries[excess].timestamp.getTime() <= cutoff
+    ) {
+      excess++;
+    }
+    entries.splice(0, excess);
+    this.sessions.set(sessionId, entries);
+  }
+
+  async read(sessionId: string, limit: number, since?: Date): Promise<ToolCallHistoryEntry[]> {
+    return selectRecent(this.sessions.get(sessionId) ?? [], limit, since);
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
+
+/**
+ * Options for the JSONL history store.
+ */
+export interface JsonlHistoryStoreOptions {
+  /** Path of the JSONL file; its directory is created if needed */
+  path: string;
+  /** Argument fields replaced with "[REDACTED]" before an entry is written, e.g. "arguments.password" */
+  redact?: string[];
+}
+
+/**
+ * A line of the JSONL history file: an entry, or a marker that the
+ * session's earlier entries were cleared.
+ */
+type JsonlRecord =
+  | { session_id: string; entry: Omit<ToolCallHistoryEntry, 'timestamp'> & { timestamp: string } }
+  | { session_id: string; cleared_at: string };
+
+/**
+ * History store that appends entries to a JSON Lines file.
+ *
+ * The file is only ever appended to; clearing a session appends a marker
+ * that hides its earlier entries. Reads scan the whole file, so it suits
+ * single-process deployments with moderate history volumes. Arguments are
+ * written as passed, except for the fields listed in `redact`.
+ */
+export class JsonlHistoryStore implements HistoryStore {
+  private readonly path: string;
+  private readonly redact: string[];
+  private directoryCreated = false;
+
+  constructor(options: JsonlHistoryStoreOptions) {
+    this.path = options.path;
+    this.redact = options.redact ?? [];
+  }
+
+  async append(sessionId: string, entry: ToolCallHistoryEntry): Promise<void> {
+    await this.write({
+      session_id: sessionId,
+      entry: {
+        ...entry,
+        arguments: this.redact.length > 0 ? redactFields(entry.arguments, this.redact) : entry.arguments,
+        timestamp: entry.timestamp.toISOString(),
+      },
+    });
+  }
+
+  async read(sessionId: string, limit: number, since?: Date): Promise<ToolCallHistoryEntry[]> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    let entries: ToolCallHistoryEntry[] = [];
+    for (const line of content.split('\n')) {
+      const record = parseRecord(line);
+      if (!record || record.session_id !== sessionId) continue;
+
+      if ('cleared_at' in record) {
+        entries = [];
+      } else {
+        entries.push({ ...record.entry, timestamp: new Date(record.entry.timestamp) });
+      }
+    }
+
+    return selectRecent(entries, limit, since);
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    await this.write({ session_id: sessionId, cleared_at: new Date().toISOString() });
+  }
+
+  /**
+   * Append a record as one line.
+   */
+  private async write(record: JsonlRecord): Promise<void> {
+    if (!this.directoryCreated) {
+      await mkdir(dirname(this.path), { recursive: true });
+      this.directoryCreated = true;
+    }
+    await appendFile(this.path, `${JSON.stringify(record)}\n`, 'utf-8');
+  }
+}
+
+/**
+ * Select the last `limit` entries, and any earlier ones made at or after `since`.
+ */
+function selectRecent(
+  entries: readonly ToolCallHistoryEntry[],
+  limit: number,
+  since?: Date
+): ToolCallHistoryEntry[] {
+  let start = Math.max(0, entries.length - Math.max(0, limit));
+  if (since) {
+    while (start > 0 && entries[start - 1].timestamp >= since) {
+      start--;
+    }
+  }
+  return entries.slice(start);
+}
+
+/**
+ * Parse a line of the JSONL history file.
+ *
+ * @returns The record, or null for blank lines and lines that are not a
+ *   complete record (such as a line cut short by a crash)
+ */
+function parseRecord(line: string): JsonlRecord | null {
+  if (!line.trim()) {
+    return null;
+  }
+
+  try {
+    const record = JSON.parse(line) as JsonlRecord;
+    return typeof record?.session_id === 'string' &&
+      ('cleared_at' in record || typeof record.entry?.timestamp === 'string')
+      ? record
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create an in-memory history store.
+ *
+ * @param options - Store options
+ * @returns InMemoryHistoryStore instance
+ */
+export function createInMemoryHistoryStore(
+  options?: InMemoryHistoryStoreOptions
+): InMemoryHistoryStore {
+  return new InMemoryHistoryStore(options);
+}
+
+/**
+ * Create a JSONL file history store.
+ *
+ * @param options - Store options
+ * @returns JsonlHistoryStore instance
+ */
+export function createJsonlHistoryStore(options: JsonlHistoryStoreOptions): JsonlHistoryStore {
+  return new JsonlHistoryStore(options);
+}
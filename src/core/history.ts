@@ -2,7 +2,9 @@
  * Tool call history tracking.
  *
  * This module manages the history of tool calls for a Veto instance,
- * providing context to validators about previous calls.
+ * providing context to validators about previous calls. Recent entries are
+ * kept in memory and, when a store is configured, written through to it and
+ * loaded back on startup.
  *
  * @module core/history
  */
@@ -12,6 +14,7 @@ import type {
   ValidationResult,
 } from '../types/config.js';
 import type { Logger } from '../utils/logger.js';
+import type { HistoryStore } from './history-store.js';
 
 /**
  * Options for the history tracker.
@@ -21,6 +24,15 @@ export interface HistoryTrackerOptions {
   maxSize: number;
   /** Logger instance */
   logger: Logger;
+  /** Store the history is persisted to (default: memory only) */
+  store?: HistoryStore;
+  /** Key of the history in the store (default: "default") */
+  sessionId?: string;
+  /**
+   * Milliseconds for which entries are kept even beyond maxSize, such as
+   * the longest rate-limit window; read on every trim (default: 0)
+   */
+  retention?: () => number;
 }
 
 /**
@@ -30,38 +42,53 @@ export class HistoryTracker {
   private readonly entries: ToolCallHistoryEntry[] = [];
   private readonly maxSize: number;
   private readonly logger: Logger;
+  private readonly store?: HistoryStore;
+  private readonly sessionId: string;
+  private readonly retention: () => number;
+  /** Settles once the stored history is loaded */
+  private readonly loaded: Promise<void>;
 
   constructor(options: HistoryTrackerOptions) {
     this.maxSize = options.maxSize;
     this.logger = options.logger;
+    this.store = options.store;
+    this.sessionId = options.sessionId ?? 'default';
+    this.retention = options.retention ?? (() => 0);
+    this.loaded = this.load();
   }
 
   /**
    * Add an entry to the history.
    *
-   * If the history exceeds maxSize, the oldest entry is removed.
+   * The entry is visible to reads immediately; the returned promise settles
+   * once the store has it. If the history exceeds maxSize, the oldest
+   * entries older than the retention period are removed from memory.
    *
    * @param entry - The history entry to add
    */
-  add(entry: ToolCallHistoryEntry): void {
+  async add(entry: ToolCallHistoryEntry): Promise<void> {
     this.entries.push(entry);
-
-    // Remove oldest entries if we exceed max size
-    while (this.entries.length > this.maxSize) {
-      const removed = this.entries.shift();
-      if (removed) {
-        this.logger.debug('History entry evicted due to size limit', {
-          evictedTool: removed.toolName,
-          historySize: this.entries.length,
-        });
-      }
-    }
+    this.trim();
 
     this.logger.debug('History entry added', {
       toolName: entry.toolName,
       decision: entry.validationResult.decision,
       historySize: this.entries.length,
     });
+
+    if (this.store) {
+      // Append only after loading, so the load cannot return this entry as well
+      await this.loaded;
+      try {
+        await this.store.append(this.sessionId, entry);
+      } catch (error) {
+        this.logger.warn('Failed to persist history entry', {
+          sessionId: this.sessionId,
+          toolName: entry.toolName,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
   }
 
   /**
@@ -73,19 +100,22 @@ export class HistoryTracker {
    * @param args - Arguments passed to the tool
    * @param result - Validation result
    * @param durationMs - Optional execution duration
+   * @param callId - Optional ID of the tool call
    */
-  record(
+  async record(
     toolName: string,
     args: Record<string, unknown>,
     result: ValidationResult,
-    durationMs?: number
-  ): void {
-    this.add({
+    durationMs?: number,
+    callId?: string
+  ): Promise<void> {
+    await this.add({
       toolName,
       arguments: args,
       validationResult: result,
       timestamp: new Date(),
       durationMs,
+      callId,
     });
   }
 
@@ -94,7 +124,8 @@ export class HistoryTracker {
    *
    * Returns a frozen copy to prevent external modification.
    */
-  getAll(): readonly ToolCallHistoryEntry[] {
+  async getAll(): Promise<readonly ToolCallHistoryEntry[]> {
+    await this.loaded;
     return Object.freeze([...this.entries]);
   }
 
@@ -103,7 +134,8 @@ export class HistoryTracker {
    *
    * @param count - Number of entries to retrieve
    */
-  getLast(count: number): readonly ToolCallHistoryEntry[] {
+  async getLast(count: number): Promise<readonly ToolCallHistoryEntry[]> {
+    await this.loaded;
     return Object.freeze(this.entries.slice(-count));
   }
 
@@ -112,7 +144,8 @@ export class HistoryTracker {
    *
    * @param toolName - Name of the tool to filter by
    */
-  getByTool(toolName: string): readonly ToolCallHistoryEntry[] {
+  async getByTool(toolName: string): Promise<readonly ToolCallHistoryEntry[]> {
+    await this.loaded;
     return Object.freeze(
       this.entries.filter((entry) => entry.toolName === toolName)
     );
@@ -124,10 +157,11 @@ export class HistoryTracker {
    * @param since - Start of the time range
    * @param until - End of the time range (defaults to now)
    */
-  getByTimeRange(
+  async getByTimeRange(
     since: Date,
     until: Date = new Date()
-  ): readonly ToolCallHistoryEntry[] {
+  ): Promise<readonly ToolCallHistoryEntry[]> {
+    await this.loaded;
     return Object.freeze(
       this.entries.filter(
         (entry) => entry.timestamp >= since && entry.timestamp <= until
@@ -138,7 +172,8 @@ export class HistoryTracker {
   /**
    * Get entries that were denied.
    */
-  getDenied(): readonly ToolCallHistoryEntry[] {
+  async getDenied(): Promise<readonly ToolCallHistoryEntry[]> {
+    await this.loaded;
     return Object.freeze(
       this.entries.filter((entry) => entry.validationResult.decision === 'deny')
     );
@@ -147,30 +182,39 @@ export class HistoryTracker {
   /**
    * Get the count of entries.
    */
-  size(): number {
+  async size(): Promise<number> {
+    await this.loaded;
     return this.entries.length;
   }
 
   /**
-   * Clear all history entries.
+   * Clear all history entries, including those in the store.
    */
-  clear(): void {
+  async clear(): Promise<void> {
+    await this.loaded;
     const previousSize = this.entries.length;
     this.entries.length = 0;
     this.logger.debug('History cleared', { previousSize });
+
+    await this.store?.clear(this.sessionId);
   }
 
   /**
    * Get statistics about the history.
    */
-  getStats(): HistoryStats {
+  async getStats(): Promise<HistoryStats> {
+    await this.loaded;
     const toolCounts: Record<string, number> = {};
     let allowedCount = 0;
     let deniedCount = 0;
     let modifiedCount = 0;
+    let cacheHits = 0;
 
     for (const entry of this.entries) {
       toolCounts[entry.toolName] = (toolCounts[entry.toolName] ?? 0) + 1;
+      if (entry.validationResult.metadata?.cache_hit === true) {
+        cacheHits++;
+      }
 
       switch (entry.validationResult.decision) {
         case 'allow':
@@ -190,9 +234,56 @@ export class HistoryTracker {
       allowedCalls: allowedCount,
       deniedCalls: deniedCount,
       modifiedCalls: modifiedCount,
+      cacheHits,
       callsByTool: toolCounts,
     };
   }
+
+  /**
+   * Load the stored history, ahead of any entries added meanwhile.
+   */
+  private async load(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    try {
+      const retention = this.retention();
+      const stored = await this.store.read(
+        this.sessionId,
+        this.maxSize,
+        retention > 0 ? new Date(Date.now() - retention) : undefined
+      );
+      this.entries.unshift(...stored);
+      this.trim();
+      this.logger.debug('History loaded from store', {
+        sessionId: this.sessionId,
+        loaded: stored.length,
+      });
+    } catch (error) {
+      this.logger.warn('Failed to load history from store', {
+        sessionId: this.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Remove the oldest entries beyond maxSize that are older than the
+   * retention period.
+   */
+  private trim(): void {
+    const cutoff = Date.now() - this.retention();
+    while (this.entries.length > this.maxSize && this.entries[0].timestamp.getTime() <= cutoff) {
+      const removed = this.entries.shift();
+      if (removed) {
+        this.logger.debug('History entry evicted due to size limit', {
+          evictedTool: removed.toolName,
+          historySize: this.entries.length,
+        });
+      }
+    }
+  }
 }
 
 /**
@@ -207,6 +298,8 @@ export interface HistoryStats {
   deniedCalls: number;
   /** Number of modified calls */
   modifiedCalls: number;
+  /** Number of calls decided from the decision cache */
+  cacheHits: number;
   /** Count of calls per tool */
   callsByTool: Record<string, number>;
 }
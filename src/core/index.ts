@@ -4,7 +4,22 @@
  * @module core
  */
 
-export { Veto, ToolCallDeniedError, type VetoOptions } from './veto.js';
+export {
+  Veto,
+  ToolCallDeniedError,
+  type VetoOptions,
+  type ValidationMode,
+  type RemoteBackend,
+  type RulesReloadedEvent,
+  type RuleFileError,
+} from './veto.js';
+export {
+  VetoSession,
+  type SessionOptions,
+  type VetoSessionOptions,
+  type WrappedHandler,
+  type WrappedTools,
+} from './session.js';
 export {
   ValidationEngine,
   createPassthroughValidator,
@@ -13,11 +28,41 @@ export {
   type ValidationEngineOptions,
   type AggregatedValidationResult,
 } from './validator.js';
+export {
+  ValidationPipeline,
+  createValidationPipeline,
+  type ValidationPipelineOptions,
+  type FailMode,
+  type DecisionThresholds,
+  type HistoryContextOptions,
+  type UncertaintyAction,
+  type ValidationHealth,
+} from './pipeline.js';
+export {
+  DecisionCache,
+  createDecisionCache,
+  type DecisionCacheOptions,
+  type DecisionCacheScope,
+} from './cache.js';
+export {
+  RateLimiter,
+  createRateLimiter,
+  type RateLimiterOptions,
+} from './rate-limit.js';
 export {
   HistoryTracker,
   type HistoryTrackerOptions,
   type HistoryStats,
 } from './history.js';
+export {
+  InMemoryHistoryStore,
+  JsonlHistoryStore,
+  createInMemoryHistoryStore,
+  createJsonlHistoryStore,
+  type HistoryStore,
+  type InMemoryHistoryStoreOptions,
+  type JsonlHistoryStoreOptions,
+} from './history-store.js';
 export {
   Interceptor,
   type InterceptorOptions,
@@ -13,13 +13,22 @@ import type {
   ExecutableTool,
 } from '../types/tool.js';
 import type {
+  ApprovalRequirement,
   ValidationContext,
   ValidationResult,
+  ValidationWarning,
 } from '../types/config.js';
 import type { Logger } from '../utils/logger.js';
 import type { ValidationEngine, AggregatedValidationResult } from './validator.js';
 import type { HistoryTracker } from './history.js';
+import type { RateLimiter } from './rate-limit.js';
 import { generateToolCallId } from '../utils/id.js';
+import {
+  APPROVAL_DEFAULTS,
+  ApprovalTimeoutError,
+  type ApprovalOptions,
+  type ApprovalOutcome,
+} from '../approval/types.js';
 
 /**
  * Options for the interceptor.
@@ -31,8 +40,14 @@ export interface InterceptorOptions {
   validationEngine: ValidationEngine;
   /** History tracker (optional) */
   historyTracker?: HistoryTracker;
+  /** Rate limiter checked before validation (optional) */
+  rateLimiter?: RateLimiter;
   /** Custom context data for validators */
   customContext?: Record<string, unknown>;
+  /** Session ID added to the validation context */
+  sessionId?: string;
+  /** Agent ID added to the validation context */
+  agentId?: string;
   /** Hook called before validation */
   onBeforeValidation?: (context: ValidationContext) => void | Promise<void>;
   /** Hook called after validation */
@@ -45,6 +60,13 @@ export interface InterceptorOptions {
     context: ValidationContext,
     result: ValidationResult
   ) => void | Promise<void>;
+  /** Hook called when matched rules raise warnings */
+  onWarning?: (
+    context: ValidationContext,
+    warnings: ValidationWarning[]
+  ) => void | Promise<void>;
+  /** Approval settings for calls that require human approval */
+  approval?: ApprovalOptions;
 }
 
 /**
@@ -61,6 +83,10 @@ export interface InterceptionResult {
   originalCall: ToolCall;
   /** The potentially modified arguments */
   finalArguments: Record<string, unknown>;
+  /** Warnings raised by any validator, in validator order */
+  warnings: ValidationWarning[];
+  /** Outcome of the approval step, if approval was required */
+  approval?: ApprovalOutcome;
 }
 
 /**
@@ -94,7 +120,10 @@ export class Interceptor {
   private readonly logger: Logger;
   private readonly validationEngine: ValidationEngine;
   private readonly historyTracker?: HistoryTracker;
+  private readonly rateLimiter?: RateLimiter;
   private readonly customContext?: Record<string, unknown>;
+  private readonly sessionId?: string;
+  private readonly agentId?: string;
   private readonly onBeforeValidation?: (
     context: ValidationContext
   ) => void | Promise<void>;
@@ -106,15 +135,25 @@ export class Interceptor {
     context: ValidationContext,
     result: ValidationResult
   ) => void | Promise<void>;
+  private readonly onWarning?: (
+    context: ValidationContext,
+    warnings: ValidationWarning[]
+  ) => void | Promise<void>;
+  private readonly approval: ApprovalOptions;
 
   constructor(options: InterceptorOptions) {
     this.logger = options.logger;
     this.validationEngine = options.validationEngine;
     this.historyTracker = options.historyTracker;
+    this.rateLimiter = options.rateLimiter;
     this.customContext = options.customContext;
+    this.sessionId = options.sessionId;
+    this.agentId = options.agentId;
     this.onBeforeValidation = options.onBeforeValidation;
     this.onAfterValidation = options.onAfterValidation;
     this.onDenied = options.onDenied;
+    this.onWarning = options.onWarning;
+    this.approval = options.approval ?? {};
   }
 
   /**
@@ -137,8 +176,10 @@ export class Interceptor {
       arguments: call.arguments,
       callId,
       timestamp: new Date(),
-      callHistory: this.historyTracker?.getAll() ?? [],
+      callHistory: (await this.historyTracker?.getAll()) ?? [],
       custom: this.customContext,
+      sessionId: this.sessionId,
+      agentId: this.agentId,
     };
 
     // Run before hook
@@ -153,9 +194,40 @@ export class Interceptor {
       }
     }
 
-    // Run validation
-    const aggregatedResult = await this.validationEngine.validate(context);
-    const validationResult = aggregatedResult.finalResult;
+    // Enforce rate limits against the latest history, skipping validation if exceeded
+    const limited = this.rateLimiter?.check(
+      context,
+      (await this.historyTracker?.getAll()) ?? []
+    );
+    const aggregatedResult: AggregatedValidationResult = limited?.decision === 'deny'
+      ? { finalResult: limited, validatorResults: [], backendResults: [], totalDurationMs: 0 }
+      : await this.validationEngine.validate(context);
+    if (limited && limited.decision !== 'deny') {
+      // Log mode: keep the validation outcome but note the exceeded limit
+      aggregatedResult.finalResult = {
+        ...aggregatedResult.finalResult,
+        metadata: { ...limited.metadata, ...aggregatedResult.finalResult.metadata },
+      };
+    }
+    let validationResult = aggregatedResult.finalResult;
+
+    // Pause for human approval if any validator requires it
+    let approval: ApprovalOutcome | undefined;
+    const requirement = this.collectApprovalRequirement(aggregatedResult);
+    if (requirement && validationResult.decision !== 'deny') {
+      approval = await this.requestApproval(context, validationResult, requirement);
+
+      validationResult = approval.approved
+        ? {
+          ...validationResult,
+          metadata: { ...validationResult.metadata, approval },
+        }
+        : {
+          decision: 'deny',
+          reason: `Approval denied: ${approval.reason ?? requirement.reason}`,
+          metadata: { ...validationResult.metadata, approval },
+        };
+    }
 
     // Determine final arguments (may be modified by validators)
     const finalArguments =
@@ -163,14 +235,17 @@ export class Interceptor {
         ? validationResult.modifiedArguments
         : call.arguments;
 
-    // Record in history
+    // Record in history; the rate limiter's reservation ends once it sees the entry
     if (this.historyTracker) {
-      this.historyTracker.record(
+      await this.historyTracker.record(
         call.name,
         call.arguments,
         validationResult,
-        aggregatedResult.totalDurationMs
+        aggregatedResult.totalDurationMs,
+        callId
       );
+    } else {
+      this.rateLimiter?.release(callId);
     }
 
     // Run after hook
@@ -185,6 +260,30 @@ export class Interceptor {
       }
     }
 
+    // Collect warnings from every validator, not just the final one
+    const warnings = aggregatedResult.validatorResults.flatMap(
+      (entry) => entry.result.warnings ?? []
+    );
+
+    if (warnings.length > 0) {
+      this.logger.warn('Tool call raised warnings', {
+        toolName: call.name,
+        callId,
+        rules: warnings.map((warning) => warning.ruleId),
+      });
+
+      if (this.onWarning) {
+        try {
+          await this.onWarning(context, warnings);
+        } catch (error) {
+          this.logger.warn('onWarning hook threw an error', {
+            callId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+
     // Handle denial
     if (validationResult.decision === 'deny') {
       if (this.onDenied) {
@@ -218,9 +317,138 @@ export class Interceptor {
       aggregatedResult,
       originalCall: call,
       finalArguments,
+      warnings,
+      approval,
     };
   }
 
+  /**
+   * Merge the approval requirements of all validators.
+   */
+  private collectApprovalRequirement(
+    aggregatedResult: AggregatedValidationResult
+  ): ApprovalRequirement | null {
+    const requirements = aggregatedResult.validatorResults
+      .map((entry) => entry.result.requiresApproval)
+      .filter((requirement): requirement is ApprovalRequirement => requirement !== undefined);
+
+    if (requirements.length === 0) {
+      return null;
+    }
+
+    return {
+      ruleIds: [...new Set(requirements.flatMap((requirement) => requirement.ruleIds))],
+      reason: requirements.map((requirement) => requirement.reason).join('; '),
+    };
+  }
+
+  /**
+   * Ask the approval provider whether the call may proceed.
+   *
+   * Without a provider, or if the provider fails, the call is denied. If the
+   * provider does not answer in time, the configured default answer is used.
+   */
+  private async requestApproval(
+    context: ValidationContext,
+    result: ValidationResult,
+    requirement: ApprovalRequirement
+  ): Promise<ApprovalOutcome> {
+    const provider = this.approval.provider;
+    const timeout = this.approval.timeout ?? APPROVAL_DEFAULTS.timeout;
+    const defaultAnswer = this.approval.defaultAnswer ?? APPROVAL_DEFAULTS.defaultAnswer;
+
+    if (!provider) {
+      this.logger.warn('Approval required but no approval provider configured', {
+        toolName: context.toolName,
+        callId: context.callId,
+        rules: requirement.ruleIds,
+      });
+      return {
+        approved: false,
+        ruleIds: requirement.ruleIds,
+        reason: 'no approval provider configured',
+        timedOut: false,
+      };
+    }
+
+    this.logger.info('Waiting for approval', {
+      toolName: context.toolName,
+      callId: context.callId,
+      provider: provider.name,
+      rules: requirement.ruleIds,
+    });
+
+    const controller = new AbortController();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        controller.abort();
+        reject(new ApprovalTimeoutError(timeout));
+      }, timeout);
+    });
+
+    try {
+      const response = await Promise.race([
+        provider.requestApproval(
+          {
+            callId: context.callId,
+            toolName: context.toolName,
+            arguments: result.modifiedArguments ?? context.arguments,
+            ruleIds: requirement.ruleIds,
+            reason: requirement.reason,
+            timestamp: new Date(),
+          },
+          controller.signal
+        ),
+        timeoutPromise,
+      ]);
+
+      this.logger.info('Approval answered', {
+        callId: context.callId,
+        approved: response.approved,
+        approver: response.approver,
+      });
+
+      return {
+        approved: response.approved,
+        ruleIds: requirement.ruleIds,
+        provider: provider.name,
+        approver: response.approver,
+        reason: response.reason,
+        timedOut: false,
+      };
+    } catch (error) {
+      if (error instanceof ApprovalTimeoutError) {
+        this.logger.warn('Approval timed out, using default answer', {
+          callId: context.callId,
+          defaultAnswer,
+        });
+        return {
+          approved: defaultAnswer === 'approve',
+          ruleIds: requirement.ruleIds,
+          provider: provider.name,
+          reason: `no answer within ${timeout}ms`,
+          timedOut: true,
+        };
+      }
+
+      this.logger.error(
+        'Approval provider failed',
+        { callId: context.callId, provider: provider.name },
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return {
+        approved: false,
+        ruleIds: requirement.ruleIds,
+        provider: provider.name,
+        reason: `approval provider failed: ${error instanceof Error ? error.message : String(error)}`,
+        timedOut: false,
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
   /**
    * Intercept a tool call and throw if denied.
    *
@@ -0,0 +1,789 @@
+/**
+ * Validation pipeline shared by Veto and the rule validator.
+ *
+ * Routes a tool call to the local rule engine and/or a remote decision
+ * backend according to the validation mode, and turns the decision into
+ * a validation result: log mode, effects of matched rules, and the fail
+ * mode when a backend is unavailable.
+ *
+ * @module core/pipeline
+ */
+
+import type {
+  ToolCallHistoryEntry,
+  ValidationContext,
+  ValidationResult,
+} from '../types/config.js';
+import type { Logger } from '../utils/logger.js';
+import type {
+  Rule,
+  RuleAction,
+  RuleSeverity,
+  ToolCallContext,
+  ToolCallHistorySummary,
+} from '../rules/types.js';
+import type { BackendDecision, BackendHealth, DecisionBackend } from '../backends/types.js';
+import { CircuitOpenError } from '../backends/circuit-breaker.js';
+import { LocalBackend, type LocalEvaluation, type LocalRuleSet } from '../backends/local.js';
+import type { DecisionCache } from './cache.js';
+import { redactFields } from '../rules/transforms.js';
+
+/**
+ * Veto operating mode.
+ * - "strict": Block tool calls when validation fails
+ * - "log": Only log validation failures, allow tool calls to proceed
+ */
+export type VetoMode = 'strict' | 'log';
+
+/**
+ * Validation mode - how tool calls are validated.
+ * - "api": Use external HTTP API for validation
+ * - "kernel": Use local kernel model via Ollama
+ * - "local": Evaluate rule conditions deterministically, without any model
+ * - "hybrid": Evaluate rule conditions first, forward undecided calls to
+ *   the backend named by `validation.backend`
+ * - "ensemble": Combine several backends (see `validation.ensemble`)
+ * - any other name: Use the registered decision backend with that name
+ */
+export type ValidationMode = 'api' | 'kernel' | 'local' | 'hybrid' | 'ensemble' | (string & {});
+
+/**
+ * Name of the backend used for calls that local rules cannot decide:
+ * "api", "kernel", "ensemble", or the name of a registered decision backend.
+ */
+export type RemoteBackend = 'api' | 'kernel' | 'ensemble' | (string & {});
+
+/**
+ * Behavior when a backend is unavailable.
+ */
+export type FailMode = 'open' | 'closed';
+
+/**
+ * What to do with a decision whose block weight falls in the uncertainty band.
+ * - "backend": Ask the escalation backend and use its decision
+ * - "approval": Allow the call only after human approval
+ * - "log": Allow the call and log it
+ */
+export type UncertaintyAction = 'backend' | 'approval' | 'log';
+
+/**
+ * Block-weight thresholds applied to backend decisions.
+ *
+ * When a threshold applies, a call is blocked if the backend's
+ * `should_block_weight` reaches it, whatever its decision string says.
+ * The lowest applicable tool, severity or rule set threshold wins;
+ * `block` applies when none does.
+ */
+export interface DecisionThresholds {
+  /** Default block threshold (default: 0.5) */
+  block?: number;
+  /** Thresholds by severity of the applicable rules */
+  severity?: Partial<Record<RuleSeverity, number>>;
+  /** Thresholds by tool name */
+  tools?: Record<string, number>;
+  /** Band around the threshold in which decisions count as uncertain */
+  uncertainty?: {
+    /** Maximum distance from the threshold */
+    margin: number;
+    /** How uncertain decisions are resolved */
+    action: UncertaintyAction;
+  };
+}
+
+/**
+ * Which earlier calls are sent to backends, and in how much detail.
+ */
+export interface HistoryContextOptions {
+  /** Number of most recent calls to send (default: 10) */
+  depth?: number;
+  /** Send the arguments of earlier calls (default: false) */
+  includeArguments?: boolean;
+  /** Argument fields replaced with "[REDACTED]", e.g. "arguments.password" */
+  redact?: string[];
+}
+
+/**
+ * Health of the backends a pipeline uses.
+ */
+export interface ValidationHealth {
+  /** False if any backend's circuit is open */
+  healthy: boolean;
+  /** Health reported by each backend */
+  backends: BackendHealth[];
+}
+
+/**
+ * Options for the validation pipeline.
+ */
+export interface ValidationPipelineOptions {
+  /** Logger instance */
+  logger: Logger;
+  /** Operating mode (default: strict) */
+  mode?: VetoMode;
+  /** Validation mode (default: api) */
+  validationMode?: ValidationMode;
+  /** Backend for calls local rules do not decide (unused in local mode) */
+  backend?: DecisionBackend | null;
+  /** Fail mode for rules whose rule set sets none (default: closed) */
+  failMode?: FailMode;
+  /** Block-weight thresholds; without them, backend decision strings are trusted */
+  thresholds?: DecisionThresholds;
+  /** Backend that uncertain decisions escalate to */
+  escalationBackend?: DecisionBackend | null;
+  /** Cache for backend decisions (default: none) */
+  cache?: DecisionCache | null;
+  /** Call history sent to backends (default: the last 10 calls, without arguments) */
+  history?: HistoryContextOptions;
+  /** Look up the rule set of a rule, for `default_action` and `fail_mode` */
+  getRuleSet?: (rule: Rule) => LocalRuleSet | undefined;
+  /** Session ID sent to backends for calls whose context has none */
+  sessionId?: string;
+  /** Agent ID sent to backends for calls whose context has none */
+  agentId?: string;
+}
+
+/**
+ * Decides tool calls against rules with the configured backends.
+ */
+export class ValidationPipeline {
+  private readonly logger: Logger;
+  private readonly mode: VetoMode;
+  private readonly validationMode: ValidationMode;
+  private readonly backend: DecisionBackend | null;
+  private readonly local: LocalBackend;
+  private readonly failMode: FailMode;
+  private readonly thresholds?: DecisionThresholds;
+  private readonly escalationBackend: DecisionBackend | null;
+  private readonly cache: DecisionCache | null;
+  private readonly history: HistoryContextOptions;
+  private readonly getRuleSet: (rule: Rule) => LocalRuleSet | undefined;
+  private readonly sessionId?: string;
+  private readonly agentId?: string;
+
+  /**
+   * @throws {Error} If the validation mode needs a backend and none is given,
+   *   or uncertain decisions escalate to a backend and none is given
+   */
+  constructor(options: ValidationPipelineOptions) {
+    this.logger = options.logger;
+    this.mode = options.mode ?? 'strict';
+    this.validationMode = options.validationMode ?? 'api';
+    this.backend = options.backend ?? null;
+    if (!this.backend && this.validationMode !== 'local') {
+      throw new Error(`Validation mode "${this.validationMode}" requires a backend`);
+    }
+    this.failMode = options.failMode ?? 'closed';
+    this.thresholds = options.thresholds;
+    this.escalationBackend = options.escalationBackend ?? null;
+    this.cache = options.cache ?? null;
+    this.history = options.history ?? {};
+    if (this.thresholds?.uncertainty?.action === 'backend' && !this.escalationBackend) {
+      throw new Error('Uncertainty action "backend" requires an escalation backend');
+    }
+    this.getRuleSet = options.getRuleSet ?? (() => undefined);
+    this.local = new LocalBackend({ getRuleSet: this.getRuleSet });
+    this.sessionId = options.sessionId;
+    this.agentId = options.agentId;
+  }
+
+  /**
+   * Validate a tool call against the given rules.
+   *
+   * In `api` and `kernel` modes, calls matching a `block` rule are decided
+   * locally without asking the backend. In `hybrid` mode a call is decided
+   * locally when a `block`, `allow` or `require_approval` rule matches, or
+   * when every rule could be evaluated locally; matching `warn` and `log`
+   * rules alone do not decide it. `modify` rules are applied by the caller
+   * before validation and never reach the pipeline.
+   *
+   * @param context - Validation context
+   * @param rules - Decision rules applicable to the call
+   * @returns Validation result
+   */
+  async validate(context: ValidationContext, rules: Rule[]): Promise<ValidationResult> {
+    if (rules.length === 0) {
+      this.logger.debug('No rules for tool, allowing', { tool: context.toolName });
+      return this.validationMode === 'hybrid'
+        ? { decision: 'allow', metadata: { validation_path: this.local.name } }
+        : { decision: 'allow' };
+    }
+
+    const toolCall = this.buildToolCallContext(context);
+    const evaluation = this.local.evaluate(toolCall, rules, context.callHistory);
+
+    switch (this.validationMode) {
+      case 'local': {
+        if (evaluation.errors.length > 0) {
+          this.logger.warn('Some rules could not be evaluated locally', {
+            tool: context.toolName,
+            errors: evaluation.errors,
+          });
+        }
+
+        // Rules that could have blocked or held the call but failed
+        // to evaluate are handled like an unavailable backend
+        const failed = rules.filter((rule) =>
+          rule.action !== 'warn' && rule.action !== 'log' && rule.action !== 'allow' &&
+          evaluation.errors.some((error) => error.ruleId === rule.id)
+        );
+        if (failed.length > 0 && evaluation.action !== 'block' && this.resolveFailMode(failed) === 'closed') {
+          const messages = evaluation.errors
+            .filter((error) => failed.some((rule) => rule.id === error.ruleId))
+            .map((error) => `${error.ruleId}: ${error.message}`);
+          return this.handleFailure(
+            this.local,
+            new Error(`Rule evaluation failed (${messages.join('; ')})`),
+            failed
+          );
+        }
+        return this.handleLocalEvaluation(evaluation, context, rules);
+      }
+
+      case 'hybrid': {
+        if (
+          evaluation.matchedRules.some((rule) => isDecidingAction(rule.action)) ||
+          (evaluation.unevaluatedRules.length === 0 && evaluation.errors.length === 0)
+        ) {
+          return this.handleLocalEvaluation(evaluation, context, rules);
+        }
+
+        this.logger.debug('Local rules undecided, forwarding', {
+          tool: context.toolName,
+          backend: this.backend?.name,
+          unevaluatedRules: evaluation.unevaluatedRules.map((rule) => rule.id),
+          errors: evaluation.errors,
+        });
+        return this.applyLocalMatches(await this.decide(toolCall, context, rules), evaluation, context);
+      }
+
+      default:
+        // Obvious blocks are decided locally, without a round trip
+        if (evaluation.action === 'block') {
+          return this.handleLocalEvaluation(evaluation, context, rules);
+        }
+        return this.applyLocalMatches(await this.decide(toolCall, context, rules), evaluation, context);
+    }
+  }
+
+  /**
+   * Report the health of the backends.
+   */
+  getHealth(): ValidationHealth {
+    const backends = [this.backend, this.escalationBackend]
+      .flatMap((backend) => backend?.health?.() ?? []);
+
+    return {
+      healthy: backends.every((health) => health.state !== 'open'),
+      backends,
+    };
+  }
+
+  /**
+   * Build the tool call context sent to backends.
+   */
+  buildToolCallContext(context: ValidationContext): ToolCallContext {
+    return {
+      call_id: context.callId,
+      tool_name: context.toolName,
+      arguments: context.arguments,
+      timestamp: context.timestamp.toISOString(),
+      session_id: context.sessionId ?? this.sessionId,
+      agent_id: context.agentId ?? this.agentId,
+      call_history: this.buildHistorySummary(context.callHistory),
+      custom: context.custom,
+    };
+  }
+
+  /**
+   * Ask a remote backend for a decision, applying the fail mode if it
+   * is unavailable and the thresholds if any apply.
+   *
+   * Decisions are cached unless a rule opts out with `cache: false` or
+   * depends on the call history through `sequence` or `rate_limit`.
+   *
+   * @param escalated - Whether the call was escalated, so must not escalate again
+   */
+  private async decide(
+    toolCall: ToolCallContext,
+    context: ValidationContext,
+    rules: Rule[],
+    backend: DecisionBackend = this.backend ?? this.local,
+    escalated = false
+  ): Promise<ValidationResult> {
+    const cacheable = rules.every(
+      (rule) => rule.cache !== false && !rule.sequence && !rule.rate_limit
+    );
+    const cacheKey = this.cache && cacheable
+      ? this.cache.key(backend.name, context.toolName, context.arguments, rules, {
+        sessionId: toolCall.session_id,
+        agentId: toolCall.agent_id,
+        custom: context.custom,
+      })
+      : null;
+    const cached = cacheKey ? this.cache?.get(cacheKey) : undefined;
+
+    let decision: BackendDecision;
+    if (cached) {
+      this.logger.debug('Using cached decision', { tool: context.toolName, backend: backend.name });
+      decision = { ...cached, metadata: { ...cached.metadata, cache_hit: true } };
+    } else {
+      try {
+        decision = await backend.decide(toolCall, rules);
+        if (decision?.decision !== 'pass' && decision?.decision !== 'block') {
+          throw new Error('Invalid decision (must be "pass" or "block")');
+        }
+      } catch (error) {
+        return this.handleFailure(backend, error, rules);
+      }
+
+      if (cacheKey) {
+        this.cache?.set(cacheKey, decision);
+      }
+    }
+
+    const weight = decision.should_block_weight;
+    const threshold = this.resolveThreshold(context.toolName, decision, rules);
+    if (threshold !== null && weight !== undefined) {
+      const uncertainty = this.thresholds?.uncertainty;
+      if (uncertainty && !escalated && Math.abs(weight - threshold) < uncertainty.margin) {
+        return this.handleUncertain(backend, decision, threshold, toolCall, context, rules);
+      }
+
+      decision = {
+        ...decision,
+        decision: weight >= threshold ? 'block' : 'pass',
+        metadata: { ...decision.metadata, block_threshold: threshold },
+      };
+    }
+
+    const result = this.handleDecision(backend, decision, context, rules);
+    if (decision.results) {
+      result.backendResults = decision.results;
+    }
+    return result;
+  }
+
+  /**
+   * Resolve an uncertain decision with the configured uncertainty action.
+   */
+  private async handleUncertain(
+    backend: DecisionBackend,
+    decision: BackendDecision,
+    threshold: number,
+    toolCall: ToolCallContext,
+    context: ValidationContext,
+    rules: Rule[]
+  ): Promise<ValidationResult> {
+    const action = this.thresholds?.uncertainty?.action ?? 'log';
+    const uncertain = {
+      uncertain: true,
+      uncertainty_action: action,
+      block_threshold: threshold,
+    };
+
+    this.logger.info('Uncertain decision', {
+      tool: context.toolName,
+      backend: backend.name,
+      blockWeight: decision.should_block_weight,
+      threshold,
+      action,
+    });
+
+    if (action === 'backend' && this.escalationBackend) {
+      const result = await this.decide(toolCall, context, rules, this.escalationBackend, true);
+      result.metadata = {
+        ...result.metadata,
+        ...uncertain,
+        escalated_from: backend.name,
+        escalated_block_weight: decision.should_block_weight,
+      };
+      return result;
+    }
+
+    const result = this.handleDecision(backend, {
+      ...decision,
+      decision: 'pass',
+      metadata: { ...decision.metadata, ...uncertain },
+    }, context, rules);
+
+    if (action === 'approval' && result.decision !== 'deny' && !result.requiresApproval) {
+      const ruleIds = (this.findMatchedRules(decision.matched_rules, rules) ?? rules)
+        .map((rule) => rule.id);
+
+      if (this.mode === 'log') {
+        result.metadata = { ...result.metadata, approval_skipped: ruleIds };
+      } else {
+        result.requiresApproval = {
+          ruleIds,
+          reason: `Approval required: uncertain decision (block weight ${decision.should_block_weight}, threshold ${threshold})`,
+        };
+      }
+    } else if (action === 'log') {
+      this.logger.warn('Uncertain decision, allowing (log only)', {
+        tool: context.toolName,
+        backend: backend.name,
+        reason: decision.reasoning,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve the block threshold for a decision.
+   *
+   * Tool, severity and rule set thresholds are considered for the matched
+   * rules, or all applicable rules if the backend reported none, and the
+   * lowest one wins.
+   *
+   * @returns The threshold, or null if none is configured
+   */
+  private resolveThreshold(
+    toolName: string,
+    decision: BackendDecision,
+    rules: Rule[]
+  ): number | null {
+    const relevant = this.findMatchedRules(decision.matched_rules, rules) ?? rules;
+    const candidates: number[] = [];
+
+    const toolThreshold = this.thresholds?.tools?.[toolName];
+    if (toolThreshold !== undefined) {
+      candidates.push(toolThreshold);
+    }
+    for (const rule of relevant) {
+      const severityThreshold = this.thresholds?.severity?.[rule.severity];
+      if (severityThreshold !== undefined) {
+        candidates.push(severityThreshold);
+      }
+      const ruleSetThreshold = this.getRuleSet(rule)?.settings?.block_threshold;
+      if (ruleSetThreshold !== undefined) {
+        candidates.push(ruleSetThreshold);
+      }
+    }
+
+    if (candidates.length > 0) {
+      return Math.min(...candidates);
+    }
+    return this.thresholds ? this.thresholds.block ?? 0.5 : null;
+  }
+
+  /**
+   * Convert a local rule evaluation into a validation result.
+   */
+  private handleLocalEvaluation(
+    evaluation: LocalEvaluation,
+    context: ValidationContext,
+    rules: Rule[]
+  ): ValidationResult {
+    return this.handleDecision(this.local, this.local.toDecision(evaluation), context, rules);
+  }
+
+  /**
+   * Convert a backend decision into a validation result.
+   *
+   * A block that only matched non-blocking rules is downgraded to an allow,
+   * unless a rule set default action blocked. In log mode, blocks are
+   * allowed and recorded.
+   */
+  private handleDecision(
+    backend: DecisionBackend,
+    decision: BackendDecision,
+    context: ValidationContext,
+    rules: Rule[]
+  ): ValidationResult {
+    const metadata: Record<string, unknown> = {
+      ...decision.metadata,
+      matched_rules: decision.matched_rules,
+      validation_path: backend.name,
+    };
+    if (decision.should_pass_weight !== undefined) {
+      metadata.should_pass_weight = decision.should_pass_weight;
+    }
+    if (decision.should_block_weight !== undefined) {
+      metadata.should_block_weight = decision.should_block_weight;
+    }
+
+    const matched = this.findMatchedRules(decision.matched_rules, rules);
+    const label = backend.label ?? backend.name;
+
+    if (decision.decision === 'pass') {
+      this.logger.debug('Tool call allowed', {
+        tool: context.toolName,
+        backend: backend.name,
+        passWeight: decision.should_pass_weight,
+      });
+
+      return this.applyRuleActions({
+        decision: 'allow',
+        reason: decision.reasoning,
+        metadata,
+      }, matched, context);
+    }
+
+    if (this.isNonBlockingMatch(matched) && !this.blockedByDefaultAction(decision)) {
+      // Only warn/log/allow rules matched: the call proceeds
+      this.logger.debug(`${label} block downgraded by rule actions`, {
+        tool: context.toolName,
+        matchedRules: decision.matched_rules,
+      });
+
+      return this.applyRuleActions({
+        decision: 'allow',
+        reason: decision.reasoning,
+        metadata: { ...metadata, downgraded_block: true },
+      }, matched, context);
+    }
+
+    if (this.mode === 'log') {
+      // Log mode: log the block but allow the call
+      this.logger.warn('Tool call would be blocked (log mode)', {
+        tool: context.toolName,
+        backend: backend.name,
+        blockWeight: decision.should_block_weight,
+        reason: decision.reasoning,
+      });
+
+      return this.applyRuleActions({
+        decision: 'allow',
+        reason: `[LOG MODE] Would block: ${decision.reasoning}`,
+        metadata: { ...metadata, blocked_in_strict_mode: true },
+      }, matched, context);
+    }
+
+    this.logger.warn('Tool call blocked', {
+      tool: context.toolName,
+      backend: backend.name,
+      blockWeight: decision.should_block_weight,
+      reason: decision.reasoning,
+    });
+
+    return this.applyRuleActions({
+      decision: 'deny',
+      reason: decision.reasoning,
+      metadata,
+    }, matched, context);
+  }
+
+  /**
+   * Handle an unavailable backend according to the resolved fail mode.
+   */
+  private handleFailure(
+    backend: DecisionBackend,
+    error: unknown,
+    rules: Rule[]
+  ): ValidationResult {
+    const failMode = this.resolveFailMode(rules);
+    const label = backend.label ?? backend.name;
+    const reason = error instanceof Error ? error.message : String(error);
+    const result: ValidationResult = {
+      decision: failMode === 'open' ? 'allow' : 'deny',
+      reason: `${label} unavailable: ${reason}`,
+      metadata: {
+        [`${backend.name}_error`]: true,
+        fail_mode: failMode,
+        validation_path: backend.name,
+      },
+    };
+    if (error instanceof CircuitOpenError) {
+      result.metadata = { ...result.metadata, circuit_open: true };
+    }
+
+    if (failMode === 'open') {
+      this.logger.warn(`${label} unavailable (failing open, allowing)`, { reason, mode: this.mode });
+    } else {
+      this.logger.error(`${label} unavailable (failing closed, blocking)`, { reason, mode: this.mode });
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve whether to fail open or closed for the given rules.
+   *
+   * Log mode always fails open. In strict mode, calls fail open only if
+   * every rule fails open, by its rule set's `fail_mode` or else the
+   * pipeline default.
+   */
+  private resolveFailMode(rules: Rule[]): FailMode {
+    if (this.mode === 'log') {
+      return 'open';
+    }
+
+    const allOpen = rules.length > 0 && rules.every(
+      (rule) => (this.getRuleSet(rule)?.settings?.fail_mode ?? this.failMode) === 'open'
+    );
+    return allOpen ? 'open' : 'closed';
+  }
+
+  /**
+   * Look up the rules matching the IDs reported by a backend.
+   *
+   * @returns The matched rules, or null if any ID is unknown or none were reported
+   */
+  private findMatchedRules(ids: string[] | undefined, rules: Rule[]): Rule[] | null {
+    if (!ids || ids.length === 0) {
+      return null;
+    }
+
+    const matched: Rule[] = [];
+    for (const id of ids) {
+      const rule = rules.find((candidate) => candidate.id === id);
+      if (!rule) {
+        return null;
+      }
+      matched.push(rule);
+    }
+    return matched;
+  }
+
+  /**
+   * Check whether a block only matched non-blocking rules.
+   *
+   * Blocks without matched rule IDs, or with unknown IDs, are kept.
+   */
+  private isNonBlockingMatch(matched: Rule[] | null): boolean {
+    return matched !== null && matched.every((rule) => rule.action !== 'block');
+  }
+
+  /**
+   * Check whether a rule set default action blocked the call.
+   */
+  private blockedByDefaultAction(decision: BackendDecision): boolean {
+    const defaultActions = decision.metadata?.default_actions as
+      LocalEvaluation['defaultActions'] | undefined;
+    return defaultActions?.some((entry) => entry.action === 'block') ?? false;
+  }
+
+  /**
+   * Attach the effects of matched non-blocking rules to a result.
+   *
+   * `warn` rules add structured warnings, `require_approval` rules add an
+   * approval requirement (skipped in log mode), and `log` rules are only
+   * recorded. Effects already on the result are kept.
+   */
+  private applyRuleActions(
+    result: ValidationResult,
+    matched: Rule[] | null,
+    context: ValidationContext
+  ): ValidationResult {
+    const warnRules = (matched ?? []).filter((rule) => rule.action === 'warn');
+    const logRules = (matched ?? []).filter((rule) => rule.action === 'log');
+    const approvalRules = (matched ?? []).filter((rule) => rule.action === 'require_approval');
+
+    if (logRules.length > 0) {
+      this.logger.info('Tool call matched logging rules', {
+        tool: context.toolName,
+        rules: logRules.map((rule) => rule.id),
+      });
+      const logged = (result.metadata?.logged_rules as string[] | undefined) ?? [];
+      result.metadata = {
+        ...result.metadata,
+        logged_rules: [...logged, ...logRules.map((rule) => rule.id)],
+      };
+    }
+
+    if (warnRules.length > 0) {
+      this.logger.warn('Tool call matched warning rules', {
+        tool: context.toolName,
+        rules: warnRules.map((rule) => rule.id),
+      });
+      result.warnings = [...(result.warnings ?? []), ...warnRules.map((rule) => ({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity: rule.severity,
+        message: rule.description ?? rule.name,
+      }))];
+    }
+
+    if (approvalRules.length > 0 && result.decision !== 'deny') {
+      const ruleIds = approvalRules.map((rule) => rule.id);
+      const reason = `Approval required by rule: ${approvalRules.map((rule) => rule.name).join(', ')}`;
+
+      if (this.mode === 'log') {
+        this.logger.info('Tool call would require approval (log mode)', {
+          tool: context.toolName,
+          rules: ruleIds,
+        });
+        const skipped = (result.metadata?.approval_skipped as string[] | undefined) ?? [];
+        result.metadata = { ...result.metadata, approval_skipped: [...skipped, ...ruleIds] };
+      } else {
+        const existing = result.requiresApproval;
+        result.requiresApproval = existing
+          ? { ruleIds: [...existing.ruleIds, ...ruleIds], reason: `${existing.reason}; ${reason}` }
+          : { ruleIds, reason };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply the effects of `warn`, `log` and `require_approval` rules that
+   * matched locally to a backend's result, unless the backend already
+   * reported them.
+   */
+  private applyLocalMatches(
+    result: ValidationResult,
+    evaluation: LocalEvaluation,
+    context: ValidationContext
+  ): ValidationResult {
+    const applied = new Set<string>([
+      ...(result.warnings ?? []).map((warning) => warning.ruleId),
+      ...((result.metadata?.logged_rules as string[] | undefined) ?? []),
+      ...(result.requiresApproval?.ruleIds ?? []),
+      ...((result.metadata?.approval_skipped as string[] | undefined) ?? []),
+    ]);
+    const pending = evaluation.matchedRules.filter(
+      (rule) =>
+        (rule.action === 'warn' || rule.action === 'log' || rule.action === 'require_approval') &&
+        !applied.has(rule.id)
+    );
+
+    return pending.length > 0 ? this.applyRuleActions(result, pending, context) : result;
+  }
+
+  /**
+   * Build a summary of the most recent calls for backends.
+   */
+  private buildHistorySummary(
+    history: readonly ToolCallHistoryEntry[]
+  ): ToolCallHistorySummary[] {
+    const { depth = 10, includeArguments = false, redact = [] } = this.history;
+    if (depth <= 0) {
+      return [];
+    }
+
+    return history.slice(-depth).map((entry) => {
+      const summary: ToolCallHistorySummary = {
+        tool_name: entry.toolName,
+        allowed: entry.validationResult.decision !== 'deny',
+        timestamp: entry.timestamp.toISOString(),
+        decision: entry.validationResult.decision,
+      };
+      if (entry.validationResult.reason) {
+        summary.reason = entry.validationResult.reason;
+      }
+      if (includeArguments) {
+        summary.arguments = redactFields(entry.arguments, redact);
+      }
+      return summary;
+    });
+  }
+}
+
+/**
+ * Check whether a locally matched action decides a call in hybrid mode.
+ */
+function isDecidingAction(action: RuleAction): boolean {
+  return action === 'block' || action === 'allow' || action === 'require_approval';
+}
+
+/**
+ * Create a validation pipeline.
+ *
+ * @param options - Pipeline options
+ * @returns ValidationPipeline instance
+ */
+export function createValidationPipeline(options: ValidationPipelineOptions): ValidationPipeline {
+  return new ValidationPipeline(options);
+}
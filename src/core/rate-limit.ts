@@ -0,0 +1,259 @@
+/**
+ * Rate-limit and quota rules.
+ *
+ * Rules with a `rate_limit` count the earlier calls they apply to within a
+ * sliding window, or sum one of their argument values, using the call
+ * history. They are enforced locally before any validator runs, since no
+ * model can reliably count.
+ *
+ * @module core/rate-limit
+ */
+
+import type {
+  ToolCallHistoryEntry,
+  ValidationContext,
+  ValidationResult,
+} from '../types/config.js';
+import type { Logger } from '../utils/logger.js';
+import type { Rule } from '../rules/types.js';
+import { evaluateRule, hasConditions, resolveFieldPath } from '../rules/evaluator.js';
+import { formatDuration, parseDuration } from '../utils/duration.js';
+import type { VetoMode } from './pipeline.js';
+
+/**
+ * Options for the rate limiter.
+ */
+export interface RateLimiterOptions {
+  /** Logger instance */
+  logger: Logger;
+  /** Get the rate-limit rules applicable to a tool */
+  getRules: (toolName: string) => Rule[];
+  /** Operating mode (default: strict) */
+  mode?: VetoMode;
+}
+
+/**
+ * A call that exceeds a rate limit.
+ */
+interface Violation {
+  rule: Rule;
+  limit: number;
+  used: number;
+  requested: number;
+  windowMs: number;
+  /** When enough of the window has passed for the call to fit, or null if it never will */
+  resetsAt: Date | null;
+}
+
+/**
+ * Enforces rate-limit and quota rules against the call history.
+ *
+ * Calls that passed the check but are not yet in the history are reserved,
+ * so concurrent calls count against the same limits. A reservation ends
+ * when a history passed to `check` contains an entry with its call ID, or
+ * when it is released.
+ */
+export class RateLimiter {
+  private readonly logger: Logger;
+  private readonly getRules: (toolName: string) => Rule[];
+  private readonly mode: VetoMode;
+  private readonly reserved = new Map<string, ToolCallHistoryEntry>();
+
+  constructor(options: RateLimiterOptions) {
+    this.logger = options.logger;
+    this.getRules = options.getRules;
+    this.mode = options.mode ?? 'strict';
+  }
+
+  /**
+   * Check a call against the rate-limit rules for its tool.
+   *
+   * A call that passes is reserved until it appears in the history or
+   * `release` is called with its ID.
+   *
+   * @param context - Validation context
+   * @param history - Call history covering the longest window; denied calls are not counted
+   * @returns A denial (or, in log mode, an allow noting the limit), or null if within all limits
+   */
+  check(
+    context: ValidationContext,
+    history: readonly ToolCallHistoryEntry[]
+  ): ValidationResult | null {
+    for (const entry of history) {
+      if (entry.callId !== undefined) {
+        this.reserved.delete(entry.callId);
+      }
+    }
+
+    const entries = [
+      ...history.filter((entry) => entry.validationResult.decision !== 'deny'),
+      ...this.reserved.values(),
+    ];
+
+    for (const rule of this.getRules(context.toolName)) {
+      const violation = this.checkRule(rule, context, entries);
+      if (violation) {
+        return this.handleViolation(violation, context);
+      }
+    }
+
+    this.reserve(context);
+    return null;
+  }
+
+  /**
+   * Release the reservation of a call that will not be in the history.
+   */
+  release(callId: string): void {
+    this.reserved.delete(callId);
+  }
+
+  /**
+   * Check a call against one rule.
+   */
+  private checkRule(
+    rule: Rule,
+    context: ValidationContext,
+    entries: readonly ToolCallHistoryEntry[]
+  ): Violation | null {
+    const limit = rule.rate_limit;
+    const windowMs = parseDuration(limit?.window);
+    if (!limit || windowMs === null) {
+      return null;
+    }
+    if (!this.matches(rule, context.toolName, context.arguments, context.custom)) {
+      return null;
+    }
+
+    const since = context.timestamp.getTime() - windowMs;
+    const counted = entries
+      .filter((entry) =>
+        entry.timestamp.getTime() > since &&
+        (!rule.tools?.length || rule.tools.includes(entry.toolName)) &&
+        this.matches(rule, entry.toolName, entry.arguments, context.custom)
+      )
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const amount = (args: Record<string, unknown>): number => {
+      if (!limit.sum) return 1;
+      const value = Number(resolveFieldPath(args, limit.sum));
+      return Number.isFinite(value) ? value : 0;
+    };
+
+    const requested = amount(context.arguments);
+    const used = counted.reduce((total, entry) => total + amount(entry.arguments), 0);
+    if (used + requested <= limit.max) {
+      return null;
+    }
+
+    // The window resets for this call once enough of the oldest calls drop out
+    let resetsAt: Date | null = null;
+    if (requested <= limit.max) {
+      let remaining = used;
+      for (const entry of counted) {
+        remaining -= amount(entry.arguments);
+        if (remaining + requested <= limit.max) {
+          resetsAt = new Date(entry.timestamp.getTime() + windowMs);
+          break;
+        }
+      }
+    }
+
+    return { rule, limit: limit.max, used, requested, windowMs, resetsAt };
+  }
+
+  /**
+   * Check whether a rule's conditions match a call; rules without
+   * conditions match every call to their tools.
+   */
+  private matches(
+    rule: Rule,
+    toolName: string,
+    args: Record<string, unknown>,
+    custom: Record<string, unknown> | undefined
+  ): boolean {
+    if (!hasConditions(rule)) {
+      return true;
+    }
+
+    try {
+      return evaluateRule(rule, { tool_name: toolName, arguments: args, context: custom ?? {} });
+    } catch {
+      // Count calls the conditions cannot be evaluated for, to stay on the safe side
+      return true;
+    }
+  }
+
+  /**
+   * Turn a violation into a validation result.
+   */
+  private handleViolation(violation: Violation, context: ValidationContext): ValidationResult {
+    const { rule, limit, used, requested, windowMs, resetsAt } = violation;
+    const window = formatDuration(windowMs);
+    const field = rule.rate_limit?.sum;
+
+    const usage = field
+      ? `${used} + ${requested} of ${limit} ${field} in ${window}`
+      : `${used} of ${limit} calls in ${window}`;
+    const reset = resetsAt
+      ? `window resets at ${resetsAt.toISOString()}`
+      : 'the call alone exceeds the limit';
+    const reason = `${field ? 'Quota' : 'Rate limit'} exceeded: ${rule.name} (${usage}; ${reset})`;
+
+    const metadata: Record<string, unknown> = {
+      validation_path: 'rate_limit',
+      matched_rules: [rule.id],
+      rate_limit: {
+        rule_id: rule.id,
+        limit,
+        used,
+        requested,
+        window_seconds: windowMs / 1000,
+        resets_at: resetsAt?.toISOString() ?? null,
+      },
+    };
+
+    if (this.mode === 'log') {
+      this.logger.warn('Tool call would exceed a rate limit (log mode)', {
+        tool: context.toolName,
+        rule: rule.id,
+        reason,
+      });
+      this.reserve(context);
+      return {
+        decision: 'allow',
+        reason: `[LOG MODE] Would block: ${reason}`,
+        metadata: { ...metadata, blocked_in_strict_mode: true },
+      };
+    }
+
+    this.logger.warn('Tool call exceeds a rate limit', {
+      tool: context.toolName,
+      rule: rule.id,
+      reason,
+    });
+    return { decision: 'deny', reason, metadata };
+  }
+
+  /**
+   * Count a call against the limits until it is in the history.
+   */
+  private reserve(context: ValidationContext): void {
+    this.reserved.set(context.callId, {
+      toolName: context.toolName,
+      arguments: context.arguments,
+      validationResult: { decision: 'allow' },
+      timestamp: context.timestamp,
+    });
+  }
+}
+
+/**
+ * Create a rate limiter.
+ *
+ * @param options - Rate limiter options
+ * @returns RateLimiter instance
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  return new RateLimiter(options);
+}
@@ -0,0 +1,209 @@
+/**
+ * Scoped validation sessions.
+ *
+ * A session validates tool calls with its own call history, rate-limit
+ * counters and custom context, while sharing the rules and backends of the
+ * Veto instance that created it. Servers handling many agent sessions in
+ * one process use one session per agent conversation.
+ *
+ * @module core/session
+ */
+
+import type { ToolCall, ToolDefinition } from '../types/tool.js';
+import { isExecutableTool } from '../types/tool.js';
+import type { Logger } from '../utils/logger.js';
+import { generateToolCallId } from '../utils/id.js';
+import type { HistoryStats, HistoryTracker } from './history.js';
+import {
+  ToolCallDeniedError,
+  type InterceptionResult,
+  type Interceptor,
+} from './interceptor.js';
+
+/**
+ * Wrapped handler function type.
+ */
+export type WrappedHandler = (args: Record<string, unknown>) => Promise<unknown>;
+
+/**
+ * Result of wrapping tools with Veto.
+ */
+export interface WrappedTools {
+  /** Tool definitions (schemas) to pass to AI models */
+  definitions: ToolDefinition[];
+  /** Wrapped handler functions keyed by tool name */
+  implementations: Record<string, WrappedHandler>;
+}
+
+/**
+ * Options for `veto.session()`.
+ */
+export interface SessionOptions {
+  /** Agent ID sent to backends (default: the Veto instance's) */
+  agentId?: string;
+  /** Custom context data, merged over the Veto instance's */
+  custom?: Record<string, unknown>;
+}
+
+/**
+ * Options for creating a session.
+ */
+export interface VetoSessionOptions {
+  /** Session ID sent to backends */
+  sessionId?: string;
+  /** Agent ID sent to backends */
+  agentId?: string;
+  /** Interceptor validating the session's calls */
+  interceptor: Interceptor;
+  /** History of the session's calls */
+  historyTracker: HistoryTracker;
+  /** Logger instance */
+  logger: Logger;
+  /** Called for each tool passed to `wrapTools` */
+  onWrap?: (tool: ToolDefinition) => void;
+}
+
+/**
+ * Handle for validating the tool calls of one session.
+ */
+export class VetoSession {
+  readonly sessionId?: string;
+  readonly agentId?: string;
+
+  private readonly interceptor: Interceptor;
+  private readonly historyTracker: HistoryTracker;
+  private readonly logger: Logger;
+  private readonly onWrap?: (tool: ToolDefinition) => void;
+  private lastActivity = Date.now();
+
+  constructor(options: VetoSessionOptions) {
+    this.sessionId = options.sessionId;
+    this.agentId = options.agentId;
+    this.interceptor = options.interceptor;
+    this.historyTracker = options.historyTracker;
+    this.logger = options.logger;
+    this.onWrap = options.onWrap;
+  }
+
+  /**
+   * Wrap tools so that their handlers validate each call in this session.
+   *
+   * @param tools - Tools to wrap
+   * @returns Definitions to pass to the model and wrapped handlers
+   */
+  wrapTools(tools: readonly ToolDefinition[]): WrappedTools {
+    const definitions: ToolDefinition[] = [];
+    const implementations: Record<string, WrappedHandler> = {};
+
+    for (const tool of tools) {
+      this.onWrap?.(tool);
+
+      // Extract definition (without handler)
+      const { handler: _, ...definition } = tool as ToolDefinition & { handler?: unknown };
+      definitions.push(definition as ToolDefinition);
+
+      if (isExecutableTool(tool)) {
+        // Wrap the handler with automatic validation
+        const originalHandler = tool.handler;
+        const wrappedHandler: WrappedHandler = async (args: Record<string, unknown>) => {
+          const result = await this.validateToolCall({
+            id: generateToolCallId(),
+            name: tool.name,
+            arguments: args,
+          });
+
+          if (!result.allowed) {
+            throw new ToolCallDeniedError(
+              tool.name,
+              result.originalCall.id || '',
+              result.validationResult
+            );
+          }
+
+          // Execute with potentially modified arguments
+          return originalHandler(result.finalArguments ?? args);
+        };
+
+        implementations[tool.name] = wrappedHandler;
+      }
+    }
+
+    this.logger.info('Tools wrapped', {
+      count: tools.length,
+      names: tools.map((t) => t.name),
+      sessionId: this.sessionId,
+    });
+
+    return {
+      definitions,
+      implementations,
+    };
+  }
+
+  /**
+   * Validate a tool call.
+   *
+   * @param call - The tool call to validate
+   * @returns Validation result
+   */
+  async validateToolCall(call: ToolCall): Promise<InterceptionResult> {
+    this.touch();
+    return this.interceptor.intercept({
+      ...call,
+      id: call.id || generateToolCallId(),
+    });
+  }
+
+  /**
+   * Validate several tool calls concurrently.
+   *
+   * @param calls - The tool calls to validate
+   * @returns One result per call, in the order of the calls
+   */
+  async validateToolCalls(calls: readonly ToolCall[]): Promise<InterceptionResult[]> {
+    return Promise.all(calls.map((call) => this.validateToolCall(call)));
+  }
+
+  /**
+   * Validate a tool call and throw if denied.
+   *
+   * @param call - The tool call to validate
+   * @returns Validation result (only if allowed)
+   * @throws {ToolCallDeniedError} If the call is denied
+   */
+  async validateToolCallOrThrow(call: ToolCall): Promise<InterceptionResult> {
+    this.touch();
+    return this.interceptor.interceptOrThrow({
+      ...call,
+      id: call.id || generateToolCallId(),
+    });
+  }
+
+  /**
+   * Get history statistics of this session.
+   */
+  async getHistoryStats(): Promise<HistoryStats> {
+    return this.historyTracker.getStats();
+  }
+
+  /**
+   * Clear the call history of this session, including stored history.
+   */
+  async clearHistory(): Promise<void> {
+    await this.historyTracker.clear();
+  }
+
+  /**
+   * Get when the session last validated a call or was looked up.
+   */
+  getLastActivity(): Date {
+    return new Date(this.lastActivity);
+  }
+
+  /**
+   * Mark the session as active, so it is not evicted as idle.
+   */
+  touch(): void {
+    this.lastActivity = Date.now();
+  }
+}
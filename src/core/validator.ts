@@ -7,6 +7,7 @@
  */
 
 import type {
+  BackendResult,
   NamedValidator,
   ValidationContext,
   ValidationResult,
@@ -37,6 +38,8 @@ export interface AggregatedValidationResult {
     result: ValidationResult;
     durationMs: number;
   }>;
+  /** Results of the individual decision backends, across all validators */
+  backendResults: BackendResult[];
   /** Total duration of validation in milliseconds */
   totalDurationMs: number;
 }
@@ -149,6 +152,7 @@ export class ValidationEngine {
       return {
         finalResult: defaultResult,
         validatorResults: [],
+        backendResults: [],
         totalDurationMs: performance.now() - startTime,
       };
     }
@@ -242,6 +246,7 @@ export class ValidationEngine {
     return {
       finalResult,
       validatorResults,
+      backendResults: validatorResults.flatMap(({ result }) => result.backendResults ?? []),
       totalDurationMs,
     };
   }
@@ -7,105 +7,138 @@
  * @module core/veto
  */
 
-import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
+import { existsSync, readdirSync, watch, type FSWatcher } from 'node:fs';
 import { join, resolve, extname } from 'node:path';
-import { parse as parseYaml } from 'yaml';
 import type {
   ToolDefinition,
   ToolCall,
 } from '../types/tool.js';
-import { isExecutableTool } from '../types/tool.js';
 import type {
   Validator,
   NamedValidator,
   ValidationContext,
   ValidationResult,
+  ValidationWarning,
   LogLevel,
 } from '../types/config.js';
 import { createLogger, type Logger } from '../utils/logger.js';
-import { generateToolCallId } from '../utils/id.js';
+import { selectProfile } from '../utils/profile.js';
+import { parseDuration } from '../utils/duration.js';
 import { ValidationEngine } from './validator.js';
 import { HistoryTracker, type HistoryStats } from './history.js';
-import { Interceptor, ToolCallDeniedError, type InterceptionResult } from './interceptor.js';
-import type {
-  Rule,
-  RuleSet,
-  ToolCallContext,
-  ToolCallHistorySummary,
-  ValidationAPIResponse,
-} from '../rules/types.js';
-import type { KernelConfig, KernelToolCall } from '../kernel/types.js';
-import { KernelClient } from '../kernel/client.js';
-
-/**
- * Veto operating mode.
- * - "strict": Block tool calls when validation fails
- * - "log": Only log validation failures, allow tool calls to proceed
- */
-export type VetoMode = 'strict' | 'log';
+import type { HistoryStore } from './history-store.js';
+import {
+  Interceptor,
+  ToolCallDeniedError,
+  type InterceptionResult,
+  type InterceptorOptions,
+} from './interceptor.js';
+import { RateLimiter } from './rate-limit.js';
+import {
+  VetoSession,
+  type SessionOptions,
+  type WrappedHandler,
+  type WrappedTools,
+} from './session.js';
+import {
+  ValidationPipeline,
+  type RemoteBackend,
+  type ValidationHealth,
+  type ValidationMode,
+  type VetoMode,
+} from './pipeline.js';
+import {
+  createConfiguredBackend,
+  createEscalationBackend,
+  readConfigFile,
+  resolveAPIConfig,
+  resolveDecisionCache,
+  resolveHistoryStore,
+  resolveKernelSettings,
+  resolveRemoteBackend,
+  type ConfiguredBackendOptions,
+  type VetoConfigFile,
+} from './config.js';
+import type { Rule } from '../rules/types.js';
+import type { KernelClient } from '../kernel/client.js';
+import type { DecisionBackend } from '../backends/types.js';
+import {
+  buildEvaluationTarget,
+  evaluateRule,
+  hasConditions,
+} from '../rules/evaluator.js';
+import { applyTransforms } from '../rules/transforms.js';
+import {
+  findPulledInFiles,
+  findRuleFiles,
+  isRuleSelected,
+  parseRuleFile,
+  type LoadedRuleSetInfo,
+  type ParsedRuleFile,
+} from '../rules/loader.js';
+import {
+  RuleSchemaError,
+  findDuplicateRuleIds,
+  type RuleSchemaIssue,
+} from '../rules/schema.js';
+import type { ApprovalProvider } from '../approval/types.js';
+
+export type { VetoMode, ValidationMode, RemoteBackend, ValidationHealth };
+
+export type { SessionOptions, WrappedHandler, WrappedTools };
 
 /**
- * Validation mode - how tool calls are validated.
- * - "api": Use external HTTP API for validation
- * - "kernel": Use local kernel model via Ollama
- */
-export type ValidationMode = 'api' | 'kernel';
-
-/**
- * Wrapped handler function type.
+ * Internal state for loaded rules.
  */
-export type WrappedHandler = (args: Record<string, unknown>) => Promise<unknown>;
+interface LoadedRulesState {
+  allRules: Rule[];
+  rulesByTool: Map<string, Rule[]>;
+  globalRules: Rule[];
+  ruleSets: LoadedRuleSetInfo[];
+  ruleSetByRule: Map<Rule, LoadedRuleSetInfo>;
+  /** Last successful parse of each rule file, reused if a reload fails */
+  files: Map<string, ParsedRuleFile>;
+}
 
 /**
- * Result of wrapping tools with Veto.
+ * A rule file that could not be loaded.
  */
-export interface WrappedTools {
-  /** Tool definitions (schemas) to pass to AI models */
-  definitions: ToolDefinition[];
-  /** Wrapped handler functions keyed by tool name */
-  implementations: Record<string, WrappedHandler>;
+export interface RuleFileError {
+  /** Path of the rule file */
+  path: string;
+  /** Parse or read error message */
+  message: string;
 }
 
 /**
- * Parsed veto.config.yaml structure.
+ * Payload of the `rulesReloaded` event.
  */
-interface VetoConfigFile {
-  version?: string;
-  mode?: VetoMode;
-  validation?: {
-    mode?: ValidationMode;
-  };
-  api?: {
-    baseUrl?: string;
-    endpoint?: string;
-    timeout?: number;
-    retries?: number;
-    retryDelay?: number;
-  };
-  kernel?: {
-    baseUrl?: string;
-    model?: string;
-    temperature?: number;
-    maxTokens?: number;
-    timeout?: number;
-  };
-  logging?: {
-    level?: LogLevel;
-  };
-  rules?: {
-    directory?: string;
-    recursive?: boolean;
-  };
+export interface RulesReloadedEvent {
+  /** What caused the reload */
+  trigger: 'rules' | 'config' | 'manual';
+  /** IDs of rules that were added */
+  added: string[];
+  /** IDs of rules that were removed */
+  removed: string[];
+  /** IDs of rules whose definition changed */
+  changed: string[];
+  /** Number of rules loaded after the reload */
+  total: number;
+  /** Files that failed to load; their last good rules were kept */
+  errors: RuleFileError[];
+  /** Schema problems found in the rule files */
+  issues: RuleSchemaIssue[];
+  /**
+   * False if the reload was rejected because of schema problems in strict
+   * mode; the previous rules stay active and the diff is empty
+   */
+  applied: boolean;
 }
 
 /**
- * Internal state for loaded rules.
+ * Delay before reloading, so bursts of file events cause a single reload.
  */
-interface LoadedRulesState {
-  allRules: Rule[];
-  rulesByTool: Map<string, Rule[]>;
-  globalRules: Rule[];
-}
+const WATCH_DEBOUNCE_MS = 100;
 
 /**
  * Options for creating a Veto instance.
@@ -117,6 +150,12 @@ export interface VetoOptions {
    */
   configDir?: string;
 
+  /**
+   * Profile from `profiles` in veto.config.yaml to merge over the base config.
+   * Can also be set via VETO_PROFILE environment variable.
+   */
+  profile?: string;
+
   /**
    * Override the operating mode.
    * - "strict": Block tool calls when validation fails
@@ -151,6 +190,57 @@ export interface VetoOptions {
    * Injected kernel client for testing or custom configurations.
    */
   kernelClient?: KernelClient;
+
+  /**
+   * Override the validation mode from veto.config.yaml.
+   */
+  validationMode?: ValidationMode;
+
+  /**
+   * Decision backends selectable by name with `validation.mode` or, in
+   * hybrid mode, `validation.backend`. A backend named "api" or "kernel"
+   * replaces the built-in one.
+   */
+  backends?: DecisionBackend[];
+
+  /**
+   * Custom context data passed to validators and rule conditions
+   * (`context.*` fields).
+   */
+  customContext?: Record<string, unknown>;
+
+  /**
+   * Hook called when rules with action "warn" match an allowed call.
+   */
+  onWarning?: (
+    context: ValidationContext,
+    warnings: ValidationWarning[]
+  ) => void | Promise<void>;
+
+  /**
+   * Provider asked to approve calls matching "require_approval" rules.
+   * Without a provider, such calls are denied.
+   */
+  approvalProvider?: ApprovalProvider;
+
+  /**
+   * Reload rules when rule files or veto.config.yaml change.
+   * Overrides `rules.watch` in veto.config.yaml.
+   */
+  watch?: boolean;
+
+  /**
+   * Store the call history of every session is persisted to, keyed by
+   * session ID. Overrides `validation.history.store` in veto.config.yaml.
+   */
+  historyStore?: HistoryStore;
+
+  /**
+   * Throw a `RuleSchemaError` from `init` when rule files fail schema
+   * validation, instead of logging a warning per problem.
+   * Overrides `rules.strict` in veto.config.yaml.
+   */
+  strictRules?: boolean;
 }
 
 /**
@@ -176,28 +266,43 @@ export interface VetoOptions {
 export class Veto {
   private readonly logger: Logger;
   private readonly validationEngine: ValidationEngine;
-  private readonly historyTracker: HistoryTracker;
-  private readonly interceptor: Interceptor;
+  private readonly defaultSession: VetoSession;
   private readonly registeredTools: Map<string, ToolDefinition> = new Map();
 
   // Configuration
   private readonly configDir: string;
   private readonly mode: VetoMode;
   private readonly validationMode: ValidationMode;
-  private readonly apiBaseUrl: string;
-  private readonly apiEndpoint: string;
-  private readonly apiTimeout: number;
-  private readonly apiRetries: number;
-  private readonly apiRetryDelay: number;
-  private readonly sessionId?: string;
+  private readonly remoteBackend: RemoteBackend | null;
+  private readonly pipeline: ValidationPipeline;
+  private readonly historySize: number;
+  private readonly historyStore?: HistoryStore;
+  private retentionCache?: { rules: LoadedRulesState; retention: number };
+  private readonly customContext?: Record<string, unknown>;
   private readonly agentId?: string;
-
-  // Kernel client (lazy initialized or injected)
-  private kernelClient: KernelClient | null = null;
-  private readonly kernelConfig: KernelConfig | null;
-
-  // Loaded rules
-  private readonly rules: LoadedRulesState;
+  private readonly onWarning?: VetoOptions['onWarning'];
+  private readonly approval: InterceptorOptions['approval'];
+
+  // Sessions created with session()
+  private readonly sessions = new Map<string, VetoSession>();
+  private readonly maxSessions: number;
+  private readonly sessionIdleTimeout: number;
+
+  // Loaded rules (replaced atomically on reload)
+  private rules: LoadedRulesState;
+  private rulesDir: string;
+  private rulesRecursive: boolean;
+  private ruleTags: string[] | undefined;
+  private readonly profile: string | undefined;
+  private readonly strictRules: boolean;
+
+  // Rule watching
+  private configWatcher: FSWatcher | null = null;
+  /** Watchers of the rules directory, or of each of its directories if recursive watching is unavailable */
+  private readonly rulesWatchers = new Map<string, FSWatcher>();
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingTrigger: RulesReloadedEvent['trigger'] | null = null;
+  private readonly rulesReloadedListeners = new Set<(event: RulesReloadedEvent) => void>();
 
   private constructor(
     options: VetoOptions,
@@ -208,48 +313,55 @@ export class Veto {
     this.logger = logger;
     this.configDir = options.configDir ?? './veto';
     this.rules = rules;
+    this.rulesDir = resolve(this.configDir, config.rules?.directory ?? './rules');
+    this.rulesRecursive = config.rules?.recursive ?? true;
+    this.ruleTags = config.rules?.tags;
+    this.profile = selectProfile(options.profile);
+    this.strictRules = options.strictRules ?? config.rules?.strict ?? false;
 
     // Resolve mode (strict blocks, log only logs)
     this.mode = options.mode ?? config.mode ?? 'strict';
 
-    // Resolve validation mode (api or kernel)
-    this.validationMode = config.validation?.mode ?? 'api';
-
-    // Resolve API configuration from config file
-    this.apiBaseUrl = (config.api?.baseUrl ?? 'http://localhost:8080').replace(/\/$/, '');
-    this.apiEndpoint = config.api?.endpoint ?? '/tool/call/check';
-    this.apiTimeout = config.api?.timeout ?? 10000;
-    this.apiRetries = config.api?.retries ?? 2;
-    this.apiRetryDelay = config.api?.retryDelay ?? 1000;
-
-    // Resolve kernel configuration
-    if (this.validationMode === 'kernel' && config.kernel?.model) {
-      this.kernelConfig = {
-        baseUrl: config.kernel.baseUrl ?? 'http://localhost:11434/v1',
-        model: config.kernel.model,
-        temperature: config.kernel.temperature,
-        maxTokens: config.kernel.maxTokens,
-        timeout: config.kernel.timeout,
-      };
-    } else {
-      this.kernelConfig = null;
-    }
-
-    // Use injected kernel client if provided
-    if (options.kernelClient) {
-      this.kernelClient = options.kernelClient;
-    }
+    // Resolve validation mode and the backend it forwards calls to
+    this.validationMode = options.validationMode ?? config.validation?.mode ?? 'api';
+    this.remoteBackend = resolveRemoteBackend(this.validationMode, config);
 
     // Resolve tracking options
-    this.sessionId = options.sessionId ?? process.env.VETO_SESSION_ID;
-    this.agentId = options.agentId ?? process.env.VETO_AGENT_ID;
+    const sessionId = options.sessionId ?? process.env.VETO_SESSION_ID;
+    const agentId = options.agentId ?? process.env.VETO_AGENT_ID;
 
+    const backendOptions: ConfiguredBackendOptions = {
+      logger: this.logger,
+      backends: options.backends,
+      kernelClient: options.kernelClient,
+      getRuleSet: (rule) => this.rules.ruleSetByRule.get(rule),
+    };
+    this.pipeline = new ValidationPipeline({
+      logger: this.logger,
+      mode: this.mode,
+      validationMode: this.validationMode,
+      backend: this.remoteBackend
+        ? createConfiguredBackend(this.remoteBackend, config, backendOptions)
+        : null,
+      failMode: config.validation?.failMode,
+      thresholds: config.validation?.thresholds,
+      escalationBackend: createEscalationBackend(config, backendOptions),
+      cache: resolveDecisionCache(config),
+      history: config.validation?.history,
+      getRuleSet: (rule) => this.rules.ruleSetByRule.get(rule),
+      sessionId,
+      agentId,
+    });
+
+    const apiConfig = resolveAPIConfig(config);
     this.logger.info('Veto configuration loaded', {
       configDir: this.configDir,
+      profile: this.profile,
       mode: this.mode,
       validationMode: this.validationMode,
-      apiUrl: this.validationMode === 'api' ? `${this.apiBaseUrl}${this.apiEndpoint}` : undefined,
-      kernelModel: this.kernelConfig?.model,
+      remoteBackend: this.remoteBackend ?? undefined,
+      apiUrl: this.remoteBackend === 'api' ? `${apiConfig.baseUrl}${apiConfig.endpoint}` : undefined,
+      kernelModel: this.remoteBackend === 'kernel' ? resolveKernelSettings(config)?.model : undefined,
       rulesLoaded: rules.allRules.length,
     });
 
@@ -263,13 +375,9 @@ export class Veto {
     // Add the rule validator based on validation mode
     this.validationEngine.addValidator({
       name: 'veto-rule-validator',
-      description: this.validationMode === 'kernel'
-        ? 'Validates tool calls via local kernel model'
-        : 'Validates tool calls via external API',
+      description: this.describeValidationMode(),
       priority: 50,
-      validate: (ctx) => this.validationMode === 'kernel'
-        ? this.validateWithKernel(ctx)
-        : this.validateWithAPI(ctx),
+      validate: (ctx) => this.validateWithRules(ctx),
     });
 
     // Add any additional validators
@@ -277,18 +385,25 @@ export class Veto {
       this.validationEngine.addValidators(options.validators);
     }
 
-    // Initialize history tracker
-    this.historyTracker = new HistoryTracker({
-      maxSize: 100,
-      logger: this.logger,
-    });
+    // Per-session state: history, rate-limit counters and custom context
+    this.historySize = Math.max(100, config.validation?.history?.depth ?? 0);
+    this.historyStore = options.historyStore ?? resolveHistoryStore(config, this.configDir, () => this.historyRetention()) ??
+      undefined;
+    this.customContext = options.customContext;
+    this.agentId = agentId;
+    this.onWarning = options.onWarning;
+    this.approval = {
+      provider: options.approvalProvider,
+      timeout: config.approval?.timeout,
+      defaultAnswer: config.approval?.defaultAnswer,
+    };
+    this.maxSessions = config.session?.maxSessions ?? 1000;
+    this.sessionIdleTimeout = config.session?.idleTimeout ?? 1_800_000;
+    this.defaultSession = this.createSession(sessionId, agentId, options.customContext);
 
-    // Initialize interceptor
-    this.interceptor = new Interceptor({
-      logger: this.logger,
-      validationEngine: this.validationEngine,
-      historyTracker: this.historyTracker,
-    });
+    if (options.watch ?? config.rules?.watch ?? false) {
+      this.startWatching();
+    }
 
     this.logger.info('Veto initialized successfully');
   }
@@ -310,6 +425,8 @@ export class Veto {
    * // Override API URL
    * const veto = await Veto.init({ apiBaseUrl: 'https://api.example.com' });
    * ```
+   *
+   * @throws {Error} If the validation mode names an unknown decision backend
    */
   static async init(options: VetoOptions = {}): Promise<Veto> {
     const configDir = resolve(options.configDir ?? './veto');
@@ -318,14 +435,16 @@ export class Veto {
     const envLogLevel = process.env.VETO_LOG_LEVEL as LogLevel | undefined;
     let logLevel: LogLevel = options.logLevel ?? envLogLevel ?? 'info';
 
-    // Load config file
+    // Load config file, with the selected profile applied
     const configPath = join(configDir, 'veto.config.yaml');
+    const profile = selectProfile(options.profile);
     let config: VetoConfigFile = {};
 
     if (existsSync(configPath)) {
-      const configContent = readFileSync(configPath, 'utf-8');
-      config = parseYaml(configContent) as VetoConfigFile;
+      config = readConfigFile(configPath, profile);
       logLevel = options.logLevel ?? envLogLevel ?? config.logging?.level ?? 'info';
+    } else if (profile !== undefined) {
+      throw new Error(`Unknown profile "${profile}": ${configPath} not found`);
     }
 
     const logger = createLogger(logLevel);
@@ -335,441 +454,562 @@ export class Veto {
         expected: configPath,
       });
     }
+    if (profile !== undefined) {
+      logger.info('Using configuration profile', { profile });
+    }
 
     // Load rules
     const rulesDir = resolve(configDir, config.rules?.directory ?? './rules');
     const recursive = config.rules?.recursive ?? true;
-    const rules = Veto.loadRules(rulesDir, recursive, logger);
+    const { state, issues } = Veto.loadRules(rulesDir, recursive, config.rules?.tags, logger);
 
-    return new Veto(options, config, rules, logger);
+    if (issues.length > 0 && (options.strictRules ?? config.rules?.strict ?? false)) {
+      throw new RuleSchemaError(issues);
+    }
+
+    return new Veto(options, config, state, logger);
   }
 
   /**
    * Load rules from YAML files.
+   *
+   * @param previousFiles - Last good parse of each file; a file that fails
+   *   to load keeps its previous rules
    */
   private static loadRules(
     rulesDir: string,
     recursive: boolean,
-    logger: Logger
-  ): LoadedRulesState {
-    const state: LoadedRulesState = {
-      allRules: [],
-      rulesByTool: new Map(),
-      globalRules: [],
-    };
+    tags: readonly string[] | undefined,
+    logger: Logger,
+    previousFiles: Map<string, ParsedRuleFile> = new Map()
+  ): { state: LoadedRulesState; errors: RuleFileError[]; issues: RuleSchemaIssue[] } {
+    const files = new Map<string, ParsedRuleFile>();
+    const errors: RuleFileError[] = [];
+    const issues: RuleSchemaIssue[] = [];
 
     if (!existsSync(rulesDir)) {
       logger.debug('Rules directory not found', { path: rulesDir });
-      return state;
-    }
-
-    const yamlFiles = Veto.findYamlFiles(rulesDir, recursive);
-    logger.debug('Found rule files', { count: yamlFiles.length });
-
-    for (const filePath of yamlFiles) {
-      try {
-        const content = readFileSync(filePath, 'utf-8');
-        const parsed = parseYaml(content) as RuleSet | Rule[] | Record<string, unknown>;
+    } else {
+      const yamlFiles = findRuleFiles(rulesDir, recursive);
+      logger.debug('Found rule files', { count: yamlFiles.length });
+
+      for (const filePath of yamlFiles) {
+        try {
+          const parsed = parseRuleFile(filePath);
+          files.set(filePath, parsed);
+          // Files in the rules directory report their own issues
+          issues.push(...parsed.issues.filter(
+            (issue) => issue.file === filePath || !yamlFiles.includes(issue.file)
+          ));
+
+          logger.debug('Loaded rules from file', {
+            path: filePath,
+            count: parsed.rules.length,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          errors.push({ path: filePath, message });
+          if (error instanceof RuleSchemaError) {
+            issues.push(...error.issues);
+          }
 
-        let rules: Rule[] = [];
+          const previous = previousFiles.get(filePath);
+          if (previous) {
+            files.set(filePath, previous);
+          }
 
-        if (Array.isArray(parsed)) {
-          rules = parsed as Rule[];
-        } else if (parsed && typeof parsed === 'object' && 'rules' in parsed) {
-          rules = (parsed as RuleSet).rules ?? [];
-        } else if (parsed && typeof parsed === 'object' && 'id' in parsed) {
-          rules = [parsed as unknown as Rule];
+          logger.error(
+            previous ? 'Failed to load rules file, keeping previous rules' : 'Failed to load rules file',
+            { path: filePath },
+            error instanceof Error ? error : new Error(message)
+          );
         }
+      }
+    }
 
-        // Process and index rules
-        for (const rule of rules) {
-          if (!rule.enabled) continue;
-
-          state.allRules.push(rule);
-
-          if (!rule.tools || rule.tools.length === 0) {
-            state.globalRules.push(rule);
-          } else {
-            for (const toolName of rule.tools) {
-              const existing = state.rulesByTool.get(toolName) ?? [];
-              existing.push(rule);
-              state.rulesByTool.set(toolName, existing);
-            }
-          }
-        }
+    // Files pulled in by another file only load through it, so its
+    // overrides of their rules take effect
+    const pulledIn = findPulledInFiles(files.values());
+    const loaded = new Map([...files].filter(([filePath]) => !pulledIn.has(resolve(filePath))));
+    if (pulledIn.size > 0) {
+      logger.debug('Skipping rule files pulled in by other files', {
+        files: [...files.keys()].filter((filePath) => !loaded.has(filePath)),
+      });
+    }
 
-        logger.debug('Loaded rules from file', {
-          path: filePath,
-          count: rules.length,
-        });
-      } catch (error) {
-        logger.error(
-          'Failed to load rules file',
-          { path: filePath },
-          error instanceof Error ? error : new Error(String(error))
-        );
-      }
+    issues.push(...findDuplicateRuleIds([...loaded.values()].map((file) => file.validation)));
+    for (const issue of issues) {
+      logger.warn('Invalid rule definition', { ...issue });
     }
 
+    const state = Veto.indexRules(loaded, files, tags);
+
     logger.info('Rules loaded', {
       total: state.allRules.length,
       global: state.globalRules.length,
       toolSpecific: state.rulesByTool.size,
     });
 
-    return state;
+    return { state, errors, issues };
   }
 
   /**
-   * Find YAML files in a directory.
+   * Index enabled rules by tool.
+   *
+   * @param loaded - Files whose rules are indexed
+   * @param files - All parsed files, kept for failed reloads
+   * @param tags - If non-empty, only rules with at least one of these tags are indexed
    */
-  private static findYamlFiles(dir: string, recursive: boolean): string[] {
-    const files: string[] = [];
+  private static indexRules(
+    loaded: Map<string, ParsedRuleFile>,
+    files: Map<string, ParsedRuleFile>,
+    tags: readonly string[] = []
+  ): LoadedRulesState {
+    const state: LoadedRulesState = {
+      allRules: [],
+      rulesByTool: new Map(),
+      globalRules: [],
+      ruleSets: [],
+      ruleSetByRule: new Map(),
+      files,
+    };
 
-    try {
-      const entries = readdirSync(dir);
-
-      for (const entry of entries) {
-        const fullPath = join(dir, entry);
-        const stat = statSync(fullPath);
-
-        if (stat.isDirectory() && recursive) {
-          files.push(...Veto.findYamlFiles(fullPath, recursive));
-        } else if (stat.isFile()) {
-          const ext = extname(entry).toLowerCase();
-          if (ext === '.yaml' || ext === '.yml') {
-            files.push(fullPath);
+    for (const { ruleSet, rules } of loaded.values()) {
+      state.ruleSets.push(ruleSet);
+
+      for (const rule of rules) {
+        if (!isRuleSelected(rule, tags)) continue;
+
+        state.allRules.push(rule);
+        state.ruleSetByRule.set(rule, ruleSet);
+
+        if (!rule.tools || rule.tools.length === 0) {
+          state.globalRules.push(rule);
+        } else {
+          for (const toolName of rule.tools) {
+            const existing = state.rulesByTool.get(toolName) ?? [];
+            existing.push(rule);
+            state.rulesByTool.set(toolName, existing);
           }
         }
       }
-    } catch {
-      // Directory doesn't exist or not readable
     }
 
-    return files;
+    return state;
   }
 
   /**
-   * Get rules applicable to a tool.
+   * Compare two rule lists by rule ID.
    */
-  private getRulesForTool(toolName: string): Rule[] {
-    const toolSpecific = this.rules.rulesByTool.get(toolName) ?? [];
-    return [...this.rules.globalRules, ...toolSpecific];
+  private static diffRules(
+    before: readonly Rule[],
+    after: readonly Rule[]
+  ): Pick<RulesReloadedEvent, 'added' | 'removed' | 'changed'> {
+    const beforeById = new Map(before.map((rule) => [rule.id, rule]));
+    const afterById = new Map(after.map((rule) => [rule.id, rule]));
+
+    const added = [...afterById.keys()].filter((id) => !beforeById.has(id));
+    const removed = [...beforeById.keys()].filter((id) => !afterById.has(id));
+    const changed = [...afterById.keys()].filter((id) => {
+      const previous = beforeById.get(id);
+      return previous !== undefined &&
+        JSON.stringify(previous) !== JSON.stringify(afterById.get(id));
+    });
+
+    return { added, removed, changed };
   }
 
   /**
-   * Validate a tool call with the external API.
+   * Find a directory and all directories below it.
    */
-  private async validateWithAPI(context: ValidationContext): Promise<ValidationResult> {
-    const rules = this.getRulesForTool(context.toolName);
+  private static findDirectories(dir: string): string[] {
+    const dirs = [dir];
 
-    // If no rules, allow by default
-    if (rules.length === 0) {
-      this.logger.debug('No rules for tool, allowing', { tool: context.toolName });
-      return { decision: 'allow' };
-    }
-
-    // Build API request
-    const apiContext: ToolCallContext = {
-      call_id: context.callId,
-      tool_name: context.toolName,
-      arguments: context.arguments,
-      timestamp: context.timestamp.toISOString(),
-      session_id: this.sessionId,
-      agent_id: this.agentId,
-      call_history: this.buildHistorySummary(context.callHistory),
-      custom: context.custom,
-    };
-
-    const url = `${this.apiBaseUrl}${this.apiEndpoint}`;
-
-    // Make API call with retries
-    let lastError: Error | undefined;
-
-    for (let attempt = 0; attempt <= this.apiRetries; attempt++) {
-      try {
-        const response = await this.makeAPIRequest(url, apiContext, rules);
-        return this.handleAPIResponse(response, context);
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-
-        if (attempt < this.apiRetries) {
-          this.logger.warn('API request failed, retrying', {
-            attempt: attempt + 1,
-            error: lastError.message,
-          });
-          await this.delay(this.apiRetryDelay);
+    try {
+      for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+          dirs.push(...Veto.findDirectories(join(dir, entry.name)));
         }
       }
+    } catch {
+      // Directory doesn't exist or not readable
     }
 
-    // All retries failed - use fail mode
-    return this.handleAPIFailure(lastError?.message ?? 'API unavailable');
+    return dirs;
   }
 
   /**
-   * Make the API request.
+   * Start watching the rules directory and the config file.
    */
-  private async makeAPIRequest(
-    url: string,
-    context: ToolCallContext,
-    rules: Rule[]
-  ): Promise<ValidationAPIResponse> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.apiTimeout);
+  private startWatching(): void {
+    const configDir = resolve(this.configDir);
 
     try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ context, rules }),
-        signal: controller.signal,
+      const watcher = watch(configDir, (_event, filename) => {
+        if (filename === 'veto.config.yaml') {
+          this.scheduleReload('config');
+        }
       });
+      watcher.unref();
+      this.configWatcher = watcher;
+    } catch (error) {
+      this.logger.warn('Cannot watch config directory', {
+        path: configDir,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
 
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`API returned status ${response.status}`);
-      }
+    this.watchRulesDir();
 
-      const data = await response.json() as ValidationAPIResponse;
+    this.logger.info('Watching rules for changes', {
+      configDir,
+      rulesDir: this.rulesDir,
+    });
+  }
 
-      // Validate response
-      if (data.decision !== 'pass' && data.decision !== 'block') {
-        throw new Error('Invalid API response: missing decision');
+  /**
+   * Watch the current rules directory for YAML changes.
+   *
+   * Where recursive watching is unavailable (Linux before Node 20), each
+   * directory is watched on its own, and new subdirectories are picked up
+   * as they appear.
+   */
+  private watchRulesDir(): void {
+    try {
+      this.addRulesWatcher(this.rulesDir, this.rulesRecursive);
+    } catch (error) {
+      if (this.rulesRecursive &&
+        (error as NodeJS.ErrnoException).code === 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+        this.logger.debug('Recursive watching unavailable, watching each rules directory');
+        this.watchRulesSubdirectories();
+        return;
       }
 
-      return data;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
+      this.logger.warn('Cannot watch rules directory', {
+        path: this.rulesDir,
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
   /**
-   * Handle successful API response.
+   * Watch every directory under the rules directory that is not yet watched.
    */
-  private handleAPIResponse(
-    response: ValidationAPIResponse,
-    context: ValidationContext
-  ): ValidationResult {
-    const metadata = {
-      should_pass_weight: response.should_pass_weight,
-      should_block_weight: response.should_block_weight,
-      matched_rules: response.matched_rules,
-    };
-
-    if (response.decision === 'pass') {
-      this.logger.debug('API allowed tool call', {
-        tool: context.toolName,
-        passWeight: response.should_pass_weight,
-      });
+  private watchRulesSubdirectories(): void {
+    for (const dir of Veto.findDirectories(this.rulesDir)) {
+      if (this.rulesWatchers.has(dir)) continue;
 
-      return {
-        decision: 'allow',
-        reason: response.reasoning,
-        metadata,
-      };
-    } else {
-      // API returned block decision
-      if (this.mode === 'log') {
-        // Log mode: log the block but allow the call
-        this.logger.warn('Tool call would be blocked (log mode)', {
-          tool: context.toolName,
-          blockWeight: response.should_block_weight,
-          reason: response.reasoning,
+      try {
+        this.addRulesWatcher(dir, false, true);
+      } catch (error) {
+        this.logger.warn('Cannot watch rules directory', {
+          path: dir,
+          error: error instanceof Error ? error.message : String(error),
         });
+      }
+    }
+  }
 
-        return {
-          decision: 'allow',
-          reason: `[LOG MODE] Would block: ${response.reasoning}`,
-          metadata: { ...metadata, blocked_in_strict_mode: true },
-        };
-      } else {
-        // Strict mode: actually block the call
-        this.logger.warn('Tool call blocked', {
-          tool: context.toolName,
-          blockWeight: response.should_block_weight,
-          reason: response.reasoning,
-        });
+  /**
+   * Watch one directory for YAML changes.
+   *
+   * @param perDirectory - Whether each directory has its own watcher, so
+   *   new subdirectories need watchers too
+   * @throws {Error} If the directory cannot be watched
+   */
+  private addRulesWatcher(dir: string, recursive: boolean, perDirectory = false): void {
+    const watcher = watch(dir, { recursive }, (_event, filename) => {
+      if (perDirectory) {
+        this.watchRulesSubdirectories();
+      }
 
-        return {
-          decision: 'deny',
-          reason: response.reasoning,
-          metadata,
-        };
+      const ext = filename ? extname(filename).toLowerCase() : '';
+      if (!filename || ext === '.yaml' || ext === '.yml') {
+        this.scheduleReload('rules');
       }
-    }
+    });
+    watcher.on('error', () => {
+      // The directory was removed
+      watcher.close();
+      this.rulesWatchers.delete(dir);
+    });
+    watcher.unref();
+    this.rulesWatchers.set(dir, watcher);
   }
 
   /**
-   * Handle API failure. In log mode, always allow. In strict mode, block.
+   * Stop watching the rules directory.
    */
-  private handleAPIFailure(reason: string): ValidationResult {
-    if (this.mode === 'log') {
-      this.logger.warn('API unavailable (log mode, allowing)', { reason });
-      return {
-        decision: 'allow',
-        reason: `API unavailable: ${reason}`,
-        metadata: { api_error: true },
-      };
-    } else {
-      this.logger.error('API unavailable (strict mode, blocking)', { reason });
-      return {
-        decision: 'deny',
-        reason: `API unavailable: ${reason}`,
-        metadata: { api_error: true },
-      };
+  private closeRulesWatchers(): void {
+    for (const watcher of this.rulesWatchers.values()) {
+      watcher.close();
     }
+    this.rulesWatchers.clear();
   }
 
   /**
-   * Get or create the kernel client.
+   * Debounce file events into a single reload.
    */
-  private getKernelClient(): KernelClient {
-    if (this.kernelClient) {
-      return this.kernelClient;
+  private scheduleReload(trigger: RulesReloadedEvent['trigger']): void {
+    if (this.pendingTrigger !== 'config') {
+      this.pendingTrigger = trigger;
     }
-
-    if (!this.kernelConfig) {
-      throw new Error('Kernel configuration not available');
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
     }
 
-    this.kernelClient = new KernelClient({
-      config: this.kernelConfig,
-      logger: this.logger,
-    });
+    this.reloadTimer = setTimeout(() => {
+      const pending = this.pendingTrigger ?? trigger;
+      this.reloadTimer = null;
+      this.pendingTrigger = null;
 
-    return this.kernelClient;
+      if (pending === 'config') {
+        this.reloadConfig();
+      } else {
+        this.reload(pending);
+      }
+    }, WATCH_DEBOUNCE_MS);
+    this.reloadTimer.unref();
   }
 
   /**
-   * Validate a tool call with the local kernel model.
+   * Re-read the rules location and tags from veto.config.yaml (with the
+   * active profile applied), then reload rules.
+   *
+   * Other settings in the config file only take effect on restart. If the
+   * config file fails to parse, the current rules are kept.
    */
-  private async validateWithKernel(context: ValidationContext): Promise<ValidationResult> {
-    const rules = this.getRulesForTool(context.toolName);
+  private reloadConfig(): void {
+    const configPath = join(resolve(this.configDir), 'veto.config.yaml');
+    let config: VetoConfigFile = {};
 
-    // If no rules, allow by default
-    if (rules.length === 0) {
-      this.logger.debug('No rules for tool, allowing', { tool: context.toolName });
-      return { decision: 'allow' };
+    try {
+      if (existsSync(configPath)) {
+        config = readConfigFile(configPath, this.profile);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Failed to reload config, keeping current rules',
+        { path: configPath },
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return;
     }
 
-    const toolCall: KernelToolCall = {
-      tool: context.toolName,
-      arguments: context.arguments,
-    };
+    const rulesDir = resolve(this.configDir, config.rules?.directory ?? './rules');
+    const recursive = config.rules?.recursive ?? true;
+    this.ruleTags = config.rules?.tags;
 
-    try {
-      const kernelClient = this.getKernelClient();
-      const response = await kernelClient.evaluate(toolCall, rules);
+    if (rulesDir !== this.rulesDir || recursive !== this.rulesRecursive) {
+      this.rulesDir = rulesDir;
+      this.rulesRecursive = recursive;
 
-      return this.handleKernelResponse(response, context);
-    } catch (error) {
-      const reason = error instanceof Error ? error.message : String(error);
-      return this.handleKernelFailure(reason);
+      // Re-point the rules watcher at the new location
+      if (this.configWatcher) {
+        this.closeRulesWatchers();
+        this.watchRulesDir();
+      }
     }
+
+    this.reload('config');
   }
 
   /**
-   * Handle successful kernel response.
+   * Reload all rule files and swap in the new rules atomically.
    */
-  private handleKernelResponse(
-    response: import('../kernel/types.js').KernelResponse,
-    context: ValidationContext
-  ): ValidationResult {
-    const metadata = {
-      pass_weight: response.pass_weight,
-      block_weight: response.block_weight,
-      matched_rules: response.matched_rules,
+  private reload(trigger: RulesReloadedEvent['trigger']): RulesReloadedEvent {
+    const previous = this.rules;
+    const { state, errors, issues } = Veto.loadRules(
+      this.rulesDir,
+      this.rulesRecursive,
+      this.ruleTags,
+      this.logger,
+      previous.files
+    );
+
+    // In strict mode, a reload with schema problems is rejected as a whole
+    const applied = !(this.strictRules && issues.length > 0);
+    if (applied) {
+      this.rules = state;
+    }
+
+    const event: RulesReloadedEvent = {
+      trigger,
+      ...(applied
+        ? Veto.diffRules(previous.allRules, state.allRules)
+        : { added: [], removed: [], changed: [] }),
+      total: this.rules.allRules.length,
+      errors,
+      issues,
+      applied,
     };
 
-    if (response.decision === 'pass') {
-      this.logger.debug('Kernel allowed tool call', {
-        tool: context.toolName,
-        passWeight: response.pass_weight,
+    if (applied) {
+      this.logger.info('Rules reloaded', {
+        trigger,
+        added: event.added,
+        removed: event.removed,
+        changed: event.changed,
+        errors: errors.length,
       });
-
-      return {
-        decision: 'allow',
-        reason: response.reasoning,
-        metadata,
-      };
     } else {
-      // Kernel returned block decision
-      if (this.mode === 'log') {
-        // Log mode: log the block but allow the call
-        this.logger.warn('Tool call would be blocked (log mode)', {
-          tool: context.toolName,
-          blockWeight: response.block_weight,
-          reason: response.reasoning,
-        });
+      this.logger.error('Rules reload rejected, keeping current rules', {
+        trigger,
+        issues: issues.length,
+      });
+    }
 
-        return {
-          decision: 'allow',
-          reason: `[LOG MODE] Would block: ${response.reasoning}`,
-          metadata: { ...metadata, blocked_in_strict_mode: true },
-        };
-      } else {
-        // Strict mode: actually block the call
-        this.logger.warn('Tool call blocked by kernel', {
-          tool: context.toolName,
-          blockWeight: response.block_weight,
-          reason: response.reasoning,
+    for (const listener of this.rulesReloadedListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.warn('rulesReloaded listener threw an error', {
+          error: error instanceof Error ? error.message : String(error),
         });
-
-        return {
-          decision: 'deny',
-          reason: response.reasoning,
-          metadata,
-        };
       }
     }
+
+    return event;
+  }
+
+  /**
+   * Get all rules applicable to a tool.
+   */
+  private getAllRulesForTool(toolName: string): Rule[] {
+    const toolSpecific = this.rules.rulesByTool.get(toolName) ?? [];
+    return [...this.rules.globalRules, ...toolSpecific];
+  }
+
+  /**
+   * Get the decision rules applicable to a tool.
+   *
+   * Rules with action "modify" are excluded; they rewrite arguments
+   * before any decision is made (see `rewriteArguments`). Rate-limit rules
+   * are excluded too; the interceptor enforces them from the call history.
+   */
+  private getRulesForTool(toolName: string): Rule[] {
+    return this.getAllRulesForTool(toolName).filter(
+      (rule) => rule.action !== 'modify' && !rule.rate_limit
+    );
+  }
+
+  /**
+   * Describe the configured validation mode.
+   */
+  private describeValidationMode(): string {
+    switch (this.validationMode) {
+      case 'kernel':
+        return 'Validates tool calls via local kernel model';
+      case 'local':
+        return 'Validates tool calls via deterministic rule conditions';
+      case 'hybrid':
+        return `Validates tool calls via deterministic rule conditions, then ${this.remoteBackend}`;
+      case 'api':
+        return 'Validates tool calls via external API';
+      case 'ensemble':
+        return 'Validates tool calls via an ensemble of backends';
+      default:
+        return `Validates tool calls via ${this.validationMode} backend`;
+    }
   }
 
   /**
-   * Handle kernel failure. In log mode, always allow. In strict mode, block.
+   * Validate a tool call against the loaded rules.
+   *
+   * Matching "modify" rules rewrite the arguments first; the rewritten call
+   * is then validated, and an allow becomes a "modify" decision. In log
+   * mode the rewrite is only logged and the original call is validated.
    */
-  private handleKernelFailure(reason: string): ValidationResult {
+  private async validateWithRules(context: ValidationContext): Promise<ValidationResult> {
+    const rewrite = this.rewriteArguments(context);
+    if (!rewrite) {
+      return this.validateWithBackend(context);
+    }
+
     if (this.mode === 'log') {
-      this.logger.warn('Kernel unavailable (log mode, allowing)', { reason });
-      return {
-        decision: 'allow',
-        reason: `Kernel unavailable: ${reason}`,
-        metadata: { kernel_error: true },
-      };
-    } else {
-      this.logger.error('Kernel unavailable (strict mode, blocking)', { reason });
+      this.logger.info('Tool call arguments would be rewritten by rules (log mode)', {
+        tool: context.toolName,
+        rules: rewrite.ruleIds,
+        fields: rewrite.changedFields,
+      });
+      const result = await this.validateWithBackend(context);
       return {
-        decision: 'deny',
-        reason: `Kernel unavailable: ${reason}`,
-        metadata: { kernel_error: true },
+        ...result,
+        metadata: { ...result.metadata, modify_skipped: rewrite.ruleIds },
       };
     }
+
+    const result = await this.validateWithBackend({ ...context, arguments: rewrite.arguments });
+    if (result.decision !== 'allow') {
+      return result;
+    }
+
+    this.logger.info('Tool call arguments rewritten by rules', {
+      tool: context.toolName,
+      rules: rewrite.ruleIds,
+      fields: rewrite.changedFields,
+    });
+
+    return {
+      ...result,
+      decision: 'modify',
+      modifiedArguments: rewrite.arguments,
+      metadata: {
+        ...result.metadata,
+        modified_by: rewrite.ruleIds,
+        modified_fields: rewrite.changedFields,
+      },
+    };
   }
 
   /**
-   * Build history summary for API.
+   * Apply the transforms of matching "modify" rules to the arguments.
+   *
+   * Modify rules without conditions always apply.
+   *
+   * @returns The rewritten arguments, or null if nothing changed
+   * @throws {TransformError} If a transform is malformed
    */
-  private buildHistorySummary(
-    history: readonly import('../types/config.js').ToolCallHistoryEntry[]
-  ): ToolCallHistorySummary[] {
-    return history.slice(-10).map((entry) => ({
-      tool_name: entry.toolName,
-      allowed: entry.validationResult.decision !== 'deny',
-      timestamp: entry.timestamp.toISOString(),
-    }));
+  private rewriteArguments(context: ValidationContext): {
+    arguments: Record<string, unknown>;
+    ruleIds: string[];
+    changedFields: string[];
+  } | null {
+    const rewriteRules = this.getAllRulesForTool(context.toolName)
+      .filter((rule) => rule.action === 'modify' && rule.transforms?.length);
+
+    if (rewriteRules.length === 0) {
+      return null;
+    }
+
+    const target = buildEvaluationTarget(context);
+    let args = context.arguments;
+    const ruleIds: string[] = [];
+    const changedFields = new Set<string>();
+
+    for (const rule of rewriteRules) {
+      if (hasConditions(rule) && !evaluateRule(rule, target)) continue;
+
+      const result = applyTransforms(args, rule.transforms ?? []);
+      if (result.changedFields.length === 0) continue;
+
+      args = result.arguments;
+      ruleIds.push(rule.id);
+      result.changedFields.forEach((field) => changedFields.add(field));
+    }
+
+    if (ruleIds.length === 0) {
+      return null;
+    }
+
+    return { arguments: args, ruleIds, changedFields: [...changedFields] };
   }
 
   /**
-   * Delay helper.
+   * Validate a tool call using the configured validation mode.
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private validateWithBackend(context: ValidationContext): Promise<ValidationResult> {
+    return this.pipeline.validate(context, this.getRulesForTool(context.toolName));
   }
 
   /**
@@ -806,51 +1046,7 @@ export class Veto {
    * ```
    */
   wrapTools(tools: readonly ToolDefinition[]): WrappedTools {
-    const definitions: ToolDefinition[] = [];
-    const implementations: Record<string, WrappedHandler> = {};
-
-    for (const tool of tools) {
-      this.registeredTools.set(tool.name, tool);
-
-      // Extract definition (without handler)
-      const { handler: _, ...definition } = tool as ToolDefinition & { handler?: unknown };
-      definitions.push(definition as ToolDefinition);
-
-      if (isExecutableTool(tool)) {
-        // Wrap the handler with automatic validation
-        const originalHandler = tool.handler;
-        const wrappedHandler: WrappedHandler = async (args: Record<string, unknown>) => {
-          const result = await this.validateToolCall({
-            id: generateToolCallId(),
-            name: tool.name,
-            arguments: args,
-          });
-
-          if (!result.allowed) {
-            throw new ToolCallDeniedError(
-              tool.name,
-              result.originalCall.id || '',
-              result.validationResult
-            );
-          }
-
-          // Execute with potentially modified arguments
-          return originalHandler(result.finalArguments ?? args);
-        };
-
-        implementations[tool.name] = wrappedHandler;
-      }
-    }
-
-    this.logger.info('Tools wrapped', {
-      count: tools.length,
-      names: tools.map((t) => t.name),
-    });
-
-    return {
-      definitions,
-      implementations,
-    };
+    return this.defaultSession.wrapTools(tools);
   }
 
   /**
@@ -860,12 +1056,20 @@ export class Veto {
    * @returns Validation result
    */
   async validateToolCall(call: ToolCall): Promise<InterceptionResult> {
-    const normalizedCall: ToolCall = {
-      ...call,
-      id: call.id || generateToolCallId(),
-    };
+    return this.defaultSession.validateToolCall(call);
+  }
 
-    return this.interceptor.intercept(normalizedCall);
+  /**
+   * Validate several tool calls, such as the calls of one model turn.
+   *
+   * The calls are validated concurrently; with `api.batchEndpoint`
+   * configured, the ones that need the API are sent in one request.
+   *
+   * @param calls - The tool calls to validate
+   * @returns One result per call, in the order of the calls
+   */
+  async validateToolCalls(calls: readonly ToolCall[]): Promise<InterceptionResult[]> {
+    return Promise.all(calls.map((call) => this.validateToolCall(call)));
   }
 
   /**
@@ -876,12 +1080,71 @@ export class Veto {
    * @throws {ToolCallDeniedError} If the call is denied
    */
   async validateToolCallOrThrow(call: ToolCall): Promise<InterceptionResult> {
-    const normalizedCall: ToolCall = {
-      ...call,
-      id: call.id || generateToolCallId(),
-    };
+    return this.defaultSession.validateToolCallOrThrow(call);
+  }
+
+  /**
+   * Get the session with the given ID, creating it if needed.
+   *
+   * A session has its own call history, rate-limit counters and custom
+   * context, and shares the rules and backends of this instance. Options
+   * apply when the session is created. Sessions idle for longer than
+   * `session.idleTimeout`, and the least recently active ones beyond
+   * `session.maxSessions`, are evicted; an evicted session's ID starts a
+   * new session, whose history is loaded from the history store if one is
+   * configured and empty otherwise.
+   *
+   * @param sessionId - Session ID, sent to backends as `session_id`
+   * @param options - Agent ID and custom context of the session
+   * @returns The session handle
+   *
+   * @example
+   * ```typescript
+   * const session = veto.session(req.headers['x-session-id'], {
+   *   agentId: 'support-bot',
+   *   custom: { tenant: 'acme' },
+   * });
+   * const result = await session.validateToolCall(toolCall);
+   * ```
+   */
+  session(sessionId: string, options: SessionOptions = {}): VetoSession {
+    this.evictIdleSessions();
+
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = this.createSession(
+        sessionId,
+        options.agentId ?? this.agentId,
+        options.custom ? { ...this.customContext, ...options.custom } : this.customContext
+      );
+      this.sessions.set(sessionId, session);
+      this.logger.debug('Session created', { sessionId, agentId: session.agentId });
+    }
+    session.touch();
+
+    while (this.sessions.size > this.maxSessions) {
+      this.evictLeastRecentSession();
+    }
 
-    return this.interceptor.interceptOrThrow(normalizedCall);
+    return session;
+  }
+
+  /**
+   * End a session, discarding its in-memory state. History in the history
+   * store is kept; use the session's `clearHistory` first to remove it.
+   *
+   * @returns True if the session existed
+   */
+  endSession(sessionId: string): boolean {
+    return this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Get the number of active sessions created with `session()`.
+   */
+  getSessionCount(): number {
+    this.evictIdleSessions();
+    return this.sessions.size;
   }
 
   /**
@@ -898,6 +1161,50 @@ export class Veto {
     return this.rules.allRules;
   }
 
+  /**
+   * Reload rules from disk now.
+   *
+   * Files that fail to parse keep their last good rules.
+   *
+   * @returns The reload diff, also emitted as a `rulesReloaded` event
+   */
+  reloadRules(): RulesReloadedEvent {
+    return this.reload('manual');
+  }
+
+  /**
+   * Subscribe to rule reloads.
+   */
+  on(event: 'rulesReloaded', listener: (event: RulesReloadedEvent) => void): this {
+    if (event === 'rulesReloaded') {
+      this.rulesReloadedListeners.add(listener);
+    }
+    return this;
+  }
+
+  /**
+   * Unsubscribe from rule reloads.
+   */
+  off(event: 'rulesReloaded', listener: (event: RulesReloadedEvent) => void): this {
+    if (event === 'rulesReloaded') {
+      this.rulesReloadedListeners.delete(listener);
+    }
+    return this;
+  }
+
+  /**
+   * Stop watching rule files.
+   */
+  close(): void {
+    this.configWatcher?.close();
+    this.closeRulesWatchers();
+    this.configWatcher = null;
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+  }
+
   /**
    * Get current operating mode.
    */
@@ -906,24 +1213,125 @@ export class Veto {
   }
 
   /**
-   * Get current validation mode (api or kernel).
+   * Get current validation mode (api, kernel, local or hybrid).
    */
   getValidationMode(): ValidationMode {
     return this.validationMode;
   }
 
+  /**
+   * Get the health of the decision backends.
+   *
+   * A backend whose circuit is open is known to be down: calls that need it
+   * get the fail mode immediately until its next trial call.
+   */
+  getHealth(): ValidationHealth {
+    return this.pipeline.getHealth();
+  }
+
   /**
    * Get history statistics.
    */
-  getHistoryStats(): HistoryStats {
-    return this.historyTracker.getStats();
+  async getHistoryStats(): Promise<HistoryStats> {
+    return this.defaultSession.getHistoryStats();
+  }
+
+  /**
+   * Clear call history, including stored history.
+   */
+  async clearHistory(): Promise<void> {
+    await this.defaultSession.clearHistory();
   }
 
   /**
-   * Clear call history.
+   * Create a session with its own history, rate limiter and interceptor.
    */
-  clearHistory(): void {
-    this.historyTracker.clear();
+  private createSession(
+    sessionId: string | undefined,
+    agentId: string | undefined,
+    customContext: Record<string, unknown> | undefined
+  ): VetoSession {
+    const historyTracker = new HistoryTracker({
+      maxSize: this.historySize,
+      logger: this.logger,
+      store: this.historyStore,
+      sessionId,
+      retention: () => this.historyRetention(),
+    });
+
+    return new VetoSession({
+      sessionId,
+      agentId,
+      historyTracker,
+      logger: this.logger,
+      interceptor: new Interceptor({
+        logger: this.logger,
+        validationEngine: this.validationEngine,
+        historyTracker,
+        rateLimiter: new RateLimiter({
+          logger: this.logger,
+          mode: this.mode,
+          getRules: (toolName) =>
+            this.getAllRulesForTool(toolName).filter((rule) => rule.rate_limit),
+        }),
+        customContext,
+        sessionId,
+        agentId,
+        onWarning: this.onWarning,
+        approval: this.approval,
+      }),
+      onWrap: (tool) => this.registeredTools.set(tool.name, tool),
+    });
+  }
+
+  /**
+   * Get how long history must be kept for the loaded rules: the longest
+   * rate-limit window or sequence `within`, so limits above the history
+   * size are still enforced.
+   */
+  private historyRetention(): number {
+    if (this.retentionCache?.rules !== this.rules) {
+      let retention = 0;
+      for (const rule of this.rules.allRules) {
+        const windows = [rule.rate_limit?.window, ...(rule.sequence ?? []).map((c) => c.within)];
+        for (const window of windows) {
+          retention = Math.max(retention, parseDuration(window) ?? 0);
+        }
+      }
+      this.retentionCache = { rules: this.rules, retention };
+    }
+    return this.retentionCache.retention;
+  }
+
+  /**
+   * Evict the session that was active least recently.
+   */
+  private evictLeastRecentSession(): void {
+    let oldest: [string, number] | null = null;
+    for (const [sessionId, session] of this.sessions) {
+      const lastActivity = session.getLastActivity().getTime();
+      if (!oldest || lastActivity < oldest[1]) {
+        oldest = [sessionId, lastActivity];
+      }
+    }
+
+    if (oldest) {
+      this.sessions.delete(oldest[0]);
+      this.logger.debug('Session evicted', { sessionId: oldest[0], reason: 'max_sessions' });
+    }
+  }
+
+  /**
+   * Evict sessions that have been idle for longer than the idle timeout.
+   */
+  private evictIdleSessions(): void {
+    const cutoff = Date.now() - this.sessionIdleTimeout;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.getLastActivity().getTime() < cutoff) {
+        this.sessions.delete(sessionId);
+        this.logger.debug('Session evicted', { sessionId, reason: 'idle' });
+      }
+    }
   }
 }
 
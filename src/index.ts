@@ -38,9 +38,45 @@ export {
   ToolCallDeniedError,
   type VetoOptions,
   type VetoMode,
+  type ValidationMode,
+  type RemoteBackend,
+  type ValidationHealth,
+  type RulesReloadedEvent,
+  type RuleFileError,
   type WrappedTools,
   type WrappedHandler,
+  type SessionOptions,
 } from './core/veto.js';
+export { VetoSession } from './core/session.js';
+
+// Decision backends
+export {
+  APIBackend,
+  KernelBackend,
+  LocalBackend,
+  EnsembleBackend,
+  CircuitBreakerBackend,
+  CircuitOpenError,
+  createAPIBackend,
+  createKernelBackend,
+  createLocalBackend,
+  createEnsembleBackend,
+  createCircuitBreakerBackend,
+} from './backends/index.js';
+
+export type {
+  DecisionBackend,
+  BackendDecision,
+  APIBackendOptions,
+  KernelBackendOptions,
+  LocalBackendOptions,
+  EnsembleBackendOptions,
+  EnsembleStrategy,
+  CircuitBreakerOptions,
+  CircuitBreakerBackendOptions,
+  CircuitState,
+  BackendHealth,
+} from './backends/index.js';
 
 // Core types
 export type {
@@ -58,6 +94,9 @@ export type {
   LogLevel,
   ValidationDecision,
   ValidationResult,
+  BackendResult,
+  ValidationWarning,
+  ApprovalRequirement,
   ValidationContext,
   Validator,
   NamedValidator,
@@ -68,16 +107,59 @@ export type {
 export type {
   Rule,
   RuleSet,
+  RuleOverride,
   RuleCondition,
+  SequenceCondition,
   RuleAction,
   RuleSeverity,
+  RateLimit,
+  ArgumentTransform,
+  ToolCallContext,
+  ToolCallHistorySummary,
   ValidationAPIResponse,
 } from './rules/types.js';
 
+// Rule schema validation
+export { RuleSchemaError } from './rules/schema.js';
+export type { RuleSchemaIssue } from './rules/schema.js';
+export { RuleInheritanceError } from './rules/inheritance.js';
+
+// Config interpolation and API authentication
+export { EnvInterpolationError } from './utils/env.js';
+export type { APIAuthConfig, HMACAuthConfig } from './utils/auth.js';
+
 // Interception result
 export type { InterceptionResult } from './core/interceptor.js';
 export type { HistoryStats } from './core/history.js';
 
+// Call history storage
+export {
+  InMemoryHistoryStore,
+  JsonlHistoryStore,
+  createInMemoryHistoryStore,
+  createJsonlHistoryStore,
+  type HistoryStore,
+  type InMemoryHistoryStoreOptions,
+  type JsonlHistoryStoreOptions,
+} from './core/history-store.js';
+
+// Human-in-the-loop approval
+export {
+  createCallbackApprovalProvider,
+  createCLIApprovalProvider,
+  createWebhookApprovalProvider,
+  ApprovalTimeoutError,
+} from './approval/index.js';
+
+export type {
+  ApprovalProvider,
+  ApprovalRequest,
+  ApprovalResponse,
+  ApprovalOptions,
+  ApprovalOutcome,
+  ApprovalDefaultAnswer,
+} from './approval/index.js';
+
 // Provider adapters (for converting to/from provider formats)
 export {
   toOpenAI,
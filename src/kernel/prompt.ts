@@ -7,7 +7,7 @@
  * @module kernel/prompt
  */
 
-import type { Rule, RuleCondition } from '../rules/types.js';
+import type { Rule, RuleCondition, ToolCallHistorySummary } from '../rules/types.js';
 import type { KernelToolCall } from './types.js';
 
 /**
@@ -86,6 +86,27 @@ export function formatToolCall(toolCall: KernelToolCall): string {
   return lines.join('\n');
 }
 
+/**
+ * Format the most recent earlier calls for the kernel prompt.
+ */
+export function formatHistory(history: readonly ToolCallHistorySummary[]): string {
+  const lines: string[] = ['RECENT CALLS (oldest first):'];
+
+  for (const entry of history) {
+    lines.push(`- tool: ${entry.tool_name}`);
+    lines.push(`  decision: ${entry.decision ?? (entry.allowed ? 'allow' : 'deny')}`);
+    lines.push(`  timestamp: ${entry.timestamp}`);
+    if (entry.reason) {
+      lines.push(`  reason: ${formatValue(entry.reason)}`);
+    }
+    if (entry.arguments && Object.keys(entry.arguments).length > 0) {
+      lines.push(`  arguments:${formatValue(entry.arguments, 2)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format a single condition.
  */
@@ -131,6 +152,28 @@ export function formatRules(rules: Rule[]): string {
         }
       }
     }
+
+    if (rule.sequence && rule.sequence.length > 0) {
+      lines.push('  sequence:');
+      for (const sequence of rule.sequence) {
+        lines.push(`    - operator: ${sequence.operator}`);
+        if (sequence.tools && sequence.tools.length > 0) {
+          lines.push(`      tools: [${sequence.tools.join(', ')}]`);
+        }
+        if (sequence.within_calls !== undefined) {
+          lines.push(`      within_calls: ${sequence.within_calls}`);
+        }
+        if (sequence.within !== undefined) {
+          lines.push(`      within: ${sequence.within}`);
+        }
+        if (sequence.conditions && sequence.conditions.length > 0) {
+          lines.push('      conditions:');
+          for (const condition of sequence.conditions) {
+            lines.push(formatCondition(condition, '        '));
+          }
+        }
+      }
+    }
   }
   
   return lines.join('\n');
@@ -138,10 +181,16 @@ export function formatRules(rules: Rule[]): string {
 
 /**
  * Build the complete user prompt for kernel inference.
+ *
+ * The recent calls section is only included when the tool call has history.
  */
 export function buildPrompt(toolCall: KernelToolCall, rules: Rule[]): string {
   const toolCallSection = formatToolCall(toolCall);
   const rulesSection = formatRules(rules);
-  
+
+  if (toolCall.history && toolCall.history.length > 0) {
+    return `${toolCallSection}\n\n${formatHistory(toolCall.history)}\n\n${rulesSection}`;
+  }
+
   return `${toolCallSection}\n\n${rulesSection}`;
 }
@@ -7,6 +7,8 @@
  * @module kernel/types
  */
 
+import type { ToolCallHistorySummary } from '../rules/types.js';
+
 /**
  * Configuration for the Veto kernel.
  */
@@ -42,6 +44,8 @@ export interface KernelToolCall {
   tool: string;
   /** Tool arguments */
   arguments: Record<string, unknown>;
+  /** Most recent earlier calls, oldest first */
+  history?: ToolCallHistorySummary[];
 }
 
 /**
@@ -8,9 +8,11 @@
  */
 
 import type { Logger } from '../utils/logger.js';
+import { buildAuthHeaders, type APIAuthConfig } from '../utils/auth.js';
 import type {
   Rule,
   ToolCallContext,
+  ValidationAPIBatchRequest,
   ValidationAPIRequest,
   ValidationAPIResponse,
 } from './types.js';
@@ -23,16 +25,26 @@ export interface ValidationAPIConfig {
   baseUrl: string;
   /** Endpoint path for tool call validation */
   endpoint?: string;
+  /** Endpoint path for validating several tool calls at once (default: none) */
+  batchEndpoint?: string;
+  /** Milliseconds to collect calls for a batch request (default: 10) */
+  batchWindow?: number;
+  /** Maximum number of calls per batch request (default: 50) */
+  batchMaxSize?: number;
   /** Request timeout in milliseconds */
   timeout?: number;
   /** Additional headers to include in requests */
   headers?: Record<string, string>;
   /** API key for authentication (sent as Authorization: Bearer header) */
   apiKey?: string;
+  /** Bearer token, custom headers and HMAC signing (takes precedence over apiKey) */
+  auth?: APIAuthConfig;
   /** Number of retries on failure */
   retries?: number;
-  /** Delay between retries in milliseconds */
+  /** Delay before the first retry in milliseconds, doubled for each further retry */
   retryDelay?: number;
+  /** Maximum delay between retries in milliseconds */
+  maxRetryDelay?: number;
 }
 
 /**
@@ -41,11 +53,14 @@ export interface ValidationAPIConfig {
 interface ResolvedAPIConfig {
   baseUrl: string;
   endpoint: string;
+  batchEndpoint?: string;
   timeout: number;
   headers: Record<string, string>;
   apiKey?: string;
+  auth?: APIAuthConfig;
   retries: number;
   retryDelay: number;
+  maxRetryDelay: number;
 }
 
 /**
@@ -99,6 +114,9 @@ export class ValidationAPIClient {
   /**
    * Validate a tool call against the rules.
    *
+   * If the API stays unavailable after all retries, a decision is made
+   * according to the fail mode.
+   *
    * @param context - Tool call context
    * @param rules - Applicable rules
    * @returns Validation response
@@ -106,6 +124,25 @@ export class ValidationAPIClient {
   async validate(
     context: ToolCallContext,
     rules: Rule[]
+  ): Promise<ValidationAPIResponse> {
+    try {
+      return await this.request(context, rules);
+    } catch (error) {
+      return this.getFailModeResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Ask the API for a decision, retrying on failure.
+   *
+   * @param context - Tool call context
+   * @param rules - Applicable rules
+   * @returns Validation response
+   * @throws {ValidationAPIError} If every attempt fails
+   */
+  async request(
+    context: ToolCallContext,
+    rules: Rule[]
   ): Promise<ValidationAPIResponse> {
     const request: ValidationAPIRequest = {
       context,
@@ -121,47 +158,55 @@ export class ValidationAPIClient {
       ruleCount: rules.length,
     });
 
-    let lastError: Error | undefined;
+    const response = await this.withRetries(
+      () => this.post(url, request).then((data) => this.parseResponse(data)),
+      { url, callId: context.call_id }
+    );
 
-    for (let attempt = 0; attempt <= this.config.retries; attempt++) {
-      try {
-        const response = await this.makeRequest(url, request);
+    this.logger.debug('Received validation response', {
+      callId: context.call_id,
+      decision: response.decision,
+      shouldPassWeight: response.should_pass_weight,
+      shouldBlockWeight: response.should_block_weight,
+    });
 
-        this.logger.debug('Received validation response', {
-          callId: context.call_id,
-          decision: response.decision,
-          shouldPassWeight: response.should_pass_weight,
-          shouldBlockWeight: response.should_block_weight,
-        });
+    return response;
+  }
 
-        return response;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+  /**
+   * Whether a batch endpoint is configured.
+   */
+  get supportsBatch(): boolean {
+    return this.config.batchEndpoint !== undefined;
+  }
 
-        if (attempt < this.config.retries) {
-          this.logger.warn('Validation request failed, retrying', {
-            attempt: attempt + 1,
-            maxRetries: this.config.retries,
-            error: lastError.message,
-          });
-          await this.delay(this.config.retryDelay);
-        }
-      }
+  /**
+   * Ask the batch endpoint for decisions on several tool calls in one
+   * round trip, retrying on failure.
+   *
+   * @param items - Tool call contexts with their applicable rules
+   * @returns One response per item, in the same order
+   * @throws {ValidationAPIError} If no batch endpoint is configured, or every attempt fails
+   */
+  async requestBatch(
+    items: ReadonlyArray<{ context: ToolCallContext; rules: Rule[] }>
+  ): Promise<ValidationAPIResponse[]> {
+    if (!this.config.batchEndpoint) {
+      throw new ValidationAPIError('No batch endpoint configured');
     }
 
-    // All retries exhausted
-    this.logger.error(
-      'Validation API request failed after all retries',
-      {
-        url,
-        callId: context.call_id,
-        retries: this.config.retries,
-      },
-      lastError
-    );
+    const request: ValidationAPIBatchRequest = {
+      contexts: items.map((item) => item.context),
+      rules: items.map((item) => item.rules),
+    };
+    const url = `${this.config.baseUrl}${this.config.batchEndpoint}`;
+
+    this.logger.debug('Sending batch validation request', { url, size: items.length });
 
-    // Return based on fail mode
-    return this.getFailModeResponse(lastError?.message ?? 'API unavailable');
+    return this.withRetries(
+      () => this.post(url, request).then((data) => this.parseBatchResponse(data, items.length)),
+      { url, size: items.length }
+    );
   }
 
   /**
@@ -176,7 +221,7 @@ export class ValidationAPIClient {
 
       const response = await fetch(`${this.config.baseUrl}/health`, {
         method: 'GET',
-        headers: this.buildHeaders(),
+        headers: this.buildHeaders(''),
         signal: controller.signal,
       });
 
@@ -187,21 +232,62 @@ export class ValidationAPIClient {
     }
   }
 
+  /**
+   * Run a request, retrying with backoff on failure.
+   *
+   * @throws The last error if every attempt fails
+   */
+  private async withRetries<T>(
+    attemptRequest: () => Promise<T>,
+    logContext: Record<string, unknown>
+  ): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 0; attempt <= this.config.retries; attempt++) {
+      try {
+        return await attemptRequest();
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (attempt < this.config.retries) {
+          this.logger.warn('Validation request failed, retrying', {
+            attempt: attempt + 1,
+            maxRetries: this.config.retries,
+            error: lastError.message,
+          });
+          await this.delay(this.backoff(attempt));
+        }
+      }
+    }
+
+    // All retries exhausted
+    this.logger.error(
+      'Validation API request failed after all retries',
+      { ...logContext, retries: this.config.retries },
+      lastError
+    );
+
+    throw lastError ?? new ValidationAPIError('API unavailable');
+  }
+
   /**
    * Make the actual HTTP request.
+   *
+   * @returns The parsed JSON response body
    */
-  private async makeRequest(
+  private async post(
     url: string,
-    request: ValidationAPIRequest
-  ): Promise<ValidationAPIResponse> {
+    request: ValidationAPIRequest | ValidationAPIBatchRequest
+  ): Promise<unknown> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
     try {
+      const body = JSON.stringify(request);
       const response = await fetch(url, {
         method: 'POST',
-        headers: this.buildHeaders(),
-        body: JSON.stringify(request),
+        headers: this.buildHeaders(body),
+        body,
         signal: controller.signal,
       });
 
@@ -216,8 +302,7 @@ export class ValidationAPIClient {
         );
       }
 
-      const data = await response.json();
-      return this.parseResponse(data);
+      return await response.json();
     } catch (error) {
       clearTimeout(timeoutId);
 
@@ -236,9 +321,9 @@ export class ValidationAPIClient {
   }
 
   /**
-   * Build request headers.
+   * Build request headers, signing the body if HMAC auth is configured.
    */
-  private buildHeaders(): Record<string, string> {
+  private buildHeaders(body: string): Record<string, string> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       ...this.config.headers,
@@ -248,7 +333,19 @@ export class ValidationAPIClient {
       headers['Authorization'] = `Bearer ${this.config.apiKey}`;
     }
 
-    return headers;
+    return { ...headers, ...buildAuthHeaders(this.config.auth, body) };
+  }
+
+  /**
+   * Parse and validate a batch response.
+   */
+  private parseBatchResponse(data: unknown, size: number): ValidationAPIResponse[] {
+    const results = (data as { results?: unknown } | null)?.results;
+    if (!Array.isArray(results) || results.length !== size) {
+      throw new ValidationAPIError(`Batch response must contain ${size} results`);
+    }
+
+    return results.map((result) => this.parseResponse(result));
   }
 
   /**
@@ -315,14 +412,29 @@ export class ValidationAPIClient {
     return {
       baseUrl: config.baseUrl.replace(/\/$/, ''), // Remove trailing slash
       endpoint: config.endpoint ?? '/tool/call/check',
+      batchEndpoint: config.batchEndpoint,
       timeout: config.timeout ?? 10000,
       headers: config.headers ?? {},
       apiKey: config.apiKey,
+      auth: config.auth,
       retries: config.retries ?? 2,
       retryDelay: config.retryDelay ?? 1000,
+      maxRetryDelay: config.maxRetryDelay ?? 30000,
     };
   }
 
+  /**
+   * Delay before the given retry: exponential backoff, capped at
+   * `maxRetryDelay`, with jitter over the upper half so concurrent
+   * clients do not retry in lockstep.
+   *
+   * @param attempt - Zero-based number of the failed attempt
+   */
+  private backoff(attempt: number): number {
+    const delay = Math.min(this.config.maxRetryDelay, this.config.retryDelay * 2 ** attempt);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
   /**
    * Delay for the specified milliseconds.
    */
@@ -0,0 +1,365 @@
+/**
+ * Deterministic rule condition evaluator.
+ *
+ * Evaluates rule conditions locally against a tool call, without
+ * involving the validation API or the kernel model. Rules without any
+ * conditions cannot be decided locally and are reported as unevaluated.
+ *
+ * @module rules/evaluator
+ */
+
+import type { ToolCallHistoryEntry, ValidationContext } from '../types/config.js';
+import type { Rule, RuleAction, RuleCondition, SequenceCondition } from './types.js';
+import { parseDuration } from '../utils/duration.js';
+
+/**
+ * Data that rule condition fields are resolved against.
+ *
+ * Fields use dot notation relative to this object, e.g. "arguments.path"
+ * or "context.call_count_last_minute".
+ */
+export interface RuleEvaluationTarget {
+  /** Name of the tool being called */
+  tool_name: string;
+  /** Arguments passed to the tool */
+  arguments: Record<string, unknown>;
+  /** Custom context data */
+  context: Record<string, unknown>;
+  /** Earlier calls, oldest first, for sequence conditions (default: none) */
+  history?: readonly ToolCallHistoryEntry[];
+}
+
+/**
+ * Result of evaluating a set of rules locally.
+ */
+export interface RuleEvaluationResult {
+  /** Rules whose conditions matched the tool call */
+  matchedRules: Rule[];
+  /** Rules without conditions, which only a model can judge */
+  unevaluatedRules: Rule[];
+  /** Rules whose conditions could not be evaluated (e.g. invalid regex) */
+  errors: Array<{ ruleId: string; message: string }>;
+  /** Strongest action among the matched rules, or null if none matched */
+  action: RuleAction | null;
+}
+
+/**
+ * Error thrown when a condition cannot be evaluated.
+ */
+export class RuleEvaluationError extends Error {
+  readonly condition: RuleCondition | SequenceCondition;
+
+  constructor(message: string, condition: RuleCondition | SequenceCondition) {
+    super(message);
+    this.name = 'RuleEvaluationError';
+    this.condition = condition;
+  }
+}
+
+/**
+ * Precedence of rule actions when several rules match (higher wins).
+ */
+export const ACTION_PRECEDENCE: Record<RuleAction, number> = {
+  allow: 0,
+  log: 1,
+  warn: 2,
+  modify: 3,
+  require_approval: 4,
+  block: 5,
+};
+
+/**
+ * Compiled regexes keyed by pattern source.
+ */
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Build the evaluation target from a validation context.
+ */
+export function buildEvaluationTarget(context: ValidationContext): RuleEvaluationTarget {
+  return {
+    tool_name: context.toolName,
+    arguments: context.arguments,
+    context: context.custom ?? {},
+    history: context.callHistory,
+  };
+}
+
+/**
+ * Resolve a dot-notation field path against an object.
+ *
+ * Array elements can be addressed by index, e.g. "arguments.files.0".
+ *
+ * @returns The value at the path, or undefined if any segment is missing
+ */
+export function resolveFieldPath(target: unknown, path: string): unknown {
+  let current: unknown = target;
+
+  for (const segment of path.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Check whether a rule can be decided locally.
+ */
+export function hasConditions(rule: Rule): boolean {
+  return (
+    (rule.conditions !== undefined && rule.conditions.length > 0) ||
+    (rule.condition_groups !== undefined && rule.condition_groups.length > 0) ||
+    (rule.sequence !== undefined && rule.sequence.length > 0)
+  );
+}
+
+/**
+ * Evaluate a single condition against the target.
+ *
+ * A missing field never satisfies a positive operator, and therefore
+ * always satisfies its negated counterpart (e.g. `not_equals`).
+ *
+ * @throws {RuleEvaluationError} If the condition is malformed
+ */
+export function evaluateCondition(
+  condition: RuleCondition,
+  target: RuleEvaluationTarget
+): boolean {
+  const actual = resolveFieldPath(target, condition.field);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return valuesEqual(actual, expected);
+    case 'not_equals':
+      return !valuesEqual(actual, expected);
+    case 'contains':
+      return containsValue(actual, expected);
+    case 'not_contains':
+      return !containsValue(actual, expected);
+    case 'starts_with':
+      return typeof actual === 'string' && actual.startsWith(String(expected));
+    case 'ends_with':
+      return typeof actual === 'string' && actual.endsWith(String(expected));
+    case 'matches':
+      return typeof actual === 'string' && compileRegex(condition).test(actual);
+    case 'greater_than':
+      return compareNumbers(actual, expected, (a, b) => a > b);
+    case 'less_than':
+      return compareNumbers(actual, expected, (a, b) => a < b);
+    case 'in':
+      return inList(actual, condition);
+    case 'not_in':
+      return !inList(actual, condition);
+    default:
+      throw new RuleEvaluationError(
+        `Unknown operator: ${String(condition.operator)}`,
+        condition
+      );
+  }
+}
+
+/**
+ * Evaluate all conditions of a rule.
+ *
+ * `conditions` must all match (AND). If `condition_groups` are present,
+ * at least one group must also match in full (OR between groups). All
+ * `sequence` conditions must match the call history as well.
+ *
+ * @returns True if the rule matches; false for rules without conditions
+ */
+export function evaluateRule(rule: Rule, target: RuleEvaluationTarget): boolean {
+  if (!hasConditions(rule)) {
+    return false;
+  }
+
+  const conditions = rule.conditions ?? [];
+  if (!conditions.every((condition) => evaluateCondition(condition, target))) {
+    return false;
+  }
+
+  const groups = rule.condition_groups ?? [];
+  if (
+    groups.length > 0 &&
+    !groups.some((group) => group.every((condition) => evaluateCondition(condition, target)))
+  ) {
+    return false;
+  }
+
+  return (rule.sequence ?? []).every((condition) => evaluateSequence(condition, target));
+}
+
+/**
+ * Evaluate a sequence condition against the earlier calls in the target.
+ *
+ * Earlier calls are matched with the current call's custom context.
+ *
+ * @throws {RuleEvaluationError} If a condition on the earlier call is malformed
+ */
+export function evaluateSequence(
+  sequence: SequenceCondition,
+  target: RuleEvaluationTarget
+): boolean {
+  let history = target.history ?? [];
+  if (sequence.within_calls !== undefined) {
+    history = sequence.within_calls > 0 ? history.slice(-sequence.within_calls) : [];
+  }
+
+  const within = parseDuration(sequence.within);
+  const since = within === null ? -Infinity : Date.now() - within;
+
+  const found = history.some((entry) =>
+    entry.validationResult.decision !== 'deny' &&
+    entry.timestamp.getTime() >= since &&
+    (!sequence.tools?.length || sequence.tools.includes(entry.toolName)) &&
+    (sequence.conditions ?? []).every((condition) =>
+      evaluateCondition(condition, {
+        tool_name: entry.toolName,
+        arguments: entry.arguments,
+        context: target.context,
+      })
+    )
+  );
+
+  switch (sequence.operator) {
+    case 'preceded_by':
+      return found;
+    case 'not_preceded_by':
+      return !found;
+    default:
+      throw new RuleEvaluationError(
+        `Unknown sequence operator: ${String(sequence.operator)}`,
+        sequence
+      );
+  }
+}
+
+/**
+ * Evaluate a list of rules against a tool call.
+ *
+ * @param rules - Rules applicable to the tool call
+ * @param target - Evaluation target
+ * @returns Matched and unevaluated rules with the resulting action
+ */
+export function evaluateRules(
+  rules: readonly Rule[],
+  target: RuleEvaluationTarget
+): RuleEvaluationResult {
+  const result: RuleEvaluationResult = {
+    matchedRules: [],
+    unevaluatedRules: [],
+    errors: [],
+    action: null,
+  };
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    if (!hasConditions(rule)) {
+      result.unevaluatedRules.push(rule);
+      continue;
+    }
+
+    try {
+      if (evaluateRule(rule, target)) {
+        result.matchedRules.push(rule);
+        if (
+          result.action === null ||
+          ACTION_PRECEDENCE[rule.action] > ACTION_PRECEDENCE[result.action]
+        ) {
+          result.action = rule.action;
+        }
+      }
+    } catch (error) {
+      result.errors.push({
+        ruleId: rule.id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compare two values for equality, structurally for objects and arrays.
+ */
+function valuesEqual(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) {
+    return true;
+  }
+  if (typeof actual === 'object' && actual !== null && typeof expected === 'object' && expected !== null) {
+    return JSON.stringify(actual) === JSON.stringify(expected);
+  }
+  return false;
+}
+
+/**
+ * Check whether a string contains a substring or an array contains an element.
+ */
+function containsValue(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === 'string') {
+    return actual.includes(String(expected));
+  }
+  if (Array.isArray(actual)) {
+    return actual.some((item) => valuesEqual(item, expected));
+  }
+  return false;
+}
+
+/**
+ * Compare two values numerically. Non-numeric values never match.
+ */
+function compareNumbers(
+  actual: unknown,
+  expected: unknown,
+  compare: (a: number, b: number) => boolean
+): boolean {
+  if (actual === null || actual === undefined || actual === '') {
+    return false;
+  }
+  const a = Number(actual);
+  const b = Number(expected);
+  if (Number.isNaN(a) || Number.isNaN(b)) {
+    return false;
+  }
+  return compare(a, b);
+}
+
+/**
+ * Check whether a value is contained in the condition's list.
+ */
+function inList(actual: unknown, condition: RuleCondition): boolean {
+  if (!Array.isArray(condition.value)) {
+    throw new RuleEvaluationError(
+      `Operator "${condition.operator}" requires a list value`,
+      condition
+    );
+  }
+  return condition.value.some((item) => valuesEqual(actual, item));
+}
+
+/**
+ * Compile (and cache) the regex of a `matches` condition.
+ */
+function compileRegex(condition: RuleCondition): RegExp {
+  const source = String(condition.value);
+  let regex = regexCache.get(source);
+
+  if (!regex) {
+    try {
+      regex = new RegExp(source);
+    } catch (error) {
+      throw new RuleEvaluationError(
+        `Invalid regex "${source}": ${error instanceof Error ? error.message : String(error)}`,
+        condition
+      );
+    }
+    regexCache.set(source, regex);
+  }
+
+  return regex;
+}
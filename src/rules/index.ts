@@ -6,5 +6,9 @@
 
 export * from './types.js';
 export * from './loader.js';
+export * from './schema.js';
+export * from './inheritance.js';
+export * from './evaluator.js';
+export * from './transforms.js';
 export * from './api-client.js';
 export * from './rule-validator.js';
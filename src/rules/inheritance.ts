@@ -0,0 +1,313 @@
+/**
+ * Rule set inheritance.
+ *
+ * Resolves `extends` and `include` references to other rule files or npm
+ * packages, expands "$name" condition fragments, and applies overrides to
+ * inherited rules by ID, so a shared baseline can be extended per project.
+ *
+ * @module rules/inheritance
+ */
+
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, isAbsolute, resolve } from 'node:path';
+import type { Rule, RuleCondition, RuleOverride, RuleSetSettings } from './types.js';
+import { RuleSchemaError, validateRuleFile, type RuleSchemaIssue } from './schema.js';
+
+/**
+ * A rule set with its inheritance resolved.
+ */
+export interface ResolvedRuleSet {
+  /** Inherited and local rules, with fragments expanded and overrides applied */
+  rules: Rule[];
+  /** Settings inherited through `extends`, overridden by local settings */
+  settings: RuleSetSettings;
+  /** Condition fragments visible in this rule set */
+  fragments: Record<string, RuleCondition[]>;
+  /** Files pulled in through `extends` and `include`, in load order */
+  sources: string[];
+  /** Schema issues found in the pulled-in files */
+  issues: RuleSchemaIssue[];
+}
+
+/**
+ * Error thrown when a rule set's inheritance cannot be resolved.
+ */
+export class RuleInheritanceError extends Error {
+  /** Rule file that references the problem */
+  readonly file: string;
+  /** Description of the problem, without the file */
+  readonly reason: string;
+
+  constructor(reason: string, file: string) {
+    super(`${file}: ${reason}`);
+    this.name = 'RuleInheritanceError';
+    this.file = file;
+    this.reason = reason;
+  }
+}
+
+const INHERITANCE_KEYS = ['extends', 'include', 'fragments', 'overrides'];
+
+/**
+ * Check whether parsed YAML is a rule set rather than a rule or list of rules.
+ */
+export function isRuleSetDocument(data: unknown): boolean {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    !Array.isArray(data) &&
+    ['rules', ...INHERITANCE_KEYS].some((key) => key in data)
+  );
+}
+
+/**
+ * Resolve the inheritance of a parsed rule set.
+ *
+ * Rules from `extends` and `include` come first, in the order listed; a
+ * local rule with the same ID replaces the inherited one. Settings are only
+ * inherited through `extends`.
+ *
+ * @param data - Parsed rule set
+ * @param file - Path of the rule file; relative references resolve against it
+ * @throws {RuleInheritanceError} If a reference, fragment or override cannot be resolved
+ * @throws {RuleSchemaError} If a referenced file is not valid YAML
+ */
+export function resolveRuleSet(data: Record<string, unknown>, file: string): ResolvedRuleSet {
+  return resolveDocument(data, file, [resolve(file)]);
+}
+
+/**
+ * Resolve a rule set, tracking the chain of files to detect cycles.
+ */
+function resolveDocument(
+  data: Record<string, unknown>,
+  file: string,
+  chain: string[]
+): ResolvedRuleSet {
+  const result: ResolvedRuleSet = {
+    rules: [],
+    settings: {},
+    fragments: {},
+    sources: [],
+    issues: [],
+  };
+
+  for (const key of ['extends', 'include'] as const) {
+    for (const specifier of toList(data[key], key, file)) {
+      const base = loadBase(specifier, file, chain);
+
+      result.sources.push(...base.sources);
+      result.issues.push(...base.issues);
+      Object.assign(result.fragments, base.fragments);
+      for (const rule of base.rules) {
+        upsertRule(result.rules, rule);
+      }
+      if (key === 'extends') {
+        result.settings = { ...result.settings, ...base.settings };
+      }
+    }
+  }
+
+  const fragments = data.fragments ?? {};
+  if (typeof fragments !== 'object' || Array.isArray(fragments)) {
+    throw new RuleInheritanceError('"fragments" must be a mapping', file);
+  }
+  for (const [name, conditions] of Object.entries(fragments)) {
+    if (!Array.isArray(conditions)) {
+      throw new RuleInheritanceError(`Fragment "${name}" must be a list of conditions`, file);
+    }
+    result.fragments[name] = expandConditions(conditions, result.fragments, file);
+  }
+
+  const rules = data.rules ?? [];
+  if (!Array.isArray(rules)) {
+    throw new RuleInheritanceError('"rules" must be a list', file);
+  }
+  for (const rule of rules as Rule[]) {
+    upsertRule(result.rules, expandRule(rule, result.fragments, file));
+  }
+
+  const overrides = data.overrides ?? [];
+  if (!Array.isArray(overrides)) {
+    throw new RuleInheritanceError('"overrides" must be a list', file);
+  }
+  for (const override of overrides as RuleOverride[]) {
+    const index = result.rules.findIndex((rule) => rule.id === override?.id);
+    if (index === -1) {
+      throw new RuleInheritanceError(`Override for unknown rule "${String(override?.id)}"`, file);
+    }
+    result.rules[index] = expandRule({ ...result.rules[index], ...override }, result.fragments, file);
+  }
+
+  result.settings = { ...result.settings, ...(data.settings as RuleSetSettings | undefined) };
+  return result;
+}
+
+/**
+ * Load and resolve a referenced rule file.
+ */
+function loadBase(specifier: string, file: string, chain: string[]): ResolvedRuleSet {
+  const path = resolveSpecifier(specifier, file);
+  if (chain.includes(path)) {
+    throw new RuleInheritanceError(
+      `Circular rule set inheritance: ${[...chain, path].join(' -> ')}`,
+      file
+    );
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new RuleInheritanceError(
+      `Cannot read rule set "${specifier}": ${error instanceof Error ? error.message : String(error)}`,
+      file
+    );
+  }
+
+  const validation = validateRuleFile(content, path);
+  if (validation.syntaxError) {
+    throw new RuleSchemaError(validation.issues);
+  }
+
+  const data = validation.data;
+  const document = isRuleSetDocument(data)
+    ? data as Record<string, unknown>
+    : { rules: Array.isArray(data) ? data : data ? [data] : [] };
+  const resolved = resolveDocument(document, path, [...chain, path]);
+
+  // A base's global tags belong to its own rules, even when only included
+  const globalTags = resolved.settings.global_tags ?? [];
+  const rules = globalTags.length === 0
+    ? resolved.rules
+    : resolved.rules.map((rule) => ({
+        ...rule,
+        tags: [...new Set([...(rule.tags ?? []), ...globalTags])],
+      }));
+
+  return {
+    ...resolved,
+    rules,
+    sources: [...resolved.sources, path],
+    issues: [...validation.issues, ...resolved.issues],
+  };
+}
+
+/**
+ * Resolve a reference to a file path.
+ *
+ * Paths starting with "." or "/" are files relative to the referencing
+ * file; anything else is resolved as an npm package (or package subpath).
+ */
+function resolveSpecifier(specifier: string, file: string): string {
+  const from = resolve(file);
+  if (specifier.startsWith('.') || isAbsolute(specifier)) {
+    return resolve(dirname(from), specifier);
+  }
+
+  try {
+    return createRequire(from).resolve(specifier);
+  } catch {
+    throw new RuleInheritanceError(`Cannot resolve rule set package "${specifier}"`, file);
+  }
+}
+
+/**
+ * Expand fragment references in a rule's conditions, condition groups and
+ * sequence conditions.
+ */
+function expandRule(
+  rule: Rule,
+  fragments: Record<string, RuleCondition[]>,
+  file: string
+): Rule {
+  if (!rule || typeof rule !== 'object') {
+    return rule;
+  }
+
+  const expanded: Rule = { ...rule };
+  if (Array.isArray(rule.conditions)) {
+    expanded.conditions = expandConditions(rule.conditions, fragments, file);
+  }
+  if (Array.isArray(rule.condition_groups)) {
+    expanded.condition_groups = (rule.condition_groups as unknown[]).map((group) =>
+      isReference(group)
+        ? lookupFragment(group, fragments, file)
+        : Array.isArray(group)
+          ? expandConditions(group, fragments, file)
+          : (group as RuleCondition[])
+    );
+  }
+  if (Array.isArray(rule.sequence)) {
+    expanded.sequence = rule.sequence.map((sequence) =>
+      sequence && Array.isArray(sequence.conditions)
+        ? { ...sequence, conditions: expandConditions(sequence.conditions, fragments, file) }
+        : sequence
+    );
+  }
+  return expanded;
+}
+
+/**
+ * Replace "$name" entries in a condition list with the fragment's conditions.
+ */
+function expandConditions(
+  conditions: readonly unknown[],
+  fragments: Record<string, RuleCondition[]>,
+  file: string
+): RuleCondition[] {
+  return conditions.flatMap((condition) =>
+    isReference(condition)
+      ? lookupFragment(condition, fragments, file)
+      : [condition as RuleCondition]
+  );
+}
+
+/**
+ * Look up a fragment by its "$name" reference.
+ */
+function lookupFragment(
+  reference: string,
+  fragments: Record<string, RuleCondition[]>,
+  file: string
+): RuleCondition[] {
+  const fragment = fragments[reference.slice(1)];
+  if (!fragment) {
+    throw new RuleInheritanceError(`Unknown condition fragment "${reference}"`, file);
+  }
+  return fragment;
+}
+
+/**
+ * Check whether a value is a "$name" fragment reference.
+ */
+function isReference(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('$');
+}
+
+/**
+ * Add a rule, replacing an earlier rule with the same ID.
+ */
+function upsertRule(rules: Rule[], rule: Rule): void {
+  const index = typeof rule?.id === 'string'
+    ? rules.findIndex((existing) => existing?.id === rule.id)
+    : -1;
+  if (index === -1) {
+    rules.push(rule);
+  } else {
+    rules[index] = rule;
+  }
+}
+
+/**
+ * Normalize an `extends` or `include` value to a list of specifiers.
+ */
+function toList(value: unknown, key: string, file: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+    return value;
+  }
+  throw new RuleInheritanceError(`"${key}" must be a string or a list of strings`, file);
+}
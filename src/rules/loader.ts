@@ -8,9 +8,19 @@
  */
 
 import { readFileSync, readdirSync, statSync, existsSync } from 'node:fs';
-import { join, extname } from 'node:path';
+import { join, extname, resolve } from 'node:path';
 import type { Logger } from '../utils/logger.js';
-import type { Rule, RuleSet, LoadedRules } from './types.js';
+import type { Rule, RuleSet, RuleSetSettings, LoadedRules } from './types.js';
+import {
+  RuleSchemaError,
+  findDuplicateRuleIds,
+  ruleValueType,
+  validateRuleFile,
+  type RuleFileValidation,
+  type RuleSchemaIssue,
+} from './schema.js';
+import { isRuleSetDocument, resolveRuleSet } from './inheritance.js';
+import { interpolateEnv } from '../utils/env.js';
 
 /**
  * Options for the rule loader.
@@ -20,6 +30,32 @@ export interface RuleLoaderOptions {
   logger: Logger;
   /** Whether to watch for file changes (future feature) */
   watch?: boolean;
+  /** Throw a RuleSchemaError on schema problems instead of logging them */
+  strict?: boolean;
+}
+
+/**
+ * A rule set loaded from a single file, with its settings.
+ */
+export interface LoadedRuleSetInfo {
+  name: string;
+  source: string;
+  settings: RuleSetSettings;
+}
+
+/**
+ * Rules parsed from a single file.
+ */
+export interface ParsedRuleFile {
+  ruleSet: LoadedRuleSetInfo;
+  /** Rules of the file, including inherited ones, with global tags applied */
+  rules: Rule[];
+  /** Schema validation of the file itself */
+  validation: RuleFileValidation;
+  /** Schema problems in the file and in the files it inherits from */
+  issues: RuleSchemaIssue[];
+  /** Files pulled in through `extends` and `include` */
+  sources: string[];
 }
 
 /**
@@ -43,7 +79,9 @@ function defaultYamlParser(): never {
  */
 export class RuleLoader {
   private readonly logger: Logger;
+  private readonly strict: boolean;
   private yamlParser: YamlParser = defaultYamlParser;
+  private validations: RuleFileValidation[] = [];
   private loadedRules: LoadedRules = {
     ruleSets: [],
     allRules: [],
@@ -54,6 +92,7 @@ export class RuleLoader {
 
   constructor(options: RuleLoaderOptions) {
     this.logger = options.logger;
+    this.strict = options.strict ?? false;
   }
 
   /**
@@ -87,13 +126,16 @@ export class RuleLoader {
       return this.loadedRules;
     }
 
-    const yamlFiles = this.findYamlFiles(dirPath, recursive);
+    const yamlFiles = findRuleFiles(dirPath, recursive);
     this.logger.debug('Found YAML files', { count: yamlFiles.length });
 
     for (const filePath of yamlFiles) {
       try {
         this.loadFromFile(filePath);
       } catch (error) {
+        if (this.strict && error instanceof RuleSchemaError) {
+          throw error;
+        }
         this.logger.error(
           'Failed to load rule file',
           { path: filePath },
@@ -110,12 +152,15 @@ export class RuleLoader {
    * Load rules from a single YAML file.
    *
    * @param filePath - Path to the YAML file
+   * @throws {RuleSchemaError} In strict mode, if the file fails schema validation
+   * @throws {RuleInheritanceError} If the file's inheritance cannot be resolved
    */
   loadFromFile(filePath: string): void {
     this.logger.debug('Loading rules from file', { path: filePath });
 
     const content = readFileSync(filePath, 'utf-8');
-    const parsed = this.yamlParser(content);
+    this.checkSchema(content, filePath);
+    const parsed = interpolateEnv(this.yamlParser(content), process.env, ruleValueType);
 
     if (!parsed || typeof parsed !== 'object') {
       this.logger.warn('Invalid YAML content', { path: filePath });
@@ -139,11 +184,13 @@ export class RuleLoader {
    *
    * @param content - YAML content
    * @param sourceName - Name to identify the source
+   * @throws {RuleSchemaError} In strict mode, if the content fails schema validation
    */
   loadFromString(content: string, sourceName = 'inline'): void {
     this.logger.debug('Loading rules from string', { source: sourceName });
 
-    const parsed = this.yamlParser(content);
+    this.checkSchema(content, sourceName);
+    const parsed = interpolateEnv(this.yamlParser(content), process.env, ruleValueType);
 
     if (!parsed || typeof parsed !== 'object') {
       this.logger.warn('Invalid YAML content', { source: sourceName });
@@ -209,6 +256,7 @@ export class RuleLoader {
       globalRules: [],
       sourceFiles: [],
     };
+    this.validations = [];
     this.logger.debug('Cleared all rules');
   }
 
@@ -231,27 +279,28 @@ export class RuleLoader {
   }
 
   /**
-   * Find YAML files in a directory.
+   * Validate rule YAML against the schema, including rule IDs already loaded.
+   *
+   * @throws {RuleSchemaError} In strict mode, if any problem is found
    */
-  private findYamlFiles(dirPath: string, recursive: boolean): string[] {
-    const files: string[] = [];
-    const entries = readdirSync(dirPath);
-
-    for (const entry of entries) {
-      const fullPath = join(dirPath, entry);
-      const stat = statSync(fullPath);
-
-      if (stat.isDirectory() && recursive) {
-        files.push(...this.findYamlFiles(fullPath, recursive));
-      } else if (stat.isFile()) {
-        const ext = extname(entry).toLowerCase();
-        if (ext === '.yaml' || ext === '.yml') {
-          files.push(fullPath);
-        }
-      }
+  private checkSchema(content: string, source: string): void {
+    const validation = validateRuleFile(content, source);
+
+    // Duplicates are reported at their later definition, so the issues for
+    // this source are the ones beyond those of the previously loaded files
+    const knownDuplicates = findDuplicateRuleIds(this.validations).length;
+    const duplicates = findDuplicateRuleIds([...this.validations, validation])
+      .slice(knownDuplicates);
+    const issues: RuleSchemaIssue[] = [...validation.issues, ...duplicates];
+
+    if (issues.length > 0 && this.strict) {
+      throw new RuleSchemaError(issues);
     }
 
-    return files;
+    for (const issue of issues) {
+      this.logger.warn('Invalid rule definition', { ...issue });
+    }
+    this.validations.push(validation);
   }
 
   /**
@@ -271,9 +320,7 @@ export class RuleLoader {
       };
     }
 
-    // Check for rules array in the object
-    const rules = data.rules as unknown[];
-    if (!rules || !Array.isArray(rules)) {
+    if (!isRuleSetDocument(data)) {
       // Maybe it's a single rule
       if (data.id && data.name) {
         return {
@@ -286,12 +333,23 @@ export class RuleLoader {
       return null;
     }
 
+    const resolved = resolveRuleSet(data, source);
+    if (resolved.issues.length > 0 && this.strict) {
+      throw new RuleSchemaError(resolved.issues);
+    }
+    for (const issue of resolved.issues) {
+      this.logger.warn('Invalid rule definition', { ...issue });
+    }
+    if (resolved.sources.length > 0) {
+      this.logger.debug('Resolved rule set inheritance', { source, sources: resolved.sources });
+    }
+
     return {
       version: (data.version as string) ?? '1.0',
       name: (data.name as string) ?? source,
       description: data.description as string | undefined,
-      rules: rules.map((r, i) => this.parseRule(r, `${source}:rule-${i}`)),
-      settings: data.settings as RuleSet['settings'],
+      rules: resolved.rules.map((r, i) => this.parseRule(r, `${source}:rule-${i}`)),
+      settings: resolved.settings,
     };
   }
 
@@ -315,7 +373,10 @@ export class RuleLoader {
       tools: ruleData.tools as string[] | undefined,
       conditions: ruleData.conditions as Rule['conditions'],
       condition_groups: ruleData.condition_groups as Rule['condition_groups'],
+      sequence: ruleData.sequence as Rule['sequence'],
       tags: ruleData.tags as string[] | undefined,
+      cache: ruleData.cache as boolean | undefined,
+      rate_limit: ruleData.rate_limit as Rule['rate_limit'],
       metadata: ruleData.metadata as Record<string, unknown> | undefined,
     };
   }
@@ -354,6 +415,128 @@ export class RuleLoader {
   }
 }
 
+/**
+ * Find the YAML rule files in a directory.
+ *
+ * @param dirPath - Path to the directory
+ * @param recursive - Whether to search subdirectories
+ * @returns Paths of the files; empty if the directory cannot be read
+ */
+export function findRuleFiles(dirPath: string, recursive: boolean): string[] {
+  const files: string[] = [];
+
+  try {
+    for (const entry of readdirSync(dirPath)) {
+      const fullPath = join(dirPath, entry);
+      const stat = statSync(fullPath);
+
+      if (stat.isDirectory() && recursive) {
+        files.push(...findRuleFiles(fullPath, recursive));
+      } else if (stat.isFile()) {
+        const ext = extname(entry).toLowerCase();
+        if (ext === '.yaml' || ext === '.yml') {
+          files.push(fullPath);
+        }
+      }
+    }
+  } catch {
+    // Directory doesn't exist or not readable
+  }
+
+  return files;
+}
+
+/**
+ * Parse a single rule file the way Veto loads it.
+ *
+ * Schema problems are reported in the result; only unreadable files,
+ * invalid YAML and unresolvable inheritance are fatal.
+ *
+ * @param filePath - Path to the YAML file
+ * @throws {RuleSchemaError} If the file or a file it extends is not valid YAML
+ * @throws {RuleInheritanceError} If `extends`, `include`, fragments or overrides cannot be resolved
+ */
+export function parseRuleFile(filePath: string): ParsedRuleFile {
+  const validation = validateRuleFile(readFileSync(filePath, 'utf-8'), filePath);
+  if (validation.syntaxError) {
+    throw new RuleSchemaError(validation.issues);
+  }
+  return resolveRuleFile(validation);
+}
+
+/**
+ * Collect the rules of a validated rule file, resolving its inheritance
+ * and applying its global tags.
+ *
+ * @param validation - Validation of a file without YAML syntax errors
+ * @throws {RuleSchemaError} If a file it extends is not valid YAML
+ * @throws {RuleInheritanceError} If `extends`, `include`, fragments or overrides cannot be resolved
+ */
+export function resolveRuleFile(validation: RuleFileValidation): ParsedRuleFile {
+  const filePath = validation.file;
+  const parsed = validation.data as RuleSet | Rule[] | Record<string, unknown> | null;
+
+  let rules: Rule[] = [];
+  const issues: RuleSchemaIssue[] = [...validation.issues];
+  const sources: string[] = [];
+  const ruleSet: LoadedRuleSetInfo = { name: filePath, source: filePath, settings: {} };
+
+  if (Array.isArray(parsed)) {
+    rules = parsed as Rule[];
+  } else if (isRuleSetDocument(parsed)) {
+    const resolved = resolveRuleSet(parsed as Record<string, unknown>, filePath);
+    rules = resolved.rules;
+    ruleSet.name = (parsed as Partial<RuleSet>).name ?? filePath;
+    ruleSet.settings = resolved.settings;
+    issues.push(...resolved.issues);
+    sources.push(...resolved.sources);
+  } else if (parsed && typeof parsed === 'object' && 'id' in parsed) {
+    rules = [parsed as unknown as Rule];
+  }
+
+  const globalTags = ruleSet.settings.global_tags ?? [];
+  if (globalTags.length > 0) {
+    rules = rules.map((rule) => ({
+      ...rule,
+      tags: [...new Set([...(rule.tags ?? []), ...globalTags])],
+    }));
+  }
+
+  return { ruleSet, rules, validation, issues, sources };
+}
+
+/**
+ * Find the rule files that other files pull in through `extends` or
+ * `include`. Their rules are loaded through those files only, so that
+ * overrides of inherited rules take effect.
+ *
+ * @param files - Parsed rule files
+ * @returns Absolute paths of the pulled-in files
+ */
+export function findPulledInFiles(files: Iterable<ParsedRuleFile>): Set<string> {
+  const pulledIn = new Set<string>();
+  for (const file of files) {
+    for (const source of file.sources) {
+      pulledIn.add(resolve(source));
+    }
+  }
+  return pulledIn;
+}
+
+/**
+ * Check whether Veto loads a rule: it must be enabled and, if tags are
+ * selected with `rules.tags`, carry at least one of them.
+ *
+ * @param rule - Parsed rule
+ * @param tags - Selected tags; empty or undefined selects all rules
+ */
+export function isRuleSelected(rule: Rule, tags: readonly string[] = []): boolean {
+  if (!rule.enabled) {
+    return false;
+  }
+  return tags.length === 0 || (rule.tags?.some((tag) => tags.includes(tag)) ?? false);
+}
+
 /**
  * Create a new rule loader.
  *
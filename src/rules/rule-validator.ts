@@ -2,7 +2,7 @@
  * Rule-based validator.
  *
  * This validator loads rules from YAML files and validates tool calls
- * by sending them to an external API.
+ * through the same pipeline as `Veto`, by default with the external API.
  *
  * @module rules/rule-validator
  */
@@ -13,25 +13,53 @@ import type {
   ValidationResult,
   NamedValidator,
 } from '../types/config.js';
-import type { ToolCallHistoryEntry } from '../types/config.js';
-import type { Rule, ToolCallContext, ToolCallHistorySummary } from './types.js';
+import type { Rule } from './types.js';
 import { RuleLoader, type YamlParser } from './loader.js';
-import { ValidationAPIClient, type ValidationAPIConfig } from './api-client.js';
+import type { ValidationAPIClient, ValidationAPIConfig } from './api-client.js';
+import type { DecisionBackend } from '../backends/types.js';
+import { APIBackend } from '../backends/api.js';
+import { CircuitBreakerBackend } from '../backends/circuit-breaker.js';
+import type { DecisionCache } from '../core/cache.js';
+import {
+  ValidationPipeline,
+  type DecisionThresholds,
+  type FailMode,
+  type HistoryContextOptions,
+  type ValidationHealth,
+  type ValidationMode,
+  type VetoMode,
+} from '../core/pipeline.js';
 
 /**
  * Configuration for the rule-based validator.
  */
 export interface RuleValidatorConfig {
-  /** API configuration */
-  api: ValidationAPIConfig;
+  /** API configuration, used when no backend is given */
+  api?: ValidationAPIConfig;
+  /** Backend for calls local rules do not decide (default: the API) */
+  backend?: DecisionBackend;
+  /** Operating mode (default: strict) */
+  mode?: VetoMode;
+  /** Validation mode (default: api) */
+  validationMode?: ValidationMode;
   /** Path to directory containing rule YAML files */
   rulesDir?: string;
   /** YAML parser function (e.g., from js-yaml) */
   yamlParser?: YamlParser;
   /** Whether to search subdirectories for rules */
   recursiveRuleSearch?: boolean;
-  /** Behavior when API is unavailable */
-  failMode?: 'open' | 'closed';
+  /** Only apply rules with at least one of these tags (default: all rules) */
+  ruleTags?: string[];
+  /** Behavior when the backend is unavailable, for rule sets without `fail_mode` */
+  failMode?: FailMode;
+  /** Block-weight thresholds (default: trust the backend's decision) */
+  thresholds?: DecisionThresholds;
+  /** Backend that uncertain decisions escalate to */
+  escalationBackend?: DecisionBackend;
+  /** Cache for backend decisions (default: none) */
+  cache?: DecisionCache;
+  /** Call history sent to backends (default: the last 10 calls, without arguments) */
+  history?: HistoryContextOptions;
   /** Session ID for tracking */
   sessionId?: string;
   /** Agent ID for tracking */
@@ -49,28 +77,29 @@ export interface RuleValidatorOptions {
 }
 
 /**
- * Rule-based validator that uses an external API for decisions.
+ * Rule-based validator that uses a decision backend.
  *
  * This validator:
  * 1. Loads rules from YAML files
  * 2. For each tool call, finds applicable rules
- * 3. Sends the context and rules to an API
- * 4. Returns the decision from the API
+ * 3. Decides the call locally or with the backend, as `Veto` does
+ * 4. Returns the decision as a validation result
  */
 export class RuleValidator {
   private readonly logger: Logger;
   private readonly config: RuleValidatorConfig;
   private readonly ruleLoader: RuleLoader;
-  private readonly apiClient: ValidationAPIClient;
-  private readonly sessionId?: string;
-  private readonly agentId?: string;
+  private readonly backend: DecisionBackend | null;
+  private readonly pipeline: ValidationPipeline;
   private isInitialized = false;
 
+  /**
+   * @throws {Error} If neither an API configuration nor a backend is given
+   *   outside local mode
+   */
   constructor(options: RuleValidatorOptions) {
     this.logger = options.logger;
     this.config = options.config;
-    this.sessionId = options.config.sessionId;
-    this.agentId = options.config.agentId;
 
     // Initialize rule loader
     this.ruleLoader = new RuleLoader({ logger: this.logger });
@@ -80,16 +109,33 @@ export class RuleValidator {
       this.ruleLoader.setYamlParser(this.config.yamlParser);
     }
 
-    // Initialize API client
-    this.apiClient = new ValidationAPIClient({
-      config: this.config.api,
+    // Initialize backend and pipeline (local mode needs none)
+    const usesBackend = this.config.validationMode !== 'local';
+    this.backend = this.config.backend ??
+      (usesBackend && this.config.api
+        ? new APIBackend({ config: this.config.api, logger: this.logger })
+        : null);
+
+    this.pipeline = new ValidationPipeline({
       logger: this.logger,
+      mode: this.config.mode,
+      validationMode: this.config.validationMode,
+      backend: this.backend,
       failMode: this.config.failMode,
+      thresholds: this.config.thresholds,
+      escalationBackend: this.config.escalationBackend,
+      cache: this.config.cache,
+      history: this.config.history,
+      getRuleSet: (rule) =>
+        this.ruleLoader.getRules().ruleSets.find((ruleSet) => ruleSet.rules.includes(rule)),
+      sessionId: this.config.sessionId,
+      agentId: this.config.agentId,
     });
 
     this.logger.info('Rule validator created', {
       rulesDir: this.config.rulesDir,
-      apiEndpoint: this.config.api.baseUrl + (this.config.api.endpoint ?? '/tool/call/check'),
+      validationMode: this.config.validationMode ?? 'api',
+      backend: this.backend?.name,
     });
   }
 
@@ -153,9 +199,28 @@ export class RuleValidator {
 
   /**
    * Get the API client for direct access.
+   *
+   * @returns The client, or null if the backend is not the API
+   */
+  getAPIClient(): ValidationAPIClient | null {
+    const backend = this.backend instanceof CircuitBreakerBackend
+      ? this.backend.backend
+      : this.backend;
+    return backend instanceof APIBackend ? backend.client : null;
+  }
+
+  /**
+   * Get the backend for calls local rules do not decide.
    */
-  getAPIClient(): ValidationAPIClient {
-    return this.apiClient;
+  getBackend(): DecisionBackend | null {
+    return this.backend;
+  }
+
+  /**
+   * Get the health of the decision backends.
+   */
+  getHealth(): ValidationHealth {
+    return this.pipeline.getHealth();
   }
 
   /**
@@ -170,8 +235,13 @@ export class RuleValidator {
       await this.initialize();
     }
 
-    // Get applicable rules
-    const rules = this.ruleLoader.getRulesForTool(context.toolName);
+    // Get applicable decision rules, limited to the configured tags.
+    // Rate-limit rules are left to the interceptor, which counts the history.
+    const ruleTags = this.config.ruleTags ?? [];
+    const rules = this.ruleLoader.getRulesForTool(context.toolName).filter(
+      (rule) => rule.action !== 'modify' && !rule.rate_limit &&
+        (ruleTags.length === 0 || rule.tags?.some((tag) => ruleTags.includes(tag)))
+    );
 
     this.logger.debug('Validating tool call with rules', {
       toolName: context.toolName,
@@ -179,59 +249,7 @@ export class RuleValidator {
       applicableRules: rules.length,
     });
 
-    // If no rules, allow by default
-    if (rules.length === 0) {
-      this.logger.debug('No rules applicable, allowing by default', {
-        toolName: context.toolName,
-      });
-      return { decision: 'allow' };
-    }
-
-    // Build API context
-    const apiContext = this.buildToolCallContext(context);
-
-    // Call the API
-    const response = await this.apiClient.validate(apiContext, rules);
-
-    // Convert API response to ValidationResult
-    if (response.decision === 'pass') {
-      this.logger.info('Tool call allowed by API', {
-        toolName: context.toolName,
-        callId: context.callId,
-        passWeight: response.should_pass_weight,
-        reasoning: response.reasoning,
-      });
-
-      return {
-        decision: 'allow',
-        reason: response.reasoning,
-        metadata: {
-          should_pass_weight: response.should_pass_weight,
-          should_block_weight: response.should_block_weight,
-          matched_rules: response.matched_rules,
-          ...response.metadata,
-        },
-      };
-    } else {
-      this.logger.warn('Tool call blocked by API', {
-        toolName: context.toolName,
-        callId: context.callId,
-        blockWeight: response.should_block_weight,
-        reasoning: response.reasoning,
-        matchedRules: response.matched_rules,
-      });
-
-      return {
-        decision: 'deny',
-        reason: response.reasoning,
-        metadata: {
-          should_pass_weight: response.should_pass_weight,
-          should_block_weight: response.should_block_weight,
-          matched_rules: response.matched_rules,
-          ...response.metadata,
-        },
-      };
-    }
+    return this.pipeline.validate(context, rules);
   }
 
   /**
@@ -242,40 +260,12 @@ export class RuleValidator {
   toNamedValidator(): NamedValidator {
     return {
       name: 'rule-validator',
-      description: 'Validates tool calls using YAML rules and external API',
+      description: 'Validates tool calls using YAML rules and a decision backend',
       priority: 50, // Run in the middle
       validate: (context) => this.validate(context),
     };
   }
 
-  /**
-   * Build the API context from the validation context.
-   */
-  private buildToolCallContext(context: ValidationContext): ToolCallContext {
-    return {
-      call_id: context.callId,
-      tool_name: context.toolName,
-      arguments: context.arguments,
-      timestamp: context.timestamp.toISOString(),
-      session_id: this.sessionId,
-      agent_id: this.agentId,
-      call_history: this.buildHistorySummary(context.callHistory),
-      custom: context.custom,
-    };
-  }
-
-  /**
-   * Build a summary of call history for the API.
-   */
-  private buildHistorySummary(
-    history: readonly ToolCallHistoryEntry[]
-  ): ToolCallHistorySummary[] {
-    return history.slice(-10).map((entry) => ({
-      tool_name: entry.toolName,
-      allowed: entry.validationResult.decision !== 'deny',
-      timestamp: entry.timestamp.toISOString(),
-    }));
-  }
 }
 
 /**
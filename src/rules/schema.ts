@@ -0,0 +1,841 @@
+/**
+ * Strict schema validation of rule YAML.
+ *
+ * Validates rule files against the `RuleSet`, `Rule` and `RuleCondition`
+ * shapes and reports every problem with its file, line and column, so
+ * typos like `operater:` or `severity: urgent` do not load silently.
+ *
+ * @module rules/schema
+ */
+
+import {
+  LineCounter,
+  isMap,
+  isPair,
+  isScalar,
+  isSeq,
+  parseDocument,
+  visit,
+  type Node,
+  type YAMLMap,
+} from 'yaml';
+import type {
+  ArgumentTransform,
+  ConditionOperator,
+  RuleAction,
+  RuleSeverity,
+} from './types.js';
+import { interpolateScalar, type Environment, type InterpolatedType } from '../utils/env.js';
+import { parseDuration } from '../utils/duration.js';
+
+/**
+ * A schema problem at a precise location in a rule file.
+ */
+export interface RuleSchemaIssue {
+  /** Path of the rule file */
+  file: string;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  /** Location within the document, e.g. "rules[0].conditions[1].operator" */
+  path: string;
+  /** Description of the problem */
+  message: string;
+}
+
+/**
+ * Location where a rule ID is defined.
+ */
+export interface RuleIdLocation {
+  id: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Result of validating a single rule file.
+ */
+export interface RuleFileValidation {
+  /** Path of the rule file */
+  file: string;
+  /** Parsed YAML content (undefined if the YAML is malformed) */
+  data: unknown;
+  /** True if the file is not valid YAML at all */
+  syntaxError: boolean;
+  /** Schema problems found in the file */
+  issues: RuleSchemaIssue[];
+  /** Where each rule ID in the file is defined */
+  ruleIds: RuleIdLocation[];
+}
+
+/**
+ * Error thrown when rules fail schema validation in strict mode.
+ */
+export class RuleSchemaError extends Error {
+  readonly issues: RuleSchemaIssue[];
+
+  constructor(issues: RuleSchemaIssue[]) {
+    super(`Invalid rules:\n${issues.map(formatSchemaIssue).join('\n')}`);
+    this.name = 'RuleSchemaError';
+    this.issues = issues;
+  }
+}
+
+// Keyed records keep these lists exhaustive when the union types grow
+const RULE_ACTIONS: Record<RuleAction, true> = {
+  block: true,
+  warn: true,
+  log: true,
+  allow: true,
+  modify: true,
+  require_approval: true,
+};
+
+const RULE_SEVERITIES: Record<RuleSeverity, true> = {
+  critical: true,
+  high: true,
+  medium: true,
+  low: true,
+  info: true,
+};
+
+const CONDITION_OPERATORS: Record<ConditionOperator, true> = {
+  equals: true,
+  not_equals: true,
+  contains: true,
+  not_contains: true,
+  starts_with: true,
+  ends_with: true,
+  matches: true,
+  greater_than: true,
+  less_than: true,
+  in: true,
+  not_in: true,
+};
+
+const TRANSFORM_KEYS: Record<ArgumentTransform['type'], readonly string[]> = {
+  mask: ['type', 'field', 'pattern', 'replacement'],
+  clamp: ['type', 'field', 'min', 'max'],
+  prefix: ['type', 'field', 'prefix'],
+  drop: ['type', 'field'],
+};
+
+const RULE_SET_KEYS = [
+  'version',
+  'name',
+  'description',
+  'extends',
+  'include',
+  'fragments',
+  'rules',
+  'overrides',
+  'settings',
+];
+const SETTINGS_KEYS = ['default_action', 'fail_mode', 'block_threshold', 'global_tags'];
+const RULE_KEYS = [
+  'id',
+  'name',
+  'description',
+  'enabled',
+  'severity',
+  'action',
+  'tools',
+  'conditions',
+  'condition_groups',
+  'sequence',
+  'transforms',
+  'tags',
+  'cache',
+  'rate_limit',
+  'metadata',
+];
+const SEQUENCE_KEYS = ['operator', 'tools', 'conditions', 'within_calls', 'within'];
+const SEQUENCE_OPERATORS = ['preceded_by', 'not_preceded_by'];
+const RATE_LIMIT_KEYS = ['max', 'window', 'sum'];
+const CONDITION_KEYS = ['field', 'operator', 'value'];
+const FRAGMENT_REFERENCE = /^\$[A-Za-z_][\w-]*$/;
+
+/**
+ * Rule file keys whose values are numbers or booleans. Other interpolated
+ * values, including condition values, stay strings.
+ */
+const RULE_VALUE_TYPES = new Map<string, InterpolatedType>([
+  ['enabled', 'boolean'],
+  ['cache', 'boolean'],
+  ['block_threshold', 'number'],
+  ['within_calls', 'number'],
+  ['max', 'number'],
+  ['min', 'number'],
+]);
+
+/**
+ * State shared while walking a document.
+ */
+interface WalkContext {
+  file: string;
+  lineCounter: LineCounter;
+  issues: RuleSchemaIssue[];
+  ruleIds: RuleIdLocation[];
+}
+
+/**
+ * Look up the type of an interpolated rule file value by its key, the last
+ * element of the path.
+ */
+export function ruleValueType(path: readonly string[]): InterpolatedType | undefined {
+  return RULE_VALUE_TYPES.get(path[path.length - 1] ?? '');
+}
+
+/**
+ * Validate the content of a rule file.
+ *
+ * Accepts the same shapes as the loaders: a rule set with `rules`, a bare
+ * list of rules, or a single rule. `${VAR}` references in values are
+ * interpolated first; unset variables are reported as issues.
+ *
+ * @param content - YAML source
+ * @param file - Path used in issue locations
+ * @param env - Environment variables to interpolate
+ * @returns Parsed data with all schema issues found
+ */
+export function validateRuleFile(
+  content: string,
+  file: string,
+  env: Environment = process.env
+): RuleFileValidation {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  const ctx: WalkContext = { file, lineCounter, issues: [], ruleIds: [] };
+
+  if (doc.errors.length > 0) {
+    for (const error of doc.errors) {
+      const { line, col } = lineCounter.linePos(error.pos[0]);
+      ctx.issues.push({
+        file,
+        line,
+        column: col,
+        path: '',
+        message: error.message.split('\n')[0],
+      });
+    }
+    return { file, data: undefined, syntaxError: true, issues: ctx.issues, ruleIds: [] };
+  }
+
+  visit(doc, {
+    Scalar(key, node, path) {
+      if (key === 'key' || typeof node.value !== 'string') return;
+      const pair = path[path.length - 1];
+      const name = isPair(pair) && isScalar(pair.key) ? String(pair.key.value) : '';
+      try {
+        node.value = interpolateScalar(node.value, env, ruleValueType([name]));
+      } catch (error) {
+        report(ctx, node, '', error instanceof Error ? error.message : String(error));
+      }
+    },
+  });
+
+  const root = doc.contents;
+  if (isSeq(root)) {
+    validateRuleList(ctx, root, '');
+  } else if (isMap(root)) {
+    if (['rules', 'extends', 'include', 'fragments', 'overrides'].some((key) => root.has(key))) {
+      validateRuleSet(ctx, root);
+    } else if (root.has('id')) {
+      validateRule(ctx, root, '');
+    } else {
+      report(ctx, root, '', 'Expected a rule set with "rules", a rule, or a list of rules');
+    }
+  } else if (root !== null) {
+    report(ctx, root, '', 'Expected a rule set with "rules", a rule, or a list of rules');
+  }
+
+  return {
+    file,
+    data: doc.toJS(),
+    syntaxError: false,
+    issues: ctx.issues,
+    ruleIds: ctx.ruleIds,
+  };
+}
+
+/**
+ * Find rule IDs defined more than once, within or across files.
+ *
+ * @returns One issue for every definition after the first
+ */
+export function findDuplicateRuleIds(
+  validations: readonly RuleFileValidation[]
+): RuleSchemaIssue[] {
+  const first = new Map<string, RuleIdLocation>();
+  const issues: RuleSchemaIssue[] = [];
+
+  for (const location of validations.flatMap((validation) => validation.ruleIds)) {
+    const existing = first.get(location.id);
+    if (!existing) {
+      first.set(location.id, location);
+      continue;
+    }
+
+    issues.push({
+      file: location.file,
+      line: location.line,
+      column: location.column,
+      path: 'id',
+      message: `Duplicate rule ID "${location.id}" (first defined at ${existing.file}:${existing.line}:${existing.column})`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Format an issue as "file:line:column: path: message".
+ */
+export function formatSchemaIssue(issue: RuleSchemaIssue): string {
+  const path = issue.path ? `${issue.path}: ` : '';
+  return `${issue.file}:${issue.line}:${issue.column}: ${path}${issue.message}`;
+}
+
+/**
+ * Validate a rule set document.
+ */
+function validateRuleSet(ctx: WalkContext, node: YAMLMap): void {
+  const entries = checkMap(ctx, node, '', RULE_SET_KEYS);
+  if (!entries) return;
+
+  const version = entries.get('version');
+  if (version && !isScalarOfType(version, 'string') && !isScalarOfType(version, 'number')) {
+    report(ctx, version, 'version', 'Expected a string');
+  }
+  checkString(ctx, entries.get('name'), 'name');
+  checkString(ctx, entries.get('description'), 'description');
+
+  for (const key of ['extends', 'include']) {
+    const references = entries.get(key);
+    if (references && !isScalarOfType(references, 'string')) {
+      checkStringList(ctx, references, key);
+    }
+  }
+
+  const fragments = entries.get('fragments');
+  if (fragments && !isNull(fragments)) {
+    if (!isMap(fragments)) {
+      report(ctx, fragments, 'fragments', 'Expected a mapping of names to condition lists');
+    } else {
+      for (const pair of fragments.items) {
+        const name = String(scalarValue(pair.key as Node));
+        const path = join('fragments', name);
+        if (!FRAGMENT_REFERENCE.test(`$${name}`)) {
+          report(ctx, pair.key as Node, path, 'Invalid fragment name');
+        }
+        validateConditionList(ctx, (pair.value ?? pair.key) as Node, path);
+      }
+    }
+  }
+
+  const rules = entries.get('rules');
+  if (rules && !isNull(rules)) {
+    validateRuleList(ctx, rules, 'rules');
+  }
+
+  const overrides = entries.get('overrides');
+  if (overrides && !isNull(overrides)) {
+    if (!isSeq(overrides)) {
+      report(ctx, overrides, 'overrides', 'Expected a list of rule overrides');
+    } else {
+      overrides.items.forEach((item, index) => {
+        validateRule(ctx, item as Node, `overrides[${index}]`, true);
+      });
+    }
+  }
+
+  const settings = entries.get('settings');
+  if (settings && !isNull(settings)) {
+    const settingEntries = checkMap(ctx, settings, 'settings', SETTINGS_KEYS);
+    if (settingEntries) {
+      checkEnum(ctx, settingEntries.get('default_action'), 'settings.default_action', Object.keys(RULE_ACTIONS));
+      checkEnum(ctx, settingEntries.get('fail_mode'), 'settings.fail_mode', ['open', 'closed']);
+      const threshold = settingEntries.get('block_threshold');
+      if (threshold) {
+        const value = scalarValue(threshold);
+        if (typeof value !== 'number' || value < 0 || value > 1) {
+          report(ctx, threshold, 'settings.block_threshold', 'Expected a number between 0 and 1');
+        }
+      }
+      checkStringList(ctx, settingEntries.get('global_tags'), 'settings.global_tags');
+    }
+  }
+}
+
+/**
+ * Validate a list of rules.
+ */
+function validateRuleList(ctx: WalkContext, node: Node, path: string): void {
+  if (!isSeq(node)) {
+    report(ctx, node, path, 'Expected a list of rules');
+    return;
+  }
+
+  node.items.forEach((item, index) => {
+    validateRule(ctx, item as Node, `${path}[${index}]`);
+  });
+}
+
+/**
+ * Validate a single rule, or an override of an inherited rule.
+ */
+function validateRule(ctx: WalkContext, node: Node, path: string, override = false): void {
+  const entries = checkMap(ctx, node, path, RULE_KEYS);
+  if (!entries) return;
+
+  for (const key of override ? ['id'] : ['id', 'name', 'severity', 'action']) {
+    if (!entries.has(key)) {
+      report(ctx, node, path, `Missing required key "${key}"`);
+    }
+  }
+
+  const id = entries.get('id');
+  if (id && checkString(ctx, id, join(path, 'id')) && !override) {
+    const { line, col } = position(ctx, id);
+    ctx.ruleIds.push({ id: String((id as { value: unknown }).value), file: ctx.file, line, column: col });
+  }
+
+  checkString(ctx, entries.get('name'), join(path, 'name'));
+  checkString(ctx, entries.get('description'), join(path, 'description'));
+
+  for (const key of ['enabled', 'cache']) {
+    const flag = entries.get(key);
+    if (flag && !isScalarOfType(flag, 'boolean')) {
+      report(ctx, flag, join(path, key), 'Expected true or false');
+    }
+  }
+
+  checkEnum(ctx, entries.get('severity'), join(path, 'severity'), Object.keys(RULE_SEVERITIES));
+  checkEnum(ctx, entries.get('action'), join(path, 'action'), Object.keys(RULE_ACTIONS));
+  checkStringList(ctx, entries.get('tools'), join(path, 'tools'));
+  checkStringList(ctx, entries.get('tags'), join(path, 'tags'));
+
+  const conditions = entries.get('conditions');
+  if (conditions && !isNull(conditions)) {
+    validateConditionList(ctx, conditions, join(path, 'conditions'));
+  }
+
+  const groups = entries.get('condition_groups');
+  if (groups && !isNull(groups)) {
+    if (!isSeq(groups)) {
+      report(ctx, groups, join(path, 'condition_groups'), 'Expected a list of condition lists');
+    } else {
+      groups.items.forEach((group, index) => {
+        const groupPath = `${join(path, 'condition_groups')}[${index}]`;
+        if (isScalar(group)) {
+          checkFragmentReference(ctx, group, groupPath);
+        } else {
+          validateConditionList(ctx, group as Node, groupPath);
+        }
+      });
+    }
+  }
+
+  const sequence = entries.get('sequence');
+  if (sequence && !isNull(sequence)) {
+    if (!isSeq(sequence)) {
+      report(ctx, sequence, join(path, 'sequence'), 'Expected a list of sequence conditions');
+    } else {
+      sequence.items.forEach((item, index) => {
+        validateSequence(ctx, item as Node, `${join(path, 'sequence')}[${index}]`);
+      });
+    }
+  }
+
+  const transforms = entries.get('transforms');
+  if (transforms && !isNull(transforms)) {
+    if (!isSeq(transforms)) {
+      report(ctx, transforms, join(path, 'transforms'), 'Expected a list of transforms');
+    } else {
+      transforms.items.forEach((transform, index) => {
+        validateTransform(ctx, transform as Node, `${join(path, 'transforms')}[${index}]`);
+      });
+    }
+  }
+
+  const rateLimit = entries.get('rate_limit');
+  if (rateLimit && !isNull(rateLimit)) {
+    validateRateLimit(ctx, rateLimit, join(path, 'rate_limit'));
+    const action = entries.get('action');
+    if (action && scalarValue(action) !== 'block') {
+      report(ctx, action, join(path, 'action'), 'Rate-limit rules must use action "block"');
+    }
+  }
+
+  const metadata = entries.get('metadata');
+  if (metadata && !isNull(metadata) && !isMap(metadata)) {
+    report(ctx, metadata, join(path, 'metadata'), 'Expected a mapping');
+  }
+}
+
+/**
+ * Validate a sequence condition.
+ */
+function validateSequence(ctx: WalkContext, node: Node, path: string): void {
+  const entries = checkMap(ctx, node, path, SEQUENCE_KEYS);
+  if (!entries) return;
+
+  if (!entries.has('operator')) {
+    report(ctx, node, path, 'Missing required key "operator"');
+  }
+  checkEnum(ctx, entries.get('operator'), join(path, 'operator'), SEQUENCE_OPERATORS);
+  checkStringList(ctx, entries.get('tools'), join(path, 'tools'));
+
+  const conditions = entries.get('conditions');
+  if (conditions && !isNull(conditions)) {
+    validateConditionList(ctx, conditions, join(path, 'conditions'));
+  }
+
+  const withinCalls = entries.get('within_calls');
+  if (withinCalls) {
+    const value = scalarValue(withinCalls);
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      report(ctx, withinCalls, join(path, 'within_calls'), 'Expected a positive integer');
+    }
+  }
+
+  const within = entries.get('within');
+  if (within && parseDuration(scalarValue(within)) === null) {
+    report(ctx, within, join(path, 'within'), 'Expected a duration such as 60, "30s", "1m" or "1h"');
+  }
+}
+
+/**
+ * Validate the rate limit of a rule.
+ */
+function validateRateLimit(ctx: WalkContext, node: Node, path: string): void {
+  const entries = checkMap(ctx, node, path, RATE_LIMIT_KEYS);
+  if (!entries) return;
+
+  for (const key of ['max', 'window']) {
+    if (!entries.has(key)) {
+      report(ctx, node, path, `Missing required key "${key}"`);
+    }
+  }
+
+  const max = entries.get('max');
+  if (max) {
+    const value = scalarValue(max);
+    if (typeof value !== 'number' || value < 0) {
+      report(ctx, max, join(path, 'max'), 'Expected a non-negative number');
+    }
+  }
+
+  const window = entries.get('window');
+  if (window && parseDuration(scalarValue(window)) === null) {
+    report(ctx, window, join(path, 'window'), 'Expected a duration such as 60, "30s", "1m" or "1h"');
+  }
+
+  checkString(ctx, entries.get('sum'), join(path, 'sum'));
+}
+
+/**
+ * Validate a list of conditions.
+ */
+function validateConditionList(ctx: WalkContext, node: Node, path: string): void {
+  if (!isSeq(node)) {
+    report(ctx, node, path, 'Expected a list of conditions');
+    return;
+  }
+
+  node.items.forEach((item, index) => {
+    if (isScalar(item)) {
+      checkFragmentReference(ctx, item, `${path}[${index}]`);
+    } else {
+      validateCondition(ctx, item as Node, `${path}[${index}]`);
+    }
+  });
+}
+
+/**
+ * Check that a scalar in a condition list is a "$name" fragment reference.
+ */
+function checkFragmentReference(ctx: WalkContext, node: Node, path: string): void {
+  const value = scalarValue(node);
+  if (typeof value !== 'string' || !FRAGMENT_REFERENCE.test(value)) {
+    report(ctx, node, path, 'Expected a condition or a "$name" fragment reference');
+  }
+}
+
+/**
+ * Validate a single condition.
+ */
+function validateCondition(ctx: WalkContext, node: Node, path: string): void {
+  const entries = checkMap(ctx, node, path, CONDITION_KEYS);
+  if (!entries) return;
+
+  for (const key of CONDITION_KEYS) {
+    if (!entries.has(key)) {
+      report(ctx, node, path, `Missing required key "${key}"`);
+    }
+  }
+
+  checkString(ctx, entries.get('field'), join(path, 'field'));
+  const operatorNode = entries.get('operator');
+  if (!checkEnum(ctx, operatorNode, join(path, 'operator'), Object.keys(CONDITION_OPERATORS))) {
+    return;
+  }
+
+  const operator = scalarValue(operatorNode);
+  const value = entries.get('value');
+  if (!value) return;
+
+  if ((operator === 'in' || operator === 'not_in') && !isSeq(value)) {
+    report(ctx, value, join(path, 'value'), `Operator "${operator}" requires a list value`);
+  }
+  if (operator === 'matches') {
+    checkRegex(ctx, value, join(path, 'value'));
+  }
+}
+
+/**
+ * Validate a single argument transform.
+ */
+function validateTransform(ctx: WalkContext, node: Node, path: string): void {
+  if (!isMap(node)) {
+    report(ctx, node, path, 'Expected a mapping');
+    return;
+  }
+
+  const typeNode = node.get('type', true) as Node | undefined;
+  if (!typeNode) {
+    report(ctx, node, path, 'Missing required key "type"');
+    return;
+  }
+  if (!checkEnum(ctx, typeNode, join(path, 'type'), Object.keys(TRANSFORM_KEYS))) {
+    return;
+  }
+
+  const type = scalarValue(typeNode) as ArgumentTransform['type'];
+  const entries = checkMap(ctx, node, path, TRANSFORM_KEYS[type]);
+  if (!entries) return;
+
+  if (!entries.has('field')) {
+    report(ctx, node, path, 'Missing required key "field"');
+  }
+  checkString(ctx, entries.get('field'), join(path, 'field'));
+
+  switch (type) {
+    case 'mask':
+      if (!entries.has('pattern')) {
+        report(ctx, node, path, 'Missing required key "pattern"');
+      } else {
+        checkRegex(ctx, entries.get('pattern') as Node, join(path, 'pattern'));
+      }
+      checkString(ctx, entries.get('replacement'), join(path, 'replacement'));
+      break;
+    case 'clamp':
+      for (const key of ['min', 'max']) {
+        const bound = entries.get(key);
+        if (bound && !isScalarOfType(bound, 'number')) {
+          report(ctx, bound, join(path, key), 'Expected a number');
+        }
+      }
+      break;
+    case 'prefix':
+      if (!entries.has('prefix')) {
+        report(ctx, node, path, 'Missing required key "prefix"');
+      }
+      checkString(ctx, entries.get('prefix'), join(path, 'prefix'));
+      break;
+    case 'drop':
+      break;
+  }
+}
+
+/**
+ * Check that a node is a mapping with only allowed keys.
+ *
+ * @returns The mapping's values keyed by key, or null if not a mapping
+ */
+function checkMap(
+  ctx: WalkContext,
+  node: Node | null | undefined,
+  path: string,
+  allowed: readonly string[]
+): Map<string, Node> | null {
+  if (!isMap(node)) {
+    report(ctx, node, path, 'Expected a mapping');
+    return null;
+  }
+
+  const entries = new Map<string, Node>();
+  for (const pair of node.items) {
+    const keyNode = pair.key as Node;
+    const key = String(scalarValue(keyNode));
+
+    if (!allowed.includes(key)) {
+      const suggestion = suggest(key, allowed);
+      report(
+        ctx,
+        keyNode,
+        join(path, key),
+        suggestion
+          ? `Unknown key "${key}" (did you mean "${suggestion}"?)`
+          : `Unknown key "${key}"`
+      );
+      continue;
+    }
+
+    entries.set(key, (pair.value ?? keyNode) as Node);
+  }
+
+  return entries;
+}
+
+/**
+ * Check that an optional node is a string.
+ */
+function checkString(ctx: WalkContext, node: Node | undefined, path: string): boolean {
+  if (!node) return false;
+  if (!isScalarOfType(node, 'string')) {
+    report(ctx, node, path, 'Expected a string');
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check that an optional node is a list of strings.
+ */
+function checkStringList(ctx: WalkContext, node: Node | undefined, path: string): void {
+  if (!node || isNull(node)) return;
+  if (!isSeq(node)) {
+    report(ctx, node, path, 'Expected a list of strings');
+    return;
+  }
+  node.items.forEach((item, index) => {
+    checkString(ctx, item as Node, `${path}[${index}]`);
+  });
+}
+
+/**
+ * Check that an optional node is one of the allowed values.
+ */
+function checkEnum(
+  ctx: WalkContext,
+  node: Node | undefined,
+  path: string,
+  allowed: readonly string[]
+): boolean {
+  if (!node) return false;
+
+  const value = scalarValue(node);
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    report(ctx, node, path, `Invalid value "${String(value)}", expected one of: ${allowed.join(', ')}`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check that a node is a string that compiles as a regex.
+ */
+function checkRegex(ctx: WalkContext, node: Node, path: string): void {
+  if (!checkString(ctx, node, path)) return;
+
+  try {
+    new RegExp(String(scalarValue(node)));
+  } catch (error) {
+    report(
+      ctx,
+      node,
+      path,
+      `Invalid regex: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Record an issue at a node's position.
+ */
+function report(
+  ctx: WalkContext,
+  node: Node | null | undefined,
+  path: string,
+  message: string
+): void {
+  const { line, col } = position(ctx, node);
+  ctx.issues.push({ file: ctx.file, line, column: col, path, message });
+}
+
+/**
+ * Get the 1-based line and column of a node.
+ */
+function position(ctx: WalkContext, node: Node | null | undefined): { line: number; col: number } {
+  return ctx.lineCounter.linePos(node?.range?.[0] ?? 0);
+}
+
+/**
+ * Get the value of a scalar node, or undefined for collections.
+ */
+function scalarValue(node: Node | null | undefined): unknown {
+  return isScalar(node) ? node.value : undefined;
+}
+
+/**
+ * Check whether a node is a scalar of the given JS type.
+ */
+function isScalarOfType(node: Node, type: 'string' | 'number' | 'boolean'): boolean {
+  return isScalar(node) && typeof node.value === type;
+}
+
+/**
+ * Check whether a node is an explicit null (e.g. `conditions:` with no value).
+ */
+function isNull(node: Node): boolean {
+  return isScalar(node) && node.value === null;
+}
+
+/**
+ * Join a parent path and a key.
+ */
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Suggest the closest allowed key for a likely typo.
+ */
+function suggest(key: string, allowed: readonly string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+
+  for (const candidate of allowed) {
+    const distance = editDistance(key, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
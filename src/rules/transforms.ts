@@ -0,0 +1,191 @@
+/**
+ * Declarative argument transforms.
+ *
+ * Applies the transforms of rules with action "modify" to tool call
+ * arguments, producing sanitized arguments for the wrapped handler.
+ *
+ * @module rules/transforms
+ */
+
+import { posix } from 'node:path';
+import type { ArgumentTransform } from './types.js';
+import { resolveFieldPath } from './evaluator.js';
+
+/**
+ * Result of applying transforms to tool call arguments.
+ */
+export interface TransformResult {
+  /** The rewritten arguments (a copy; the input is never mutated) */
+  arguments: Record<string, unknown>;
+  /** Fields whose value actually changed */
+  changedFields: string[];
+}
+
+/**
+ * Error thrown when a transform is malformed.
+ */
+export class TransformError extends Error {
+  readonly transform: ArgumentTransform;
+
+  constructor(message: string, transform: ArgumentTransform) {
+    super(message);
+    this.name = 'TransformError';
+    this.transform = transform;
+  }
+}
+
+/**
+ * Apply transforms to tool call arguments, in order.
+ *
+ * Transforms whose field is missing or has the wrong type are skipped.
+ *
+ * @param args - Original tool call arguments
+ * @param transforms - Transforms to apply
+ * @returns Rewritten arguments and the fields that changed
+ * @throws {TransformError} If a transform is malformed
+ */
+export function applyTransforms(
+  args: Record<string, unknown>,
+  transforms: readonly ArgumentTransform[]
+): TransformResult {
+  const root = { arguments: structuredClone(args) };
+  const changed = new Set<string>();
+
+  for (const transform of transforms) {
+    if (!transform.field || !transform.field.startsWith('arguments.')) {
+      throw new TransformError(
+        `Transform field must start with "arguments.": ${String(transform.field)}`,
+        transform
+      );
+    }
+
+    const current = resolveFieldPath(root, transform.field);
+    if (current === undefined) continue;
+
+    if (transform.type === 'drop') {
+      deleteFieldPath(root, transform.field);
+      changed.add(transform.field);
+      continue;
+    }
+
+    const next = transformValue(current, transform);
+    if (next !== current) {
+      setFieldPath(root, transform.field, next);
+      changed.add(transform.field);
+    }
+  }
+
+  return { arguments: root.arguments, changedFields: [...changed] };
+}
+
+/**
+ * Replace the values of fields with a placeholder.
+ *
+ * Fields that are missing are skipped.
+ *
+ * @param args - Tool call arguments
+ * @param fields - Fields to redact, in dot notation rooted at "arguments"
+ * @param placeholder - Replacement value (default: "[REDACTED]")
+ * @returns Redacted copy of the arguments
+ */
+export function redactFields(
+  args: Record<string, unknown>,
+  fields: readonly string[],
+  placeholder: string = '[REDACTED]'
+): Record<string, unknown> {
+  const root = { arguments: structuredClone(args) };
+
+  for (const field of fields) {
+    if (field.startsWith('arguments.') && resolveFieldPath(root, field) !== undefined) {
+      setFieldPath(root, field, placeholder);
+    }
+  }
+
+  return root.arguments;
+}
+
+/**
+ * Compute the new value of a field for a single transform.
+ */
+function transformValue(value: unknown, transform: ArgumentTransform): unknown {
+  switch (transform.type) {
+    case 'mask': {
+      if (typeof value !== 'string') return value;
+      let regex: RegExp;
+      try {
+        regex = new RegExp(transform.pattern, 'g');
+      } catch (error) {
+        throw new TransformError(
+          `Invalid regex "${transform.pattern}": ${error instanceof Error ? error.message : String(error)}`,
+          transform
+        );
+      }
+      return value.replace(regex, transform.replacement ?? '***');
+    }
+
+    case 'clamp': {
+      if (typeof value !== 'number') return value;
+      let clamped = value;
+      if (transform.min !== undefined) clamped = Math.max(transform.min, clamped);
+      if (transform.max !== undefined) clamped = Math.min(transform.max, clamped);
+      return clamped;
+    }
+
+    case 'prefix': {
+      if (typeof value !== 'string') return value;
+      return forcePrefix(value, transform.prefix);
+    }
+
+    default:
+      throw new TransformError(
+        `Unknown transform type: ${String((transform as { type: unknown }).type)}`,
+        transform
+      );
+  }
+}
+
+/**
+ * Force a path under a prefix directory.
+ *
+ * The path is normalized first, so "../" segments cannot escape the prefix.
+ */
+function forcePrefix(path: string, prefix: string): string {
+  const normalizedPrefix = posix.normalize(prefix).replace(/\/$/, '');
+  const normalizedPath = posix.normalize(path);
+
+  if (
+    normalizedPath === normalizedPrefix ||
+    normalizedPath.startsWith(`${normalizedPrefix}/`)
+  ) {
+    return normalizedPath;
+  }
+
+  // Resolve relative to "/" so leading "../" segments collapse
+  return posix.join(normalizedPrefix, posix.normalize(`/${path}`));
+}
+
+/**
+ * Set a value at a dot-notation path. Intermediate segments must exist.
+ */
+function setFieldPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = path.split('.');
+  const parent = resolveFieldPath(target, segments.slice(0, -1).join('.'));
+  if (parent && typeof parent === 'object') {
+    (parent as Record<string, unknown>)[segments[segments.length - 1]] = value;
+  }
+}
+
+/**
+ * Delete the value at a dot-notation path.
+ */
+function deleteFieldPath(target: Record<string, unknown>, path: string): void {
+  const segments = path.split('.');
+  const parent = resolveFieldPath(target, segments.slice(0, -1).join('.'));
+  if (parent && typeof parent === 'object') {
+    if (Array.isArray(parent)) {
+      parent.splice(Number(segments[segments.length - 1]), 1);
+    } else {
+      delete (parent as Record<string, unknown>)[segments[segments.length - 1]];
+    }
+  }
+}
@@ -35,16 +35,112 @@ export interface RuleCondition {
   value: unknown;
 }
 
+/**
+ * A condition on the calls made before the current one.
+ *
+ * "preceded_by" matches if an earlier call matches; "not_preceded_by"
+ * matches if none does. Only calls that were allowed count.
+ */
+export interface SequenceCondition {
+  /** Whether a matching earlier call must or must not exist */
+  operator: 'preceded_by' | 'not_preceded_by';
+  /** Tools the earlier call may be to (default: any) */
+  tools?: string[];
+  /** Conditions the earlier call must match, e.g. on "arguments.path" */
+  conditions?: RuleCondition[];
+  /** Only look at the last N calls */
+  within_calls?: number;
+  /** Only look at calls this recent: seconds, or a duration such as "30s", "5m" or "1h" */
+  within?: number | string;
+}
+
 /**
  * Action to take when a rule matches.
+ *
+ * "modify" rewrites the arguments with the rule's `transforms` and lets
+ * the call proceed with the sanitized arguments. "require_approval" pauses
+ * the call until an approval provider approves or denies it.
+ */
+export type RuleAction = 'block' | 'warn' | 'log' | 'allow' | 'modify' | 'require_approval';
+
+/**
+ * Declarative argument transform applied by rules with action "modify".
+ *
+ * Fields use dot notation rooted at "arguments", like rule conditions.
+ */
+export type ArgumentTransform =
+  | MaskTransform
+  | ClampTransform
+  | PrefixTransform
+  | DropTransform;
+
+/**
+ * Replace every regex match in a string field.
+ */
+export interface MaskTransform {
+  type: 'mask';
+  /** The field to rewrite (e.g., "arguments.body") */
+  field: string;
+  /** Regex pattern to mask */
+  pattern: string;
+  /** Replacement text (default: "***") */
+  replacement?: string;
+}
+
+/**
+ * Clamp a numeric field to a range.
+ */
+export interface ClampTransform {
+  type: 'clamp';
+  /** The field to rewrite (e.g., "arguments.amount") */
+  field: string;
+  /** Lower bound */
+  min?: number;
+  /** Upper bound */
+  max?: number;
+}
+
+/**
+ * Force a path field under a prefix directory.
+ */
+export interface PrefixTransform {
+  type: 'prefix';
+  /** The field to rewrite (e.g., "arguments.path") */
+  field: string;
+  /** Directory the path must stay within (e.g., "/workspace") */
+  prefix: string;
+}
+
+/**
+ * Remove a field from the arguments.
  */
-export type RuleAction = 'block' | 'warn' | 'log' | 'allow';
+export interface DropTransform {
+  type: 'drop';
+  /** The field to remove (e.g., "arguments.headers.authorization") */
+  field: string;
+}
 
 /**
  * Severity level for a rule.
  */
 export type RuleSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
 
+/**
+ * Rate limit or quota of a rule.
+ *
+ * Counts the earlier calls the rule applies to within the sliding window,
+ * or sums one of their argument values, and blocks the call that would
+ * exceed `max`.
+ */
+export interface RateLimit {
+  /** Maximum number of calls, or maximum sum of `sum`, in the window */
+  max: number;
+  /** Window length: seconds, or a duration such as "30s", "5m", "1h" or "1d" */
+  window: number | string;
+  /** Argument whose values are summed instead of counting calls, in dot notation, e.g. "amount" */
+  sum?: string;
+}
+
 /**
  * A single rule definition.
  */
@@ -67,8 +163,16 @@ export interface Rule {
   conditions?: RuleCondition[];
   /** Alternative condition groups (OR logic between groups) */
   condition_groups?: RuleCondition[][];
+  /** Conditions on earlier calls (AND), evaluated against the call history */
+  sequence?: SequenceCondition[];
+  /** Argument transforms for rules with action "modify" */
+  transforms?: ArgumentTransform[];
   /** Tags for categorization */
   tags?: string[];
+  /** Whether backend decisions for calls this rule applies to may be cached (default: true) */
+  cache?: boolean;
+  /** Limit on the calls (or an argument sum) in a sliding window, enforced locally */
+  rate_limit?: RateLimit;
   /** Additional metadata */
   metadata?: Record<string, unknown>;
 }
@@ -87,8 +191,25 @@ export interface RuleSet {
   rules: Rule[];
   /** Global settings for this rule set */
   settings?: RuleSetSettings;
+  /**
+   * Rule sets to inherit rules, fragments and settings from.
+   * Relative paths resolve against this file; other specifiers are npm packages.
+   */
+  extends?: string | string[];
+  /** Rule sets whose rules and fragments are added, without their settings */
+  include?: string | string[];
+  /** Named condition lists that rules reference as "$name" */
+  fragments?: Record<string, RuleCondition[]>;
+  /** Changes to inherited rules, matched by rule ID */
+  overrides?: RuleOverride[];
 }
 
+/**
+ * Change to an inherited rule. Set fields replace the inherited ones;
+ * `enabled: false` disables the rule.
+ */
+export type RuleOverride = Partial<Omit<Rule, 'id'>> & { id: string };
+
 /**
  * Global settings for a rule set.
  */
@@ -97,6 +218,8 @@ export interface RuleSetSettings {
   default_action?: RuleAction;
   /** Whether to fail open (allow) or closed (block) on errors */
   fail_mode?: 'open' | 'closed';
+  /** Block calls whose backend block weight reaches this value (0.0 - 1.0) */
+  block_threshold?: number;
   /** Tags to apply to all rules in this set */
   global_tags?: string[];
 }
@@ -133,6 +256,12 @@ export interface ToolCallHistorySummary {
   allowed: boolean;
   /** Timestamp */
   timestamp: string;
+  /** Validation decision */
+  decision?: 'allow' | 'deny' | 'modify';
+  /** Reason given for the decision */
+  reason?: string;
+  /** Arguments, with redacted fields replaced (only if arguments are included) */
+  arguments?: Record<string, unknown>;
 }
 
 /**
@@ -145,6 +274,24 @@ export interface ValidationAPIRequest {
   rules: Rule[];
 }
 
+/**
+ * Request payload sent to the validation API's batch endpoint.
+ */
+export interface ValidationAPIBatchRequest {
+  /** The tool call contexts */
+  contexts: ToolCallContext[];
+  /** Rules applicable to each tool call, in the order of `contexts` */
+  rules: Rule[][];
+}
+
+/**
+ * Response from the validation API's batch endpoint.
+ */
+export interface ValidationAPIBatchResponse {
+  /** One response per tool call, in the order of the request's `contexts` */
+  results: ValidationAPIResponse[];
+}
+
 /**
  * Response from the validation API.
  */
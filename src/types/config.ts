@@ -5,6 +5,7 @@
  */
 
 import type { Logger } from '../utils/logger.js';
+import type { RuleSeverity } from '../rules/types.js';
 
 /**
  * Log level for Veto operations.
@@ -27,10 +28,62 @@ export interface ValidationResult {
   reason?: string;
   /** For 'modify' decisions, the modified arguments */
   modifiedArguments?: Record<string, unknown>;
+  /** Warnings raised by matched rules that did not block the call */
+  warnings?: ValidationWarning[];
+  /** Set when the call may only proceed after human approval */
+  requiresApproval?: ApprovalRequirement;
+  /** Results of the individual backends when several decided the call */
+  backendResults?: BackendResult[];
   /** Additional metadata about the validation */
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Result of one decision backend in an ensemble.
+ */
+export interface BackendResult {
+  /** Backend name */
+  backend: string;
+  /** Decision of the backend, unless it failed */
+  decision?: 'pass' | 'block';
+  /** Confidence that the call should pass, if reported */
+  passWeight?: number;
+  /** Confidence that the call should be blocked, if reported */
+  blockWeight?: number;
+  /** Reasoning of the backend */
+  reasoning?: string;
+  /** IDs of rules the backend reported as matched */
+  matchedRules?: string[];
+  /** Error message if the backend was unavailable */
+  error?: string;
+  /** Time the backend took in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Warning raised when a rule with action "warn" matches a tool call.
+ */
+export interface ValidationWarning {
+  /** ID of the rule that matched */
+  ruleId: string;
+  /** Name of the rule that matched */
+  ruleName: string;
+  /** Severity of the rule */
+  severity: RuleSeverity;
+  /** Human-readable warning message */
+  message: string;
+}
+
+/**
+ * Approval required by rules with action "require_approval".
+ */
+export interface ApprovalRequirement {
+  /** IDs of the rules that require approval */
+  ruleIds: string[];
+  /** Human-readable reason approval is needed */
+  reason: string;
+}
+
 /**
  * Context provided to validators for making decisions.
  */
@@ -47,6 +100,10 @@ export interface ValidationContext {
   callHistory: readonly ToolCallHistoryEntry[];
   /** Custom context data passed by the user */
   custom?: Record<string, unknown>;
+  /** Session the call belongs to (if known) */
+  sessionId?: string;
+  /** Agent making the call (if known) */
+  agentId?: string;
 }
 
 /**
@@ -63,6 +120,8 @@ export interface ToolCallHistoryEntry {
   timestamp: Date;
   /** Duration of the tool execution in milliseconds (if executed) */
   durationMs?: number;
+  /** ID of the tool call (if known) */
+  callId?: string;
 }
 
 /**
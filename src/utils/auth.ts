@@ -0,0 +1,74 @@
+/**
+ * Authentication for validation API requests.
+ *
+ * @module utils/auth
+ */
+
+import { createHmac } from 'node:crypto';
+
+/**
+ * HMAC request signing.
+ *
+ * The signature is computed over `<timestamp>.<body>` and sent as
+ * `<algorithm>=<hex digest>`, with the Unix timestamp (seconds) in a
+ * separate header so the server can reject replays.
+ */
+export interface HMACAuthConfig {
+  /** Shared signing secret */
+  secret: string;
+  /** Hash algorithm (default: sha256) */
+  algorithm?: 'sha256' | 'sha512';
+  /** Signature header (default: X-Veto-Signature) */
+  header?: string;
+  /** Timestamp header (default: X-Veto-Timestamp) */
+  timestampHeader?: string;
+}
+
+/**
+ * `auth` block of the API configuration.
+ */
+export interface APIAuthConfig {
+  /** Token sent as `Authorization: Bearer <token>` */
+  bearer?: string;
+  /** Additional headers sent with every request */
+  headers?: Record<string, string>;
+  /** Sign request bodies with a shared secret */
+  hmac?: HMACAuthConfig;
+}
+
+/**
+ * Build the authentication headers for a request.
+ *
+ * @param auth - Auth configuration (no headers if undefined)
+ * @param body - Exact request body that will be sent
+ * @param now - Current time in milliseconds, for signing
+ * @returns Headers to add to the request
+ */
+export function buildAuthHeaders(
+  auth: APIAuthConfig | undefined,
+  body: string,
+  now: number = Date.now()
+): Record<string, string> {
+  if (!auth) {
+    return {};
+  }
+
+  const headers: Record<string, string> = { ...auth.headers };
+
+  if (auth.bearer) {
+    headers['Authorization'] = `Bearer ${auth.bearer}`;
+  }
+
+  if (auth.hmac) {
+    const algorithm = auth.hmac.algorithm ?? 'sha256';
+    const timestamp = String(Math.floor(now / 1000));
+    const signature = createHmac(algorithm, auth.hmac.secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    headers[auth.hmac.timestampHeader ?? 'X-Veto-Timestamp'] = timestamp;
+    headers[auth.hmac.header ?? 'X-Veto-Signature'] = `${algorithm}=${signature}`;
+  }
+
+  return headers;
+}
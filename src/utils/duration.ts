@@ -0,0 +1,47 @@
+/**
+ * Duration parsing for rule files.
+ *
+ * @module utils/duration
+ */
+
+const UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parse a duration into milliseconds.
+ *
+ * Numbers are seconds; strings are a number followed by a unit:
+ * "500ms", "30s", "5m", "1h" or "1d".
+ *
+ * @param value - Duration
+ * @returns Milliseconds, or null if the value is not a valid duration
+ */
+export function parseDuration(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value * 1000 : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/.exec(value.trim());
+  return match ? Number(match[1]) * UNITS[match[2]] : null;
+}
+
+/**
+ * Format milliseconds with the largest unit that divides them evenly,
+ * e.g. 3600000 as "1h" and 90000 as "90s".
+ */
+export function formatDuration(ms: number): string {
+  for (const unit of ['d', 'h', 'm', 's']) {
+    if (ms >= UNITS[unit] && ms % UNITS[unit] === 0) {
+      return `${ms / UNITS[unit]}${unit}`;
+    }
+  }
+  return `${ms}ms`;
+}
@@ -0,0 +1,136 @@
+/**
+ * Environment variable interpolation for config and rule files.
+ *
+ * Replaces `${VAR}` and `${VAR:-default}` in string values so endpoints and
+ * secrets do not have to be committed. `$${` produces a literal `${`.
+ *
+ * @module utils/env
+ */
+
+/**
+ * Environment variables to interpolate from.
+ */
+export type Environment = Record<string, string | undefined>;
+
+/**
+ * Type a value that is exactly one reference is converted to.
+ */
+export type InterpolatedType = 'number' | 'boolean';
+
+/**
+ * Look up the type of the value at a path of mapping keys and list
+ * indexes, or undefined to keep the value a string.
+ */
+export type InterpolatedTypes = (path: readonly string[]) => InterpolatedType | undefined;
+
+/**
+ * Error thrown when a referenced variable is not set and has no default.
+ */
+export class EnvInterpolationError extends Error {
+  /** Name of the missing variable */
+  readonly variable: string;
+
+  constructor(variable: string) {
+    super(`Environment variable "${variable}" is not set`);
+    this.name = 'EnvInterpolationError';
+    this.variable = variable;
+  }
+}
+
+const REFERENCE = /\$\$\{|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+const WHOLE_REFERENCE = /^\$\{[A-Za-z_][A-Za-z0-9_]*(?::-[^}]*)?\}$/;
+
+/**
+ * Interpolate variables into a string.
+ *
+ * Defaults apply when the variable is unset or empty, as in the shell.
+ *
+ * @throws {EnvInterpolationError} If a variable without a default is not set
+ */
+export function interpolateString(value: string, env: Environment = process.env): string {
+  return value.replace(REFERENCE, (_match, name: string | undefined, fallback: string | undefined) => {
+    if (name === undefined) {
+      return '${';
+    }
+
+    const resolved = env[name];
+    if (resolved !== undefined && resolved !== '') {
+      return resolved;
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    if (resolved !== undefined) {
+      return resolved;
+    }
+    throw new EnvInterpolationError(name);
+  });
+}
+
+/**
+ * Interpolate variables into a scalar value.
+ *
+ * The result is a string, so tokens such as `000123` are kept as written.
+ * A value that is exactly one reference is converted to `type` if given and
+ * the result parses as one, so `timeout: ${API_TIMEOUT:-5000}` can be a
+ * number and `watch: ${WATCH:-false}` a boolean.
+ *
+ * @throws {EnvInterpolationError} If a variable without a default is not set
+ */
+export function interpolateScalar(
+  value: string,
+  env: Environment = process.env,
+  type?: InterpolatedType
+): unknown {
+  const result = interpolateString(value, env);
+  if (!type || !WHOLE_REFERENCE.test(value)) {
+    return result;
+  }
+
+  if (type === 'boolean' && (result === 'true' || result === 'false')) {
+    return result === 'true';
+  }
+  if (type === 'number' && /^-?\d+(\.\d+)?$/.test(result)) {
+    return Number(result);
+  }
+  return result;
+}
+
+/**
+ * Interpolate variables into every string value of parsed YAML.
+ *
+ * Mapping keys are left unchanged.
+ *
+ * @param types - Types of the values that are numbers or booleans
+ * @throws {EnvInterpolationError} If a variable without a default is not set
+ */
+export function interpolateEnv<T>(
+  data: T,
+  env: Environment = process.env,
+  types?: InterpolatedTypes
+): T {
+  return interpolateValue(data, env, types, []) as T;
+}
+
+/**
+ * Interpolate variables into the value at a path.
+ */
+function interpolateValue(
+  data: unknown,
+  env: Environment,
+  types: InterpolatedTypes | undefined,
+  path: string[]
+): unknown {
+  if (typeof data === 'string') {
+    return interpolateScalar(data, env, types?.(path));
+  }
+  if (Array.isArray(data)) {
+    return data.map((item, index) => interpolateValue(item, env, types, [...path, String(index)]));
+  }
+  if (data && typeof data === 'object') {
+    return Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [key, interpolateValue(value, env, types, [...path, key])])
+    );
+  }
+  return data;
+}
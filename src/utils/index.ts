@@ -7,3 +7,7 @@
 export * from './logger.js';
 export * from './id.js';
 export * from './glob.js';
+export * from './profile.js';
+export * from './env.js';
+export * from './auth.js';
+export * from './duration.js';
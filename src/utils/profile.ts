@@ -0,0 +1,76 @@
+/**
+ * Configuration profile resolution.
+ *
+ * Profiles are named partial configs under `profiles:` in veto.config.yaml,
+ * merged over the base config so one file can serve every environment.
+ *
+ * @module utils/profile
+ */
+
+/**
+ * A config file that may declare profiles.
+ */
+export interface ProfiledConfig {
+  profiles?: Record<string, unknown>;
+}
+
+/**
+ * Select the profile to apply: an explicit name, then VETO_PROFILE.
+ *
+ * @param profile - Profile requested by the caller
+ * @returns Profile name, or undefined to use the base config
+ */
+export function selectProfile(profile?: string): string | undefined {
+  return profile ?? (process.env.VETO_PROFILE || undefined);
+}
+
+/**
+ * Merge a profile over the base config.
+ *
+ * Mappings are merged key by key; lists and scalars in the profile replace
+ * the base value.
+ *
+ * @param config - Parsed config file
+ * @param profile - Profile name, or undefined to use the base config
+ * @returns Config with the profile applied
+ * @throws {Error} If the profile is not defined in the config
+ */
+export function applyProfile<T extends ProfiledConfig>(config: T, profile: string | undefined): T {
+  if (profile === undefined) {
+    return config;
+  }
+
+  const overrides = config.profiles?.[profile];
+  if (!isPlainObject(overrides)) {
+    const available = Object.keys(config.profiles ?? {});
+    throw new Error(
+      `Unknown profile "${profile}" in veto.config.yaml` +
+      (available.length > 0 ? ` (available: ${available.join(', ')})` : '')
+    );
+  }
+
+  return mergeConfig(config, overrides) as T;
+}
+
+/**
+ * Deep-merge two config mappings.
+ */
+function mergeConfig(base: object, overrides: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    const existing = merged[key];
+    merged[key] = isPlainObject(existing) && isPlainObject(value)
+      ? mergeConfig(existing, value)
+      : value;
+  }
+
+  return merged;
+}
+
+/**
+ * Check whether a value is a plain mapping.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PassThrough } from 'node:stream';
+import {
+  createCallbackApprovalProvider,
+  createCLIApprovalProvider,
+  createWebhookApprovalProvider,
+} from '../../src/approval/providers.js';
+import type { ApprovalRequest } from '../../src/approval/types.js';
+
+const request: ApprovalRequest = {
+  callId: 'call_1',
+  toolName: 'transfer_funds',
+  arguments: { amount: 5000 },
+  ruleIds: ['approve-large-transfers'],
+  reason: 'Approval required by rule: Approve large transfers',
+  timestamp: new Date('2026-01-01T00:00:00Z'),
+};
+
+describe('approval providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('createCallbackApprovalProvider', () => {
+    it('should accept boolean answers', async () => {
+      const provider = createCallbackApprovalProvider(() => true);
+
+      const response = await provider.requestApproval(request, new AbortController().signal);
+
+      expect(provider.name).toBe('callback');
+      expect(response).toEqual({ approved: true });
+    });
+  });
+
+  describe('createCLIApprovalProvider', () => {
+    it('should approve when the answer starts with y', async () => {
+      const input = new PassThrough();
+      const output = new PassThrough();
+      const provider = createCLIApprovalProvider({ input, output });
+
+      const pending = provider.requestApproval(request, new AbortController().signal);
+      input.write('yes\n');
+
+      await expect(pending).resolves.toEqual({ approved: true, approver: 'cli' });
+      expect(output.read().toString()).toContain('transfer_funds');
+    });
+  });
+
+  describe('createWebhookApprovalProvider', () => {
+    it('should post the request and parse the answer', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ approved: false, approver: 'ops', reason: 'too large' }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = createWebhookApprovalProvider({
+        url: 'https://example.com/approve',
+        headers: { 'X-Token': 'secret' },
+      });
+
+      const response = await provider.requestApproval(request, new AbortController().signal);
+
+      expect(response).toEqual({ approved: false, approver: 'ops', reason: 'too large' });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://example.com/approve');
+      expect(init.headers['X-Token']).toBe('secret');
+      expect(JSON.parse(init.body)).toMatchObject({
+        call_id: 'call_1',
+        tool_name: 'transfer_funds',
+        rule_ids: ['approve-large-transfers'],
+      });
+    });
+
+    it('should reject responses without an approved flag', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: async () => ({}) }));
+      const provider = createWebhookApprovalProvider({ url: 'https://example.com/approve' });
+
+      await expect(
+        provider.requestApproval(request, new AbortController().signal)
+      ).rejects.toThrow('missing approved');
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { loadVetoConfig } from '../../src/cli/config.js';
+
+const TEST_DIR = '/tmp/veto-config-test-' + Date.now();
+const VETO_DIR = join(TEST_DIR, 'veto');
+
+describe('loadVetoConfig', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    mkdirSync(VETO_DIR, { recursive: true });
+    writeFileSync(
+      join(VETO_DIR, 'veto.config.yaml'),
+      `
+version: "1.0"
+api:
+  baseUrl: "http://localhost:8080"
+  timeout: 5000
+logging:
+  level: "silent"
+profiles:
+  prod:
+    api:
+      baseUrl: "https://veto.example.com"
+      apiKey: "\${VETO_CONFIG_TEST_PROD_KEY}"
+    rules:
+      directory: "./rules-prod"
+      tags: [prod]
+`,
+      'utf-8'
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+
+  it('should not require variables of profiles that are not selected', async () => {
+    const config = await loadVetoConfig(VETO_DIR, { yamlParser: parseYaml });
+
+    expect(config.profile).toBeUndefined();
+    expect(config.apiConfig.apiKey).toBeUndefined();
+  });
+
+  it('should apply the selected profile', async () => {
+    vi.stubEnv('VETO_CONFIG_TEST_PROD_KEY', 'prod-key');
+    const config = await loadVetoConfig(VETO_DIR, { yamlParser: parseYaml, profile: 'prod' });
+
+    expect(config.profile).toBe('prod');
+    expect(config.apiConfig.baseUrl).toBe('https://veto.example.com');
+    expect(config.apiConfig.timeout).toBe(5000);
+    expect(config.rulesDir).toBe(join(VETO_DIR, 'rules-prod'));
+    expect(config.ruleTags).toEqual(['prod']);
+    expect(config.apiConfig.apiKey).toBe('prod-key');
+  });
+
+  it('should build the validator on the configured validation mode', async () => {
+    writeFileSync(
+      join(VETO_DIR, 'veto.config.yaml'),
+      `
+version: "1.0"
+mode: "log"
+validation:
+  mode: "local"
+  failMode: "open"
+logging:
+  level: "silent"
+`,
+      'utf-8'
+    );
+
+    const config = await loadVetoConfig(VETO_DIR, { yamlParser: parseYaml });
+    config.validator.addRules([{
+      id: 'block-etc',
+      name: 'Block /etc',
+      enabled: true,
+      severity: 'critical',
+      action: 'block',
+      conditions: [{ field: 'arguments.path', operator: 'starts_with', value: '/etc' }],
+    }]);
+
+    const result = await config.validator.validate({
+      toolName: 'read_file',
+      arguments: { path: '/etc/passwd' },
+      callId: 'call_1',
+      timestamp: new Date(),
+      callHistory: [],
+    });
+
+    expect(config.validationMode).toBe('local');
+    expect(config.failMode).toBe('open');
+    expect(config.validator.getBackend()).toBeNull();
+    expect(result.decision).toBe('allow');
+    expect(result.reason).toBe('[LOG MODE] Would block: Blocked by rule: Block /etc');
+    expect(result.metadata?.validation_path).toBe('local');
+  });
+
+  it('should reject unknown profiles', async () => {
+    await expect(
+      loadVetoConfig(VETO_DIR, { yamlParser: parseYaml, profile: 'dev' })
+    ).rejects.toThrow('Unknown profile "dev"');
+  });
+});
@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { lint } from '../../src/cli/lint.js';
+
+const TEST_DIR = '/tmp/veto-lint-test-' + Date.now();
+const VETO_DIR = join(TEST_DIR, 'veto');
+const RULES_DIR = join(VETO_DIR, 'rules');
+
+describe('CLI lint', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    mkdirSync(RULES_DIR, { recursive: true });
+    writeFileSync(join(VETO_DIR, 'veto.config.yaml'), 'version: "1.0"\n', 'utf-8');
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+
+  const codes = (result: Awaited<ReturnType<typeof lint>>) =>
+    result.findings.map((finding) => finding.code);
+
+  it('should pass for valid rules', async () => {
+    writeFileSync(
+      join(RULES_DIR, 'rules.yaml'),
+      `
+rules:
+  - id: block-etc
+    name: Block etc
+    enabled: true
+    severity: critical
+    action: block
+    tools: [read_file]
+    conditions:
+      - field: arguments.path
+        operator: starts_with
+        value: /etc
+`,
+      'utf-8'
+    );
+
+    const result = await lint({ configDir: VETO_DIR, quiet: true });
+
+    expect(result.success).toBe(true);
+    expect(result.findings).toEqual([]);
+    expect(result.filesChecked).toBe(1);
+    expect(result.rulesChecked).toBe(1);
+  });
+
+  it('should report schema errors and duplicate IDs with locations', async () => {
+    const rule = `
+rules:
+  - id: dup
+    name: Dup
+    enabled: true
+    severity: urgent
+    action: log
+`;
+    writeFileSync(join(RULES_DIR, 'a.yaml'), rule, 'utf-8');
+    writeFileSync(join(RULES_DIR, 'b.yaml'), rule, 'utf-8');
+
+    const result = await lint({ configDir: VETO_DIR, quiet: true });
+
+    expect(result.success).toBe(false);
+    expect(codes(result)).toEqual(['schema', 'schema', 'duplicate-id']);
+    expect(result.findings[2]).toMatchObject({
+      file: join(RULES_DIR, 'b.yaml'),
+      line: 3,
+      column: 9,
+    });
+  });
+
+  it('should report rules naming tools missing from the manifest', async () => {
+    writeFileSync(
+      join(RULES_DIR, 'rules.yaml'),
+      `
+rules:
+  - id: guard-delete
+    name: Guard delete
+    enabled: true
+    severity: high
+    action: block
+    tools: [read_file, delete_file]
+`,
+      'utf-8'
+    );
+    const manifest = join(TEST_DIR, 'tools.json');
+    writeFileSync(manifest, JSON.stringify([{ name: 'read_file' }, 'write_file']), 'utf-8');
+
+    const result = await lint({ configDir: VETO_DIR, manifest, quiet: true });
+
+    expect(result.success).toBe(false);
+    expect(result.findings).toEqual([
+      expect.objectContaining({ code: 'unknown-tool', ruleId: 'guard-delete', line: 3 }),
+    ]);
+    expect(result.findings[0].message).toContain('"delete_file"');
+  });
+
+  it('should report shadowed and contradictory rules', async () => {
+    writeFileSync(
+      join(RULES_DIR, 'rules.yaml'),
+      `
+rules:
+  - id: block-etc
+    name: Block etc
+    enabled: true
+    severity: critical
+    action: block
+    conditions:
+      - field: arguments.path
+        operator: starts_with
+        value: /etc
+  - id: warn-etc-passwd
+    name: Warn on passwd
+    enabled: true
+    severity: medium
+    action: warn
+    tools: [read_file]
+    conditions:
+      - field: arguments.path
+        operator: starts_with
+        value: /etc
+      - field: arguments.path
+        operator: ends_with
+        value: passwd
+  - id: allow-tmp
+    name: Allow tmp
+    enabled: true
+    severity: info
+    action: allow
+    conditions:
+      - field: arguments.path
+        operator: starts_with
+        value: /tmp
+  - id: approve-tmp
+    name: Approve tmp
+    enabled: true
+    severity: high
+    action: require_approval
+    conditions:
+      - field: arguments.path
+        operator: starts_with
+        value: /tmp
+`,
+      'utf-8'
+    );
+
+    const result = await lint({ configDir: VETO_DIR, quiet: true });
+
+    expect(result.success).toBe(false);
+    expect(result.findings).toEqual([
+      expect.objectContaining({ code: 'shadowed-rule', ruleId: 'warn-etc-passwd' }),
+      expect.objectContaining({ code: 'contradictory-rules', ruleId: 'approve-tmp' }),
+    ]);
+  });
+
+  it('should report disabled rules without failing', async () => {
+    writeFileSync(
+      join(RULES_DIR, 'rules.yaml'),
+      `
+rules:
+  - id: off
+    name: Off
+    enabled: false
+    severity: low
+    action: log
+`,
+      'utf-8'
+    );
+
+    const result = await lint({ configDir: VETO_DIR, quiet: true });
+
+    expect(result.success).toBe(true);
+    expect(codes(result)).toEqual(['disabled-rule']);
+  });
+
+  it('should only check rules selected by tags in the given profile', async () => {
+    writeFileSync(
+      join(VETO_DIR, 'veto.config.yaml'),
+      `
+version: "1.0"
+profiles:
+  focused:
+    rules:
+      tags: [files]
+  staging:
+    api:
+      apiKey: "\${VETO_LINT_TEST_STAGING_KEY}"
+`,
+      'utf-8'
+    );
+    writeFileSync(
+      join(RULES_DIR, 'rules.yaml'),
+      `
+rules:
+  - id: block-etc
+    name: Block etc
+    enabled: true
+    severity: critical
+    action: block
+    tools: [read_file]
+    tags: [strict]
+    conditions:
+      - field: arguments.path
+        operator: starts_with
+        value: /etc
+  - id: warn-etc-passwd
+    name: Warn on passwd
+    enabled: true
+    severity: low
+    action: warn
+    tools: [read_file]
+    tags: [files]
+    conditions:
+      - field: arguments.path
+        operator: starts_with
+        value: /etc
+      - field: arguments.path
+        operator: contains
+        value: passwd
+`,
+      'utf-8'
+    );
+
+    const all = await lint({ configDir: VETO_DIR, quiet: true });
+    const focused = await lint({ configDir: VETO_DIR, profile: 'focused', quiet: true });
+    const unknown = await lint({ configDir: VETO_DIR, profile: 'missing', quiet: true });
+
+    expect(codes(all)).toEqual(['shadowed-rule']);
+    expect(focused.success).toBe(true);
+    expect(focused.findings).toEqual([]);
+    expect(unknown.success).toBe(false);
+    expect(unknown.findings[0]).toMatchObject({
+      code: 'invalid-config',
+      message: expect.stringContaining('missing'),
+    });
+  });
+
+  it('should lint a base inside the rules directory only through the file extending it', async () => {
+    mkdirSync(join(RULES_DIR, 'base'));
+    writeFileSync(
+      join(RULES_DIR, 'base', 'tmp.yaml'),
+      `
+rules:
+  - id: no-tmp
+    name: No tmp
+    enabled: true
+    severity: high
+    action: block
+    tools: [write_file]
+`,
+      'utf-8'
+    );
+    writeFileSync(
+      join(RULES_DIR, 'project.yaml'),
+      `
+extends: ./base/tmp.yaml
+rules:
+  - id: no-tmp
+    name: No tmp
+    enabled: true
+    severity: high
+    action: warn
+    tools: [write_file]
+`,
+      'utf-8'
+    );
+
+    const result = await lint({ configDir: VETO_DIR, quiet: true });
+
+    expect(result.success).toBe(true);
+    expect(result.findings).toEqual([
+      expect.objectContaining({ code: 'pulled-in-file', file: join(RULES_DIR, 'base', 'tmp.yaml') }),
+    ]);
+    expect(result.rulesChecked).toBe(1);
+  });
+
+  it('should check inherited rules and report unresolvable inheritance', async () => {
+    writeFileSync(
+      join(VETO_DIR, 'baseline.yaml'),
+      `
+rules:
+  - id: baseline-off
+    name: Baseline off
+    enabled: false
+    severity: low
+    action: log
+`,
+      'utf-8'
+    );
+    writeFileSync(join(RULES_DIR, 'project.yaml'), 'extends: ../baseline.yaml\n', 'utf-8');
+    writeFileSync(join(RULES_DIR, 'broken.yaml'), 'extends: ../missing.yaml\n', 'utf-8');
+
+    const result = await lint({ configDir: VETO_DIR, quiet: true });
+
+    expect(result.success).toBe(false);
+    expect(result.findings).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ code: 'disabled-rule', ruleId: 'baseline-off' }),
+        expect.objectContaining({
+          code: 'invalid-inheritance',
+          file: join(RULES_DIR, 'broken.yaml'),
+        }),
+      ])
+    );
+  });
+});
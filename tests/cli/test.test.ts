@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { runPolicyTests } from '../../src/cli/test.js';
+import { Veto } from '../../src/core/veto.js';
+
+const TEST_DIR = '/tmp/veto-policy-test-' + Date.now();
+const VETO_DIR = join(TEST_DIR, 'veto');
+const RULES_DIR = join(VETO_DIR, 'rules');
+const TESTS_DIR = join(VETO_DIR, 'tests');
+
+describe('CLI test', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    mkdirSync(RULES_DIR, { recursive: true });
+    mkdirSync(TESTS_DIR, { recursive: true });
+    writeFileSync(
+      join(VETO_DIR, 'veto.config.yaml'),
+      'version: "1.0"\nlogging:\n  level: "silent"\n',
+      'utf-8'
+    );
+    writeFileSync(
+      join(RULES_DIR, 'rules.yaml'),
+      `
+rules:
+  - id: block-etc
+    name: Block etc
+    enabled: true
+    severity: critical
+    action: block
+    tools: [read_file]
+    conditions:
+      - field: arguments.path
+        operator: starts_with
+        value: /etc
+  - id: limit-calls
+    name: Limit calls
+    enabled: true
+    severity: high
+    action: block
+    tools: [read_file]
+    conditions:
+      - field: context.calls_this_minute
+        operator: greater_than
+        value: 10
+  - id: no-exfiltration
+    name: No exfiltration
+    description: Block uploads of private data
+    enabled: true
+    severity: critical
+    action: block
+    tools: [http_post]
+`,
+      'utf-8'
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+
+  it('should run tests against the local rules engine', async () => {
+    writeFileSync(
+      join(TESTS_DIR, 'files.yaml'),
+      `
+tests:
+  - name: blocks etc
+    tool: read_file
+    arguments: { path: /etc/passwd }
+    expect:
+      decision: deny
+      matched_rules: [block-etc]
+  - name: allows home
+    tool: read_file
+    arguments: { path: /home/user/notes.txt }
+    history:
+      - tool: read_file
+        arguments: { path: /etc/hosts }
+    expect:
+      decision: allow
+  - name: uses custom context
+    tool: read_file
+    arguments: { path: /home/user/notes.txt }
+    context: { calls_this_minute: 50 }
+    expect:
+      decision: deny
+      matched_rules: [limit-calls]
+`,
+      'utf-8'
+    );
+
+    const result = await runPolicyTests({ configDir: VETO_DIR, quiet: true });
+
+    expect(result.results.map((entry) => entry.failures)).toEqual([[], [], []]);
+    expect(result.success).toBe(true);
+    expect(result.passed).toBe(3);
+  });
+
+  it('should use the mocked decider for calls local rules cannot decide', async () => {
+    writeFileSync(
+      join(TESTS_DIR, 'decider.yaml'),
+      `
+- name: decider blocks upload
+  tool: http_post
+  arguments: { url: https://example.com, body: secrets }
+  decider:
+    decision: block
+    matched_rules: [no-exfiltration]
+  expect:
+    decision: deny
+    matched_rules: [no-exfiltration]
+- name: decider allows upload
+  tool: http_post
+  arguments: { url: https://example.com }
+  decider:
+    decision: pass
+  expect:
+    decision: allow
+`,
+      'utf-8'
+    );
+
+    const result = await runPolicyTests({ configDir: VETO_DIR, quiet: true });
+
+    expect(result.results.map((entry) => entry.failures)).toEqual([[], []]);
+    expect(result.success).toBe(true);
+  });
+
+  it('should keep the configured validation mode', async () => {
+    writeFileSync(
+      join(VETO_DIR, 'veto.config.yaml'),
+      'version: "1.0"\nvalidation:\n  mode: "hybrid"\n',
+      'utf-8'
+    );
+    writeFileSync(
+      join(TESTS_DIR, 'hybrid.yaml'),
+      `
+- name: local rules decide unmatched calls
+  tool: read_file
+  arguments: { path: /home/user/notes.txt }
+  decider:
+    decision: block
+  expect:
+    decision: allow
+- name: decider decides calls local rules cannot
+  tool: http_post
+  arguments: { url: https://example.com }
+  decider:
+    decision: block
+    matched_rules: [no-exfiltration]
+  expect:
+    decision: deny
+    matched_rules: [no-exfiltration]
+`,
+      'utf-8'
+    );
+
+    const result = await runPolicyTests({ configDir: VETO_DIR, quiet: true });
+
+    expect(result.results.map((entry) => entry.failures)).toEqual([[], []]);
+  });
+
+  it('should not watch rules or touch the configured history store', async () => {
+    writeFileSync(
+      join(VETO_DIR, 'veto.config.yaml'),
+      `
+version: "1.0"
+rules:
+  watch: true
+validation:
+  mode: "local"
+  history:
+    store: "jsonl"
+    path: "history.jsonl"
+`,
+      'utf-8'
+    );
+    writeFileSync(
+      join(TESTS_DIR, 'files.yaml'),
+      `
+- name: allows home
+  tool: read_file
+  arguments: { path: /home/user/notes.txt }
+  history:
+    - tool: read_file
+  expect:
+    decision: allow
+- name: blocks etc
+  tool: read_file
+  arguments: { path: /etc/passwd }
+  expect:
+    decision: deny
+`,
+      'utf-8'
+    );
+    const close = vi.spyOn(Veto.prototype, 'close');
+
+    const result = await runPolicyTests({ configDir: VETO_DIR, quiet: true });
+
+    expect(result.success).toBe(true);
+    expect(close).toHaveBeenCalledTimes(2);
+    expect(existsSync(join(VETO_DIR, 'history.jsonl'))).toBe(false);
+  });
+
+  it('should report failures and write a JUnit report', async () => {
+    writeFileSync(
+      join(TESTS_DIR, 'wrong.yaml'),
+      `
+tests:
+  - name: "expects <allow>"
+    tool: read_file
+    arguments: { path: /etc/shadow }
+    expect:
+      decision: allow
+`,
+      'utf-8'
+    );
+    const junit = join(TEST_DIR, 'report.xml');
+
+    const result = await runPolicyTests({ configDir: VETO_DIR, junit, quiet: true });
+
+    expect(result.success).toBe(false);
+    expect(result.failed).toBe(1);
+    expect(result.results[0].failures[0]).toContain('expected decision "allow", got "deny"');
+
+    const xml = readFileSync(junit, 'utf-8');
+    expect(xml).toContain('<testsuites name="veto" tests="1" failures="1"');
+    expect(xml).toContain('name="expects &lt;allow&gt;"');
+    expect(xml).toContain('<failure message="expected decision');
+  });
+
+  it('should fail when no tests are found', async () => {
+    const result = await runPolicyTests({ configDir: VETO_DIR, quiet: true });
+
+    expect(result.success).toBe(false);
+    expect(result.results).toEqual([]);
+  });
+});
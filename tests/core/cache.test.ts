@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DecisionCache, canonicalize } from '../../src/core/cache.js';
+import type { Rule } from '../../src/rules/types.js';
+
+const rule: Rule = {
+  id: 'no-secrets',
+  name: 'No secrets',
+  enabled: true,
+  severity: 'high',
+  action: 'block',
+};
+
+describe('DecisionCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should build the same key whatever the argument key order', () => {
+    const cache = new DecisionCache();
+
+    const a = cache.key('api', 'read_file', { path: '/x', options: { a: 1, b: 2 } }, [rule]);
+    const b = cache.key('api', 'read_file', { options: { b: 2, a: 1 }, path: '/x' }, [rule]);
+
+    expect(a).toBe(b);
+    expect(canonicalize({ b: [1, { d: 1, c: 2 }], a: null })).toBe('{"a":null,"b":[1,{"c":2,"d":1}]}');
+  });
+
+  it('should change the key when the backend, arguments or rules change', () => {
+    const cache = new DecisionCache();
+    const key = cache.key('api', 'read_file', { path: '/x' }, [rule]);
+
+    expect(cache.key('kernel', 'read_file', { path: '/x' }, [rule])).not.toBe(key);
+    expect(cache.key('api', 'read_file', { path: '/y' }, [rule])).not.toBe(key);
+    expect(cache.key('api', 'read_file', { path: '/x' }, [{ ...rule, severity: 'low' }])).not.toBe(key);
+  });
+
+  it('should expire entries after the TTL', () => {
+    vi.useFakeTimers();
+    const cache = new DecisionCache({ ttlMs: 1000 });
+    cache.set('key', { decision: 'pass', reasoning: 'OK' });
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get('key')?.reasoning).toBe('OK');
+
+    vi.advanceTimersByTime(1);
+    expect(cache.get('key')).toBeUndefined();
+    expect(cache.size()).toBe(0);
+  });
+
+  it('should evict the least recently used entry', () => {
+    const cache = new DecisionCache({ maxEntries: 2 });
+    cache.set('a', { decision: 'pass', reasoning: 'a' });
+    cache.set('b', { decision: 'pass', reasoning: 'b' });
+    cache.get('a');
+    cache.set('c', { decision: 'pass', reasoning: 'c' });
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+});
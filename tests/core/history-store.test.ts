@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { appendFileSync, existsSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { InMemoryHistoryStore, JsonlHistoryStore } from '../../src/core/history-store.js';
+import type { HistoryStore } from '../../src/core/history-store.js';
+import { HistoryTracker } from '../../src/core/history.js';
+import type { ToolCallHistoryEntry } from '../../src/types/config.js';
+
+const TEST_DIR = '/tmp/veto-history-store-test-' + Date.now();
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const entry = (toolName: string, timestamp = new Date('2026-01-01T00:00:00.000Z')): ToolCallHistoryEntry => ({
+  toolName,
+  arguments: { path: '/tmp/x' },
+  validationResult: { decision: 'allow', reason: 'OK' },
+  timestamp,
+  callId: `call_${toolName}`,
+});
+
+describe('InMemoryHistoryStore', () => {
+  it('should keep the most recent entries per session', async () => {
+    const store = new InMemoryHistoryStore({ maxEntries: 2 });
+
+    await store.append('a', entry('one'));
+    await store.append('a', entry('two'));
+    await store.append('a', entry('three'));
+    await store.append('b', entry('four'));
+
+    expect((await store.read('a', 10)).map((e) => e.toolName)).toEqual(['two', 'three']);
+    expect((await store.read('a', 1)).map((e) => e.toolName)).toEqual(['three']);
+    expect((await store.read('b', 10)).map((e) => e.toolName)).toEqual(['four']);
+    expect(await store.read('b', 0, new Date('2027-01-01T00:00:00.000Z'))).toEqual([]);
+    expect(await store.read('b', 0, new Date('2025-01-01T00:00:00.000Z'))).toHaveLength(1);
+
+    await store.clear('a');
+
+    expect(await store.read('a', 10)).toEqual([]);
+    expect(await store.read('b', 10)).toHaveLength(1);
+  });
+
+  it('should keep entries within the retention period beyond maxEntries', async () => {
+    const store = new InMemoryHistoryStore({ retention: () => 60_000 });
+    const old = new Date(Date.now() - 120_000);
+
+    for (let i = 0; i < 1000; i++) {
+      await store.append('a', entry(`old${i}`, old));
+    }
+    for (let i = 0; i < 1500; i++) {
+      await store.append('a', entry(`recent${i}`, new Date()));
+    }
+
+    const entries = await store.read('a', 0, new Date(Date.now() - 60_000));
+    expect(entries).toHaveLength(1500);
+    expect(entries[0].toolName).toBe('recent0');
+    expect(await store.read('a', 2000)).toHaveLength(1500);
+  });
+});
+
+describe('JsonlHistoryStore', () => {
+  const path = join(TEST_DIR, 'nested', 'history.jsonl');
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should return no entries before the file exists', async () => {
+    const store = new JsonlHistoryStore({ path });
+
+    expect(await store.read('a', 10)).toEqual([]);
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it('should append entries and read them back with their timestamps', async () => {
+    const store = new JsonlHistoryStore({ path });
+    const timestamp = new Date('2026-03-04T05:06:07.000Z');
+
+    await store.append('a', entry('one', timestamp));
+    await store.append('b', entry('two'));
+    await store.append('a', entry('three'));
+
+    const entries = await new JsonlHistoryStore({ path }).read('a', 10);
+
+    expect(entries.map((e) => e.toolName)).toEqual(['one', 'three']);
+    expect(entries[0]).toEqual(entry('one', timestamp));
+    expect(entries[0].timestamp).toBeInstanceOf(Date);
+    expect((await store.read('a', 1)).map((e) => e.toolName)).toEqual(['three']);
+    expect((await store.read('a', 1, new Date('2026-06-01T00:00:00.000Z'))).map((e) => e.toolName)).toEqual(['three']);
+    expect((await store.read('a', 1, new Date(0))).map((e) => e.toolName)).toEqual(['one', 'three']);
+    expect(readFileSync(path, 'utf-8').trim().split('\n')).toHaveLength(3);
+  });
+
+  it('should redact the configured argument fields before writing', async () => {
+    const store = new JsonlHistoryStore({ path, redact: ['arguments.token', 'arguments.auth.password'] });
+    const call = {
+      ...entry('login'),
+      arguments: { user: 'ada', token: 's3cret', auth: { password: 'hunter2' } },
+    };
+
+    await store.append('a', call);
+
+    const [stored] = await store.read('a', 10);
+    expect(stored.arguments).toEqual({
+      user: 'ada',
+      token: '[REDACTED]',
+      auth: { password: '[REDACTED]' },
+    });
+    expect(call.arguments.token).toBe('s3cret');
+    expect(readFileSync(path, 'utf-8')).not.toMatch(/s3cret|hunter2/);
+  });
+
+  it('should hide cleared entries without rewriting the file', async () => {
+    const store = new JsonlHistoryStore({ path });
+
+    await store.append('a', entry('one'));
+    await store.append('b', entry('two'));
+    await store.clear('a');
+    await store.append('a', entry('three'));
+
+    expect((await store.read('a', 10)).map((e) => e.toolName)).toEqual(['three']);
+    expect((await store.read('b', 10)).map((e) => e.toolName)).toEqual(['two']);
+    expect(readFileSync(path, 'utf-8').trim().split('\n')).toHaveLength(4);
+  });
+
+  it('should skip lines that are not complete records', async () => {
+    const store = new JsonlHistoryStore({ path });
+    await store.append('a', entry('one'));
+    appendFileSync(path, '{"session_id":"a","entry":{"toolName":"tr\n\n');
+    await store.append('a', entry('two'));
+
+    expect((await store.read('a', 10)).map((e) => e.toolName)).toEqual(['one', 'two']);
+  });
+});
+
+describe('HistoryTracker with a store', () => {
+  it('should load stored history and write new entries through', async () => {
+    const store = new InMemoryHistoryStore();
+    await store.append('session-1', entry('earlier'));
+
+    const tracker = new HistoryTracker({
+      maxSize: 10,
+      logger: createMockLogger(),
+      store,
+      sessionId: 'session-1',
+    });
+    await tracker.record('later', {}, { decision: 'deny' }, undefined, 'call_2');
+
+    expect((await tracker.getAll()).map((e) => e.toolName)).toEqual(['earlier', 'later']);
+    expect((await store.read('session-1', 10))[1]).toMatchObject({
+      toolName: 'later',
+      callId: 'call_2',
+    });
+
+    await tracker.clear();
+
+    expect(await tracker.size()).toBe(0);
+    expect(await store.read('session-1', 10)).toEqual([]);
+  });
+
+  it('should keep working in memory when the store fails', async () => {
+    const logger = createMockLogger();
+    const store: HistoryStore = {
+      append: vi.fn().mockRejectedValue(new Error('disk full')),
+      read: vi.fn().mockRejectedValue(new Error('unreadable')),
+      clear: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const tracker = new HistoryTracker({ maxSize: 10, logger, store });
+    await tracker.record('read_file', {}, { decision: 'allow' });
+
+    expect(await tracker.size()).toBe(1);
+    expect(store.read).toHaveBeenCalledWith('default', 10, undefined);
+    expect(logger.warn).toHaveBeenCalledWith('Failed to load history from store', expect.objectContaining({
+      error: 'unreadable',
+    }));
+    expect(logger.warn).toHaveBeenCalledWith('Failed to persist history entry', expect.objectContaining({
+      error: 'disk full',
+    }));
+  });
+});
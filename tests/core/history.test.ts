@@ -19,7 +19,7 @@ describe('HistoryTracker', () => {
   });
 
   describe('add and record', () => {
-    it('should add entries to history', () => {
+    it('should add entries to history', async () => {
       const entry: ToolCallHistoryEntry = {
         toolName: 'read_file',
         arguments: { path: '/test' },
@@ -27,103 +27,118 @@ describe('HistoryTracker', () => {
         timestamp: new Date(),
       };
 
-      tracker.add(entry);
+      await tracker.add(entry);
 
-      expect(tracker.size()).toBe(1);
-      expect(tracker.getAll()).toHaveLength(1);
-      expect(tracker.getAll()[0].toolName).toBe('read_file');
+      expect(await tracker.size()).toBe(1);
+      expect(await tracker.getAll()).toHaveLength(1);
+      expect((await tracker.getAll())[0].toolName).toBe('read_file');
     });
 
-    it('should record tool calls with convenience method', () => {
-      tracker.record(
+    it('should record tool calls with convenience method', async () => {
+      await tracker.record(
         'write_file',
         { path: '/test', content: 'hello' },
         { decision: 'allow' },
         100
       );
 
-      expect(tracker.size()).toBe(1);
-      const entries = tracker.getAll();
+      expect(await tracker.size()).toBe(1);
+      const entries = await tracker.getAll();
       expect(entries[0].toolName).toBe('write_file');
       expect(entries[0].durationMs).toBe(100);
     });
 
-    it('should evict oldest entries when maxSize exceeded', () => {
+    it('should evict oldest entries when maxSize exceeded', async () => {
       for (let i = 0; i < 7; i++) {
-        tracker.record(`tool_${i}`, {}, { decision: 'allow' });
+        await tracker.record(`tool_${i}`, {}, { decision: 'allow' });
       }
 
-      expect(tracker.size()).toBe(5);
-      const entries = tracker.getAll();
+      expect(await tracker.size()).toBe(5);
+      const entries = await tracker.getAll();
       expect(entries[0].toolName).toBe('tool_2'); // First two evicted
       expect(entries[4].toolName).toBe('tool_6');
     });
+
+    it('should keep entries within the retention period beyond maxSize', async () => {
+      const retained = new HistoryTracker({ maxSize: 2, logger: mockLogger, retention: () => 60_000 });
+      await retained.add({
+        toolName: 'stale',
+        arguments: {},
+        validationResult: { decision: 'allow' },
+        timestamp: new Date(Date.now() - 120_000),
+      });
+      for (let i = 0; i < 3; i++) {
+        await retained.record(`tool_${i}`, {}, { decision: 'allow' });
+      }
+
+      expect((await retained.getAll()).map((entry) => entry.toolName)).toEqual(['tool_0', 'tool_1', 'tool_2']);
+    });
   });
 
   describe('getAll', () => {
-    it('should return frozen copy', () => {
-      tracker.record('test', {}, { decision: 'allow' });
+    it('should return frozen copy', async () => {
+      await tracker.record('test', {}, { decision: 'allow' });
 
-      const entries = tracker.getAll();
+      const entries = await tracker.getAll();
 
       expect(Object.isFrozen(entries)).toBe(true);
     });
 
-    it('should return empty array when no entries', () => {
-      expect(tracker.getAll()).toHaveLength(0);
+    it('should return empty array when no entries', async () => {
+      expect(await tracker.getAll()).toHaveLength(0);
     });
   });
 
   describe('getLast', () => {
-    it('should return last N entries', () => {
+    it('should return last N entries', async () => {
       for (let i = 0; i < 5; i++) {
-        tracker.record(`tool_${i}`, {}, { decision: 'allow' });
+        await tracker.record(`tool_${i}`, {}, { decision: 'allow' });
       }
 
-      const last2 = tracker.getLast(2);
+      const last2 = await tracker.getLast(2);
 
       expect(last2).toHaveLength(2);
       expect(last2[0].toolName).toBe('tool_3');
       expect(last2[1].toolName).toBe('tool_4');
     });
 
-    it('should return all entries if count exceeds size', () => {
-      tracker.record('tool_1', {}, { decision: 'allow' });
+    it('should return all entries if count exceeds size', async () => {
+      await tracker.record('tool_1', {}, { decision: 'allow' });
 
-      const last = tracker.getLast(10);
+      const last = await tracker.getLast(10);
 
       expect(last).toHaveLength(1);
     });
   });
 
   describe('getByTool', () => {
-    it('should filter by tool name', () => {
-      tracker.record('read_file', { path: '/a' }, { decision: 'allow' });
-      tracker.record('write_file', { path: '/b' }, { decision: 'allow' });
-      tracker.record('read_file', { path: '/c' }, { decision: 'deny' });
+    it('should filter by tool name', async () => {
+      await tracker.record('read_file', { path: '/a' }, { decision: 'allow' });
+      await tracker.record('write_file', { path: '/b' }, { decision: 'allow' });
+      await tracker.record('read_file', { path: '/c' }, { decision: 'deny' });
 
-      const readEntries = tracker.getByTool('read_file');
+      const readEntries = await tracker.getByTool('read_file');
 
       expect(readEntries).toHaveLength(2);
       expect(readEntries[0].arguments).toEqual({ path: '/a' });
       expect(readEntries[1].arguments).toEqual({ path: '/c' });
     });
 
-    it('should return empty array for unknown tool', () => {
-      tracker.record('read_file', {}, { decision: 'allow' });
+    it('should return empty array for unknown tool', async () => {
+      await tracker.record('read_file', {}, { decision: 'allow' });
 
-      expect(tracker.getByTool('unknown')).toHaveLength(0);
+      expect(await tracker.getByTool('unknown')).toHaveLength(0);
     });
   });
 
   describe('getByTimeRange', () => {
-    it('should filter by time range', () => {
+    it('should filter by time range', async () => {
       const now = new Date();
       const hourAgo = new Date(now.getTime() - 60 * 60 * 1000);
       const twoHoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000);
 
       // Add entry from 2 hours ago
-      tracker.add({
+      await tracker.add({
         toolName: 'old_call',
         arguments: {},
         validationResult: { decision: 'allow' },
@@ -132,14 +147,14 @@ describe('HistoryTracker', () => {
 
       // Add entry from 30 mins ago
       const thirtyMinsAgo = new Date(now.getTime() - 30 * 60 * 1000);
-      tracker.add({
+      await tracker.add({
         toolName: 'recent_call',
         arguments: {},
         validationResult: { decision: 'allow' },
         timestamp: thirtyMinsAgo,
       });
 
-      const lastHour = tracker.getByTimeRange(hourAgo);
+      const lastHour = await tracker.getByTimeRange(hourAgo);
 
       expect(lastHour).toHaveLength(1);
       expect(lastHour[0].toolName).toBe('recent_call');
@@ -147,13 +162,13 @@ describe('HistoryTracker', () => {
   });
 
   describe('getDenied', () => {
-    it('should return only denied entries', () => {
-      tracker.record('tool_a', {}, { decision: 'allow' });
-      tracker.record('tool_b', {}, { decision: 'deny', reason: 'blocked' });
-      tracker.record('tool_c', {}, { decision: 'allow' });
-      tracker.record('tool_d', {}, { decision: 'deny', reason: 'blocked' });
+    it('should return only denied entries', async () => {
+      await tracker.record('tool_a', {}, { decision: 'allow' });
+      await tracker.record('tool_b', {}, { decision: 'deny', reason: 'blocked' });
+      await tracker.record('tool_c', {}, { decision: 'allow' });
+      await tracker.record('tool_d', {}, { decision: 'deny', reason: 'blocked' });
 
-      const denied = tracker.getDenied();
+      const denied = await tracker.getDenied();
 
       expect(denied).toHaveLength(2);
       expect(denied[0].toolName).toBe('tool_b');
@@ -162,25 +177,25 @@ describe('HistoryTracker', () => {
   });
 
   describe('clear', () => {
-    it('should remove all entries', () => {
-      tracker.record('tool_1', {}, { decision: 'allow' });
-      tracker.record('tool_2', {}, { decision: 'allow' });
+    it('should remove all entries', async () => {
+      await tracker.record('tool_1', {}, { decision: 'allow' });
+      await tracker.record('tool_2', {}, { decision: 'allow' });
 
-      tracker.clear();
+      await tracker.clear();
 
-      expect(tracker.size()).toBe(0);
-      expect(tracker.getAll()).toHaveLength(0);
+      expect(await tracker.size()).toBe(0);
+      expect(await tracker.getAll()).toHaveLength(0);
     });
   });
 
   describe('getStats', () => {
-    it('should return correct statistics', () => {
-      tracker.record('read_file', {}, { decision: 'allow' });
-      tracker.record('read_file', {}, { decision: 'allow' });
-      tracker.record('write_file', {}, { decision: 'deny' });
-      tracker.record('execute', {}, { decision: 'modify', modifiedArguments: {} });
+    it('should return correct statistics', async () => {
+      await tracker.record('read_file', {}, { decision: 'allow' });
+      await tracker.record('read_file', {}, { decision: 'allow' });
+      await tracker.record('write_file', {}, { decision: 'deny' });
+      await tracker.record('execute', {}, { decision: 'modify', modifiedArguments: {} });
 
-      const stats = tracker.getStats();
+      const stats = await tracker.getStats();
 
       expect(stats.totalCalls).toBe(4);
       expect(stats.allowedCalls).toBe(2);
@@ -193,13 +208,21 @@ describe('HistoryTracker', () => {
       });
     });
 
-    it('should return zeros for empty history', () => {
-      const stats = tracker.getStats();
+    it('should count cache hits', async () => {
+      await tracker.record('read_file', {}, { decision: 'allow' });
+      await tracker.record('read_file', {}, { decision: 'allow', metadata: { cache_hit: true } });
+
+      expect((await tracker.getStats()).cacheHits).toBe(1);
+    });
+
+    it('should return zeros for empty history', async () => {
+      const stats = await tracker.getStats();
 
       expect(stats.totalCalls).toBe(0);
       expect(stats.allowedCalls).toBe(0);
       expect(stats.deniedCalls).toBe(0);
       expect(stats.modifiedCalls).toBe(0);
+      expect(stats.cacheHits).toBe(0);
       expect(stats.callsByTool).toEqual({});
     });
   });
@@ -75,8 +75,8 @@ describe('Interceptor', () => {
 
       await interceptor.intercept(testCall);
 
-      expect(history.size()).toBe(1);
-      const entries = history.getAll();
+      expect(await history.size()).toBe(1);
+      const entries = await history.getAll();
       expect(entries[0].toolName).toBe('read_file');
     });
 
@@ -174,6 +174,147 @@ describe('Interceptor', () => {
       expect(deniedHook).not.toHaveBeenCalled();
     });
 
+    it('should collect warnings from all validators and call onWarning', async () => {
+      const warningHook = vi.fn();
+      const warning = {
+        ruleId: 'warn-large-read',
+        ruleName: 'Warn on large reads',
+        severity: 'medium' as const,
+        message: 'Large read',
+      };
+      engine.addValidator({
+        name: 'warner',
+        priority: 1,
+        validate: () => ({ decision: 'allow', warnings: [warning] }),
+      });
+      engine.addValidator({
+        name: 'allow',
+        priority: 2,
+        validate: () => ({ decision: 'allow' }),
+      });
+      interceptor = new Interceptor({
+        logger: mockLogger,
+        validationEngine: engine,
+        onWarning: warningHook,
+      });
+
+      const result = await interceptor.intercept(testCall);
+
+      expect(result.allowed).toBe(true);
+      expect(result.warnings).toEqual([warning]);
+      expect(warningHook).toHaveBeenCalledWith(
+        expect.objectContaining({ toolName: 'read_file' }),
+        [warning]
+      );
+    });
+
+    describe('approval', () => {
+      const requireApproval = () => {
+        engine.addValidator({
+          name: 'approval',
+          validate: () => ({
+            decision: 'allow',
+            requiresApproval: { ruleIds: ['approve-reads'], reason: 'Reads need approval' },
+          }),
+        });
+      };
+
+      it('should allow the call when the provider approves', async () => {
+        requireApproval();
+        const requestApproval = vi.fn().mockResolvedValue({ approved: true, approver: 'alice' });
+        interceptor = new Interceptor({
+          logger: mockLogger,
+          validationEngine: engine,
+          historyTracker: history,
+          approval: { provider: { name: 'test', requestApproval } },
+        });
+
+        const result = await interceptor.intercept(testCall);
+
+        expect(result.allowed).toBe(true);
+        expect(result.approval).toMatchObject({ approved: true, approver: 'alice', timedOut: false });
+        expect(requestApproval.mock.calls[0][0]).toMatchObject({
+          callId: 'call_123',
+          toolName: 'read_file',
+          ruleIds: ['approve-reads'],
+        });
+      });
+
+      it('should deny the call when the provider denies', async () => {
+        requireApproval();
+        interceptor = new Interceptor({
+          logger: mockLogger,
+          validationEngine: engine,
+          historyTracker: history,
+          approval: {
+            provider: {
+              name: 'test',
+              requestApproval: async () => ({ approved: false, reason: 'not today' }),
+            },
+          },
+        });
+
+        const result = await interceptor.intercept(testCall);
+
+        expect(result.allowed).toBe(false);
+        expect(result.validationResult.reason).toBe('Approval denied: not today');
+        expect((await history.getAll())[0].validationResult.decision).toBe('deny');
+      });
+
+      it('should use the default answer on timeout', async () => {
+        requireApproval();
+        let aborted = false;
+        interceptor = new Interceptor({
+          logger: mockLogger,
+          validationEngine: engine,
+          approval: {
+            timeout: 10,
+            defaultAnswer: 'approve',
+            provider: {
+              name: 'slow',
+              requestApproval: (_request, signal) => new Promise(() => {
+                signal.addEventListener('abort', () => { aborted = true; });
+              }),
+            },
+          },
+        });
+
+        const result = await interceptor.intercept(testCall);
+
+        expect(result.allowed).toBe(true);
+        expect(result.approval?.timedOut).toBe(true);
+        expect(aborted).toBe(true);
+      });
+
+      it('should deny when no provider is configured', async () => {
+        requireApproval();
+
+        const result = await interceptor.intercept(testCall);
+
+        expect(result.allowed).toBe(false);
+        expect(result.validationResult.reason).toContain('no approval provider configured');
+      });
+
+      it('should not ask for approval when the call is already denied', async () => {
+        requireApproval();
+        engine.addValidator({
+          name: 'denier',
+          validate: () => ({ decision: 'deny', reason: 'blocked' }),
+        });
+        const requestApproval = vi.fn();
+        interceptor = new Interceptor({
+          logger: mockLogger,
+          validationEngine: engine,
+          approval: { provider: { name: 'test', requestApproval } },
+        });
+
+        const result = await interceptor.intercept(testCall);
+
+        expect(result.allowed).toBe(false);
+        expect(requestApproval).not.toHaveBeenCalled();
+      });
+    });
+
     it('should continue if hooks throw', async () => {
       const throwingHook = vi.fn().mockImplementation(() => {
         throw new Error('Hook error');
@@ -0,0 +1,670 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ValidationPipeline } from '../../src/core/pipeline.js';
+import { LocalBackend } from '../../src/backends/local.js';
+import { KernelBackend } from '../../src/backends/kernel.js';
+import { EnsembleBackend } from '../../src/backends/ensemble.js';
+import { DecisionCache } from '../../src/core/cache.js';
+import { CircuitBreakerBackend, CircuitOpenError } from '../../src/backends/circuit-breaker.js';
+import type { DecisionBackend } from '../../src/backends/types.js';
+import type { KernelClient } from '../../src/kernel/client.js';
+import type { ValidationContext } from '../../src/types/config.js';
+import type { Rule } from '../../src/rules/types.js';
+import { createLogger } from '../../src/utils/logger.js';
+
+const logger = createLogger('silent');
+
+const context: ValidationContext = {
+  toolName: 'read_file',
+  arguments: { path: '/etc/passwd' },
+  callId: 'call_1',
+  timestamp: new Date('2026-01-01T00:00:00Z'),
+  callHistory: [],
+};
+
+const blockEtc: Rule = {
+  id: 'block-etc',
+  name: 'Block /etc',
+  enabled: true,
+  severity: 'critical',
+  action: 'block',
+  tools: ['read_file'],
+  conditions: [{ field: 'arguments.path', operator: 'starts_with', value: '/etc' }],
+};
+
+const judgeSecrets: Rule = {
+  id: 'judge-secrets',
+  name: 'No secrets',
+  enabled: true,
+  severity: 'high',
+  action: 'block',
+  tools: ['read_file'],
+};
+
+const warnReads: Rule = {
+  id: 'warn-reads',
+  name: 'Reads are audited',
+  enabled: true,
+  severity: 'low',
+  action: 'warn',
+  tools: ['read_file'],
+};
+
+function stubBackend(decide: DecisionBackend['decide']): DecisionBackend {
+  return { name: 'stub', label: 'Stub', decide: vi.fn(decide) };
+}
+
+describe('ValidationPipeline', () => {
+  it('should decide matched block rules locally without calling the backend', async () => {
+    const backend = stubBackend(async () => ({ decision: 'pass', reasoning: 'OK' }));
+    const pipeline = new ValidationPipeline({ logger, backend });
+
+    const result = await pipeline.validate(context, [blockEtc, judgeSecrets]);
+
+    expect(result.decision).toBe('deny');
+    expect(result.reason).toBe('Blocked by rule: Block /etc');
+    expect(result.metadata?.validation_path).toBe('local');
+    expect(backend.decide).not.toHaveBeenCalled();
+  });
+
+  it('should forward hybrid calls that only matched warn or log rules', async () => {
+    const backend = stubBackend(async () => ({ decision: 'block', reasoning: 'Looks like harvesting' }));
+    const pipeline = new ValidationPipeline({ logger, backend, validationMode: 'hybrid' });
+    const warnEtc: Rule = { ...blockEtc, id: 'warn-etc', name: 'Reads of /etc', action: 'warn' };
+
+    const result = await pipeline.validate(context, [warnEtc, judgeSecrets]);
+
+    expect(backend.decide).toHaveBeenCalledOnce();
+    expect(result.decision).toBe('deny');
+    expect(result.metadata?.validation_path).toBe('stub');
+    expect(result.warnings?.map((warning) => warning.ruleId)).toEqual(['warn-etc']);
+  });
+
+  it('should apply locally matched warn and log rules to backend decisions', async () => {
+    const backend = stubBackend(async () => ({ decision: 'pass', reasoning: 'OK' }));
+    const pipeline = new ValidationPipeline({ logger, backend });
+    const warnEtc: Rule = { ...blockEtc, id: 'warn-etc', name: 'Reads of /etc', action: 'warn' };
+    const logEtc: Rule = { ...blockEtc, id: 'log-etc', name: 'Audit /etc', action: 'log' };
+
+    const result = await pipeline.validate(context, [warnEtc, logEtc, judgeSecrets]);
+
+    expect(backend.decide).toHaveBeenCalledOnce();
+    expect(result.decision).toBe('allow');
+    expect(result.warnings).toEqual([
+      { ruleId: 'warn-etc', ruleName: 'Reads of /etc', severity: 'critical', message: 'Reads of /etc' },
+    ]);
+    expect(result.metadata?.logged_rules).toEqual(['log-etc']);
+  });
+
+  it('should require approval for locally matched rules when the backend passes', async () => {
+    const backend = stubBackend(async () => ({ decision: 'pass', reasoning: 'OK' }));
+    const pipeline = new ValidationPipeline({ logger, backend });
+    const approveLarge: Rule = {
+      id: 'approve-large',
+      name: 'Large transfers',
+      enabled: true,
+      severity: 'high',
+      action: 'require_approval',
+      tools: ['transfer_funds'],
+      conditions: [{ field: 'arguments.amount', operator: 'greater_than', value: 10000 }],
+    };
+    const transfer = { ...context, toolName: 'transfer_funds', arguments: { amount: 50000 } };
+
+    const result = await pipeline.validate(transfer, [approveLarge, { ...judgeSecrets, tools: ['transfer_funds'] }]);
+
+    expect(backend.decide).toHaveBeenCalledOnce();
+    expect(result.decision).toBe('allow');
+    expect(result.requiresApproval).toEqual({
+      ruleIds: ['approve-large'],
+      reason: 'Approval required by rule: Large transfers',
+    });
+  });
+
+  it('should convert backend decisions and record the backend name', async () => {
+    const backend = stubBackend(async (toolCall) => ({
+      decision: 'block',
+      should_pass_weight: 0.2,
+      should_block_weight: 0.8,
+      reasoning: `Blocked ${toolCall.tool_name}`,
+      matched_rules: ['judge-secrets'],
+    }));
+    const pipeline = new ValidationPipeline({ logger, backend, sessionId: 'session-1' });
+
+    const result = await pipeline.validate(context, [judgeSecrets]);
+
+    expect(result).toMatchObject({
+      decision: 'deny',
+      reason: 'Blocked read_file',
+      metadata: {
+        validation_path: 'stub',
+        should_pass_weight: 0.2,
+        should_block_weight: 0.8,
+        matched_rules: ['judge-secrets'],
+      },
+    });
+    expect(vi.mocked(backend.decide).mock.calls[0][0].session_id).toBe('session-1');
+  });
+
+  it('should downgrade blocks that only matched non-blocking rules', async () => {
+    const backend = stubBackend(async () => ({
+      decision: 'block',
+      reasoning: 'Audited read',
+      matched_rules: ['warn-reads'],
+    }));
+    const pipeline = new ValidationPipeline({ logger, backend });
+
+    const result = await pipeline.validate(context, [warnReads]);
+
+    expect(result.decision).toBe('allow');
+    expect(result.metadata?.downgraded_block).toBe(true);
+    expect(result.warnings?.[0].ruleId).toBe('warn-reads');
+  });
+
+  it('should apply the default fail mode unless a rule set overrides it', async () => {
+    const backend = stubBackend(async () => {
+      throw new Error('connection refused');
+    });
+    const ruleSet = { name: 'strict-set', settings: { fail_mode: 'closed' as const } };
+
+    const open = new ValidationPipeline({ logger, backend, failMode: 'open' });
+    const overridden = new ValidationPipeline({
+      logger,
+      backend,
+      failMode: 'open',
+      getRuleSet: () => ruleSet,
+    });
+
+    const allowed = await open.validate(context, [judgeSecrets]);
+    expect(allowed.decision).toBe('allow');
+    expect(allowed.reason).toBe('Stub unavailable: connection refused');
+    expect(allowed.metadata).toMatchObject({ stub_error: true, fail_mode: 'open' });
+
+    const denied = await overridden.validate(context, [judgeSecrets]);
+    expect(denied.decision).toBe('deny');
+    expect(denied.metadata?.fail_mode).toBe('closed');
+  });
+
+  it('should apply the fail mode to rules that fail to evaluate locally', async () => {
+    const badRegex: Rule = {
+      ...blockEtc,
+      id: 'bad-regex',
+      conditions: [{ field: 'arguments.path', operator: 'matches', value: '(unclosed' }],
+    };
+    const closed = new ValidationPipeline({ logger, validationMode: 'local' });
+    const open = new ValidationPipeline({ logger, validationMode: 'local', failMode: 'open' });
+
+    const denied = await closed.validate(context, [badRegex]);
+    expect(denied.decision).toBe('deny');
+    expect(denied.reason).toMatch(/^Local rules unavailable: Rule evaluation failed \(bad-regex: Invalid regex/);
+    expect(denied.metadata).toMatchObject({ local_error: true, fail_mode: 'closed' });
+
+    expect((await open.validate(context, [badRegex])).decision).toBe('allow');
+    expect((await closed.validate(context, [{ ...badRegex, action: 'warn' }])).decision).toBe('allow');
+  });
+
+  it('should send the configured depth of history, with redacted arguments if enabled', () => {
+    const history = ['a', 'b', 'c'].map((name, index) => ({
+      toolName: `tool_${name}`,
+      arguments: { token: 'secret', options: { password: 'hunter2', retries: index } },
+      validationResult: index === 2
+        ? { decision: 'deny' as const, reason: 'Blocked by rule' }
+        : { decision: 'allow' as const },
+      timestamp: new Date(`2026-01-01T00:00:0${index}Z`),
+    }));
+    const withHistory = { ...context, callHistory: history };
+    const backend = stubBackend(async () => ({ decision: 'pass', reasoning: 'OK' }));
+
+    const summary = new ValidationPipeline({ logger, backend })
+      .buildToolCallContext(withHistory).call_history;
+    expect(summary).toHaveLength(3);
+    expect(summary?.[2]).toEqual({
+      tool_name: 'tool_c',
+      allowed: false,
+      timestamp: '2026-01-01T00:00:02.000Z',
+      decision: 'deny',
+      reason: 'Blocked by rule',
+    });
+
+    const detailed = new ValidationPipeline({
+      logger,
+      backend,
+      history: { depth: 2, includeArguments: true, redact: ['arguments.token', 'arguments.options.password'] },
+    }).buildToolCallContext(withHistory).call_history;
+    expect(detailed?.map((entry) => entry.tool_name)).toEqual(['tool_b', 'tool_c']);
+    expect(detailed?.[0].arguments).toEqual({
+      token: '[REDACTED]',
+      options: { password: '[REDACTED]', retries: 1 },
+    });
+    // The recorded history is not modified
+    expect(history[1].arguments.token).toBe('secret');
+  });
+
+  describe('thresholds', () => {
+    const weighted = (blockWeight: number, decision: 'pass' | 'block' = 'pass') =>
+      stubBackend(async () => ({
+        decision,
+        should_block_weight: blockWeight,
+        should_pass_weight: 1 - blockWeight,
+        reasoning: `Block weight ${blockWeight}`,
+      }));
+
+    it('should decide by block weight instead of the decision string', async () => {
+      const pipeline = new ValidationPipeline({
+        logger,
+        backend: weighted(0.4),
+        thresholds: { block: 0.5, severity: { high: 0.35 } },
+      });
+
+      const result = await pipeline.validate(context, [judgeSecrets]);
+
+      expect(result.decision).toBe('deny');
+      expect(result.metadata?.block_threshold).toBe(0.35);
+    });
+
+    it('should use the lowest tool, severity or rule set threshold', async () => {
+      const ruleSet = { name: 'lenient', settings: { block_threshold: 0.3 } };
+      const pipeline = new ValidationPipeline({
+        logger,
+        backend: weighted(0.6, 'block'),
+        thresholds: { tools: { read_file: 0.9 } },
+        getRuleSet: () => ruleSet,
+      });
+
+      const result = await pipeline.validate(context, [judgeSecrets]);
+
+      expect(result.decision).toBe('deny');
+      expect(result.metadata?.block_threshold).toBe(0.3);
+    });
+
+    it('should trust the decision string without thresholds', async () => {
+      const pipeline = new ValidationPipeline({ logger, backend: weighted(0.9) });
+
+      const result = await pipeline.validate(context, [judgeSecrets]);
+
+      expect(result.decision).toBe('allow');
+      expect(result.metadata?.block_threshold).toBeUndefined();
+    });
+
+    it('should escalate uncertain decisions to the escalation backend', async () => {
+      const second = { ...weighted(0.55), name: 'second' };
+      const pipeline = new ValidationPipeline({
+        logger,
+        backend: weighted(0.45),
+        escalationBackend: second,
+        thresholds: { block: 0.5, uncertainty: { margin: 0.1, action: 'backend' } },
+      });
+
+      const result = await pipeline.validate(context, [judgeSecrets]);
+
+      expect(second.decide).toHaveBeenCalledOnce();
+      expect(result.decision).toBe('deny');
+      expect(result.metadata).toMatchObject({
+        validation_path: 'second',
+        escalated_from: 'stub',
+        escalated_block_weight: 0.45,
+        uncertain: true,
+        uncertainty_action: 'backend',
+      });
+    });
+
+    it('should require approval for uncertain decisions', async () => {
+      const pipeline = new ValidationPipeline({
+        logger,
+        backend: weighted(0.55, 'block'),
+        thresholds: { uncertainty: { margin: 0.1, action: 'approval' } },
+      });
+
+      const result = await pipeline.validate(context, [judgeSecrets]);
+
+      expect(result.decision).toBe('allow');
+      expect(result.requiresApproval).toEqual({
+        ruleIds: ['judge-secrets'],
+        reason: 'Approval required: uncertain decision (block weight 0.55, threshold 0.5)',
+      });
+    });
+
+    it('should only log uncertain decisions in log-only mode', async () => {
+      const pipeline = new ValidationPipeline({
+        logger,
+        backend: weighted(0.55, 'block'),
+        thresholds: { uncertainty: { margin: 0.1, action: 'log' } },
+      });
+
+      const result = await pipeline.validate(context, [judgeSecrets]);
+
+      expect(result.decision).toBe('allow');
+      expect(result.requiresApproval).toBeUndefined();
+      expect(result.metadata).toMatchObject({ uncertain: true, uncertainty_action: 'log' });
+    });
+
+    it('should require an escalation backend for the backend action', () => {
+      expect(() => new ValidationPipeline({
+        logger,
+        backend: weighted(0.5),
+        thresholds: { uncertainty: { margin: 0.1, action: 'backend' } },
+      })).toThrow('Uncertainty action "backend" requires an escalation backend');
+    });
+  });
+
+  it('should reuse cached decisions for identical calls', async () => {
+    const backend = stubBackend(async () => ({ decision: 'pass', reasoning: 'OK' }));
+    const pipeline = new ValidationPipeline({ logger, backend, cache: new DecisionCache() });
+
+    const first = await pipeline.validate(context, [judgeSecrets]);
+    const second = await pipeline.validate(
+      { ...context, callId: 'call_2', arguments: { ...context.arguments } },
+      [judgeSecrets]
+    );
+
+    expect(backend.decide).toHaveBeenCalledOnce();
+    expect(first.metadata?.cache_hit).toBeUndefined();
+    expect(second.metadata).toMatchObject({ cache_hit: true, validation_path: 'stub' });
+  });
+
+  it('should bypass the cache for rules that opt out and for failures', async () => {
+    let calls = 0;
+    const backend = stubBackend(async () => {
+      calls++;
+      if (calls === 1) throw new Error('timeout');
+      return { decision: 'pass', reasoning: 'OK' };
+    });
+    const pipeline = new ValidationPipeline({ logger, backend, cache: new DecisionCache() });
+    const historySensitive = { ...judgeSecrets, cache: false };
+
+    await pipeline.validate(context, [judgeSecrets]);
+    await pipeline.validate(context, [judgeSecrets]);
+    await pipeline.validate(context, [judgeSecrets]);
+    expect(calls).toBe(2);
+
+    await pipeline.validate(context, [historySensitive]);
+    await pipeline.validate(context, [historySensitive]);
+    expect(calls).toBe(4);
+
+    const sequenced: Rule = {
+      ...judgeSecrets,
+      sequence: [{ operator: 'preceded_by', tools: ['list_files'] }],
+    };
+    await pipeline.validate(context, [judgeSecrets, sequenced]);
+    await pipeline.validate(context, [judgeSecrets, sequenced]);
+    expect(calls).toBe(6);
+  });
+
+  it('should not share cached decisions between sessions, agents or custom contexts', async () => {
+    const backend = stubBackend(async (toolCall) => ({
+      decision: toolCall.custom?.role === 'admin' ? 'pass' : 'block',
+      reasoning: 'By role',
+    }));
+    const pipeline = new ValidationPipeline({ logger, backend, cache: new DecisionCache() });
+    const admin = { ...context, sessionId: 'session-a', custom: { role: 'admin' } };
+
+    expect((await pipeline.validate(admin, [judgeSecrets])).decision).toBe('allow');
+    expect((await pipeline.validate({ ...admin, custom: { role: 'guest' } }, [judgeSecrets])).decision)
+      .toBe('deny');
+    await pipeline.validate({ ...admin, sessionId: 'session-b' }, [judgeSecrets]);
+    await pipeline.validate({ ...admin, agentId: 'agent-b' }, [judgeSecrets]);
+    await pipeline.validate({ ...admin, custom: { role: 'admin' } }, [judgeSecrets]);
+
+    expect(backend.decide).toHaveBeenCalledTimes(4);
+  });
+
+  it('should require a backend outside local mode', () => {
+    expect(() => new ValidationPipeline({ logger, validationMode: 'hybrid' }))
+      .toThrow('Validation mode "hybrid" requires a backend');
+    expect(() => new ValidationPipeline({ logger, validationMode: 'local' })).not.toThrow();
+  });
+});
+
+describe('backends', () => {
+  it('should report kernel weights as should_pass_weight and should_block_weight', async () => {
+    const client = {
+      evaluate: vi.fn().mockResolvedValue({
+        pass_weight: 0.1,
+        block_weight: 0.9,
+        decision: 'block',
+        reasoning: 'Sensitive path',
+        matched_rules: ['judge-secrets'],
+      }),
+    } as unknown as KernelClient;
+    const backend = new KernelBackend({ client, logger });
+
+    const decision = await backend.decide(
+      { call_id: 'call_1', tool_name: 'read_file', arguments: { path: '/x' }, timestamp: '' },
+      [judgeSecrets]
+    );
+
+    expect(decision).toEqual({
+      decision: 'block',
+      should_pass_weight: 0.1,
+      should_block_weight: 0.9,
+      reasoning: 'Sensitive path',
+      matched_rules: ['judge-secrets'],
+    });
+  });
+
+  it('should apply rule set default actions in the local backend', async () => {
+    const ruleSet = { name: 'deny-by-default', settings: { default_action: 'block' as const } };
+    const allowTmp: Rule = {
+      id: 'allow-tmp',
+      name: 'Allow /tmp',
+      enabled: true,
+      severity: 'info',
+      action: 'allow',
+      tools: ['read_file'],
+      conditions: [{ field: 'arguments.path', operator: 'starts_with', value: '/tmp' }],
+    };
+    const backend = new LocalBackend({ getRuleSet: () => ruleSet });
+
+    const decision = await backend.decide(
+      { call_id: 'call_1', tool_name: 'read_file', arguments: { path: '/home' }, timestamp: '' },
+      [allowTmp]
+    );
+
+    expect(decision.decision).toBe('block');
+    expect(decision.reasoning).toBe('Blocked by default action of rule set: deny-by-default');
+    expect(decision.metadata?.default_actions).toEqual([
+      { ruleSet: 'deny-by-default', action: 'block' },
+    ]);
+  });
+});
+
+describe('EnsembleBackend', () => {
+  const toolCall = { call_id: 'call_1', tool_name: 'read_file', arguments: {}, timestamp: '' };
+
+  function member(name: string, decision: 'pass' | 'block', blockWeight?: number): DecisionBackend {
+    return {
+      name,
+      decide: vi.fn().mockResolvedValue({
+        decision,
+        should_block_weight: blockWeight,
+        reasoning: `${name} says ${decision}`,
+        matched_rules: decision === 'block' ? [`${name}-rule`] : [],
+      }),
+    };
+  }
+
+  it('should block if any member blocks by default', async () => {
+    const ensemble = new EnsembleBackend({
+      backends: [member('a', 'pass'), member('b', 'block'), member('c', 'pass')],
+    });
+
+    const decision = await ensemble.decide(toolCall, []);
+
+    expect(decision.decision).toBe('block');
+    expect(decision.reasoning).toBe('b: b says block');
+    expect(decision.matched_rules).toEqual(['b-rule']);
+    expect(decision.metadata).toEqual({
+      ensemble_strategy: 'any-block',
+      ensemble_votes: { block: 1, pass: 2 },
+    });
+    expect(decision.results?.map((result) => result.backend)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should follow the majority', async () => {
+    const ensemble = new EnsembleBackend({
+      backends: [member('a', 'pass'), member('b', 'block'), member('c', 'pass')],
+      strategy: 'majority',
+    });
+
+    const decision = await ensemble.decide(toolCall, []);
+
+    expect(decision.decision).toBe('pass');
+    expect(decision.reasoning).toBe('a: a says pass; c: c says pass');
+  });
+
+  it('should compare the weighted block weight with the threshold', async () => {
+    const backends = [member('a', 'pass', 0.1), member('b', 'block', 0.9)];
+
+    const even = await new EnsembleBackend({ backends, strategy: 'weighted' })
+      .decide(toolCall, []);
+    expect(even.decision).toBe('block');
+    expect(even.should_block_weight).toBeCloseTo(0.5);
+
+    const trusted = await new EnsembleBackend({
+      backends,
+      strategy: 'weighted',
+      threshold: 0.4,
+      weights: { a: 3 },
+    }).decide(toolCall, []);
+    expect(trusted.decision).toBe('pass');
+    expect(trusted.should_block_weight).toBeCloseTo(0.3);
+  });
+
+  it('should keep blocks but not passes when some members fail', async () => {
+    const failing: DecisionBackend = {
+      name: 'flaky',
+      decide: vi.fn().mockRejectedValue(new Error('timeout')),
+    };
+
+    const blocked = await new EnsembleBackend({ backends: [failing, member('a', 'block')] })
+      .decide(toolCall, []);
+    expect(blocked.decision).toBe('block');
+    expect(blocked.results?.[0]).toMatchObject({ backend: 'flaky', error: 'timeout' });
+
+    await expect(
+      new EnsembleBackend({ backends: [failing, member('a', 'pass')] }).decide(toolCall, [])
+    ).rejects.toThrow('Ensemble backends failed: flaky: timeout');
+  });
+
+  it('should apply the fail mode when a failed member leaves only passes', async () => {
+    const failing: DecisionBackend = {
+      name: 'api',
+      decide: vi.fn().mockRejectedValue(new Error('connection refused')),
+    };
+    const ensemble = new EnsembleBackend({ backends: [failing, new LocalBackend()] });
+
+    const closed = await new ValidationPipeline({ logger, backend: ensemble })
+      .validate(context, [judgeSecrets]);
+    const open = await new ValidationPipeline({ logger, backend: ensemble, failMode: 'open' })
+      .validate(context, [judgeSecrets]);
+
+    expect(closed).toMatchObject({ decision: 'deny', metadata: { fail_mode: 'closed' } });
+    expect(closed.reason).toBe('Ensemble unavailable: Ensemble backends failed: api: connection refused');
+    expect(open.decision).toBe('allow');
+  });
+
+  it('should fail when every member fails', async () => {
+    const failing: DecisionBackend = {
+      name: 'flaky',
+      decide: vi.fn().mockRejectedValue(new Error('timeout')),
+    };
+    const ensemble = new EnsembleBackend({ backends: [failing] });
+
+    await expect(ensemble.decide(toolCall, [])).rejects.toThrow(
+      'All ensemble backends failed: flaky: timeout'
+    );
+  });
+
+  it('should surface member results in the pipeline result', async () => {
+    const pipeline = new ValidationPipeline({
+      logger,
+      backend: new EnsembleBackend({ backends: [member('a', 'pass'), member('b', 'pass')] }),
+    });
+
+    const result = await pipeline.validate(context, [judgeSecrets]);
+
+    expect(result.decision).toBe('allow');
+    expect(result.backendResults?.map((entry) => entry.decision)).toEqual(['pass', 'pass']);
+  });
+});
+
+describe('CircuitBreakerBackend', () => {
+  const toolCall = { call_id: 'call_1', tool_name: 'read_file', arguments: {}, timestamp: '' };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function flaky(): DecisionBackend & { fail: boolean } {
+    const backend = {
+      name: 'api',
+      label: 'API',
+      fail: true,
+      decide: vi.fn(async () => {
+        if (backend.fail) throw new Error('connection refused');
+        return { decision: 'pass' as const, reasoning: 'OK' };
+      }),
+    };
+    return backend;
+  }
+
+  it('should open after the failure rate is reached and fail fast', async () => {
+    const backend = flaky();
+    const breaker = new CircuitBreakerBackend({ backend, minimumCalls: 3, failureRate: 0.5 });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.decide(toolCall, [])).rejects.toThrow('connection refused');
+    }
+    await expect(breaker.decide(toolCall, [])).rejects.toBeInstanceOf(CircuitOpenError);
+
+    expect(backend.decide).toHaveBeenCalledTimes(3);
+    expect(breaker.health()[0]).toMatchObject({ backend: 'api', state: 'open', calls: 3, failures: 3 });
+  });
+
+  it('should close again after a successful trial call', async () => {
+    vi.useFakeTimers();
+    const backend = flaky();
+    const breaker = new CircuitBreakerBackend({ backend, minimumCalls: 1, resetTimeout: 1000 });
+
+    await expect(breaker.decide(toolCall, [])).rejects.toThrow('connection refused');
+    expect(breaker.health()[0].state).toBe('open');
+
+    vi.advanceTimersByTime(1000);
+    await expect(breaker.decide(toolCall, [])).rejects.toThrow('connection refused');
+    expect(breaker.health()[0].state).toBe('open');
+
+    vi.advanceTimersByTime(1000);
+    backend.fail = false;
+    await expect(breaker.decide(toolCall, [])).resolves.toMatchObject({ decision: 'pass' });
+    expect(breaker.health()[0]).toMatchObject({ state: 'closed', calls: 0 });
+  });
+
+  it('should only count failures inside the window', async () => {
+    vi.useFakeTimers();
+    const backend = flaky();
+    const breaker = new CircuitBreakerBackend({ backend, minimumCalls: 2, window: 1000 });
+
+    await expect(breaker.decide(toolCall, [])).rejects.toThrow();
+    vi.advanceTimersByTime(1001);
+    await expect(breaker.decide(toolCall, [])).rejects.toThrow();
+
+    expect(breaker.health()[0]).toMatchObject({ state: 'closed', calls: 1 });
+  });
+
+  it('should apply the fail mode immediately while open', async () => {
+    const backend = flaky();
+    const pipeline = new ValidationPipeline({
+      logger,
+      backend: new CircuitBreakerBackend({ backend, minimumCalls: 1 }),
+      failMode: 'open',
+    });
+
+    await pipeline.validate(context, [judgeSecrets]);
+    const result = await pipeline.validate(context, [judgeSecrets]);
+
+    expect(backend.decide).toHaveBeenCalledOnce();
+    expect(result.decision).toBe('allow');
+    expect(result.reason).toMatch(/^API unavailable: Circuit open until /);
+    expect(result.metadata).toMatchObject({ api_error: true, circuit_open: true });
+    expect(pipeline.getHealth()).toMatchObject({ healthy: false, backends: [{ state: 'open' }] });
+  });
+});
+
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Interceptor } from '../../src/core/interceptor.js';
+import { ValidationEngine } from '../../src/core/validator.js';
+import { HistoryTracker } from '../../src/core/history.js';
+import { RateLimiter } from '../../src/core/rate-limit.js';
+import type { VetoMode } from '../../src/core/pipeline.js';
+import type { Rule } from '../../src/rules/types.js';
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const emailLimit: Rule = {
+  id: 'email-rate',
+  name: 'Email rate',
+  enabled: true,
+  severity: 'medium',
+  action: 'block',
+  tools: ['send_email'],
+  rate_limit: { max: 2, window: '1m' },
+};
+
+const transferQuota: Rule = {
+  id: 'transfer-quota',
+  name: 'Transfer quota',
+  enabled: true,
+  severity: 'high',
+  action: 'block',
+  tools: ['transfer_funds'],
+  rate_limit: { max: 10000, window: '1h', sum: 'amount' },
+};
+
+describe('RateLimiter', () => {
+  let engine: ValidationEngine;
+  let history: HistoryTracker;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+
+  const createInterceptor = (rules: Rule[], mode?: VetoMode) =>
+    new Interceptor({
+      logger: mockLogger,
+      validationEngine: engine,
+      historyTracker: history,
+      rateLimiter: new RateLimiter({
+        logger: mockLogger,
+        mode,
+        getRules: (toolName) => rules.filter((rule) => rule.tools?.includes(toolName)),
+      }),
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+    mockLogger = createMockLogger();
+    engine = new ValidationEngine({ logger: mockLogger, defaultDecision: 'allow' });
+    history = new HistoryTracker({ maxSize: 100, logger: mockLogger });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should block calls over the limit and say when the window resets', async () => {
+    const validate = vi.fn(() => ({ decision: 'allow' as const }));
+    engine.addValidator({ name: 'allow-all', validate });
+    const interceptor = createInterceptor([emailLimit]);
+
+    await interceptor.intercept({ id: 'c1', name: 'send_email', arguments: {} });
+    vi.advanceTimersByTime(10_000);
+    await interceptor.intercept({ id: 'c2', name: 'send_email', arguments: {} });
+    const result = await interceptor.intercept({ id: 'c3', name: 'send_email', arguments: {} });
+
+    expect(result.allowed).toBe(false);
+    expect(result.validationResult.reason).toBe(
+      'Rate limit exceeded: Email rate (2 of 2 calls in 1m; window resets at 2026-01-01T12:01:00.000Z)'
+    );
+    expect(result.validationResult.metadata).toMatchObject({
+      validation_path: 'rate_limit',
+      rate_limit: { rule_id: 'email-rate', used: 2, limit: 2, window_seconds: 60 },
+    });
+    expect(validate).toHaveBeenCalledTimes(2);
+
+    // Other tools are not limited
+    expect((await interceptor.intercept({ name: 'read_file', arguments: {} })).allowed).toBe(true);
+  });
+
+  it('should slide the window and not count denied calls', async () => {
+    const interceptor = createInterceptor([emailLimit]);
+
+    await interceptor.intercept({ name: 'send_email', arguments: {} });
+    await interceptor.intercept({ name: 'send_email', arguments: {} });
+    expect((await interceptor.intercept({ name: 'send_email', arguments: {} })).allowed).toBe(false);
+
+    vi.advanceTimersByTime(60_001);
+    expect((await interceptor.intercept({ name: 'send_email', arguments: {} })).allowed).toBe(true);
+  });
+
+  it('should sum argument values against a quota', async () => {
+    const interceptor = createInterceptor([transferQuota]);
+
+    await interceptor.intercept({ name: 'transfer_funds', arguments: { amount: 6000 } });
+    vi.advanceTimersByTime(60_000);
+    await interceptor.intercept({ name: 'transfer_funds', arguments: { amount: 3000 } });
+
+    const over = await interceptor.intercept({ name: 'transfer_funds', arguments: { amount: 2000 } });
+    expect(over.allowed).toBe(false);
+    expect(over.validationResult.reason).toBe(
+      'Quota exceeded: Transfer quota (9000 + 2000 of 10000 amount in 1h; window resets at 2026-01-01T13:00:00.000Z)'
+    );
+
+    const within = await interceptor.intercept({ name: 'transfer_funds', arguments: { amount: 1000 } });
+    expect(within.allowed).toBe(true);
+
+    const alone = await interceptor.intercept({ name: 'transfer_funds', arguments: { amount: 20000 } });
+    expect(alone.validationResult.reason).toContain('the call alone exceeds the limit');
+  });
+
+  it('should only count calls matching the rule conditions', async () => {
+    const interceptor = createInterceptor([{
+      ...emailLimit,
+      rate_limit: { max: 1, window: 60 },
+      conditions: [{ field: 'arguments.to', operator: 'ends_with', value: '@external.com' }],
+    }]);
+
+    await interceptor.intercept({ name: 'send_email', arguments: { to: 'a@external.com' } });
+    expect(
+      (await interceptor.intercept({ name: 'send_email', arguments: { to: 'b@internal.com' } })).allowed
+    ).toBe(true);
+    expect(
+      (await interceptor.intercept({ name: 'send_email', arguments: { to: 'c@external.com' } })).allowed
+    ).toBe(false);
+  });
+
+  it('should count concurrent calls against each other', async () => {
+    engine.addValidator({
+      name: 'slow',
+      validate: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        return { decision: 'allow' };
+      },
+    });
+    const interceptor = createInterceptor([emailLimit]);
+
+    const pending = Promise.all([1, 2, 3].map(() =>
+      interceptor.intercept({ name: 'send_email', arguments: {} })
+    ));
+    await vi.advanceTimersByTimeAsync(100);
+    const results = await pending;
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, false]);
+    expect(await history.getAll()).toHaveLength(3);
+  });
+
+  it('should only log in log mode', async () => {
+    const interceptor = createInterceptor([{ ...emailLimit, rate_limit: { max: 0, window: '1m' } }], 'log');
+
+    const result = await interceptor.intercept({ name: 'send_email', arguments: {} });
+
+    expect(result.allowed).toBe(true);
+    expect(result.validationResult.metadata).toMatchObject({
+      blocked_in_strict_mode: true,
+      rate_limit: { rule_id: 'email-rate' },
+    });
+  });
+});
@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { createHmac } from 'node:crypto';
 import { join } from 'node:path';
 import { Veto, ToolCallDeniedError } from '../../src/core/veto.js';
+import { RuleSchemaError } from '../../src/rules/schema.js';
 import type { ToolDefinition, ToolCall } from '../../src/types/tool.js';
 
 const TEST_DIR = '/tmp/veto-test-' + Date.now();
@@ -36,9 +38,25 @@ const sampleTools: ToolDefinition[] = [
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+// Simulate platforms without recursive fs.watch (Linux before Node 20)
+const watchSupport = vi.hoisted(() => ({ recursive: true }));
+vi.mock('node:fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs')>();
+  const watch = ((path: string, options: { recursive?: boolean }, listener: () => void) => {
+    if (options?.recursive && !watchSupport.recursive) {
+      throw Object.assign(new TypeError('The feature watch recursively is unavailable on the current platform'), {
+        code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM',
+      });
+    }
+    return actual.watch(path, options, listener);
+  }) as typeof actual.watch;
+  return { ...actual, default: { ...actual, watch }, watch };
+});
+
 describe('Veto', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockFetch.mockReset();
 
     // Create test directory structure
     if (existsSync(TEST_DIR)) {
@@ -177,6 +195,144 @@ rules:
     });
   });
 
+  describe('profiles', () => {
+    beforeEach(() => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+mode: "strict"
+validation:
+  mode: "api"
+logging:
+  level: "silent"
+profiles:
+  dev:
+    mode: "log"
+    validation:
+      mode: "local"
+    rules:
+      tags: [dev]
+  prod:
+    api:
+      apiKey: "\${VETO_TEST_PROD_KEY}"
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'rules.yaml'),
+        `
+rules:
+  - id: dev-rule
+    name: Dev rule
+    enabled: true
+    severity: low
+    action: log
+    tags: [dev]
+  - id: prod-rule
+    name: Prod rule
+    enabled: true
+    severity: high
+    action: block
+    tags: [prod]
+`,
+        'utf-8'
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should use the base config without a profile', async () => {
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      expect(veto.getMode()).toBe('strict');
+      expect(veto.getValidationMode()).toBe('api');
+      expect(veto.getLoadedRules()).toHaveLength(2);
+    });
+
+    it('should merge the selected profile over the base config', async () => {
+      const veto = await Veto.init({ configDir: VETO_DIR, profile: 'dev' });
+
+      expect(veto.getMode()).toBe('log');
+      expect(veto.getValidationMode()).toBe('local');
+      expect(veto.getLoadedRules().map((rule) => rule.id)).toEqual(['dev-rule']);
+    });
+
+    it('should select the profile from VETO_PROFILE', async () => {
+      vi.stubEnv('VETO_PROFILE', 'dev');
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      expect(veto.getMode()).toBe('log');
+    });
+
+    it('should reject unknown profiles', async () => {
+      await expect(Veto.init({ configDir: VETO_DIR, profile: 'staging' })).rejects.toThrow(
+        'Unknown profile "staging" in veto.config.yaml (available: dev, prod)'
+      );
+    });
+
+    it('should only require variables referenced by the selected profile', async () => {
+      await expect(Veto.init({ configDir: VETO_DIR })).resolves.toBeInstanceOf(Veto);
+      await expect(Veto.init({ configDir: VETO_DIR, profile: 'dev' })).resolves.toBeInstanceOf(Veto);
+      await expect(Veto.init({ configDir: VETO_DIR, profile: 'prod' })).rejects.toThrow(
+        'Environment variable "VETO_TEST_PROD_KEY" is not set'
+      );
+    });
+  });
+
+  describe('rule schema validation', () => {
+    const invalidRule = `
+rules:
+  - id: typo
+    name: Typo
+    enabled: true
+    severity: high
+    action: block
+    conditions:
+      - field: arguments.path
+        operater: starts_with
+        value: /etc
+`;
+
+    it('should load rules with schema problems outside strict mode', async () => {
+      writeFileSync(join(RULES_DIR, 'rule.yaml'), invalidRule, 'utf-8');
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      expect(veto.getLoadedRules()).toHaveLength(1);
+    });
+
+    it('should refuse to start in strict mode', async () => {
+      writeFileSync(join(RULES_DIR, 'rule.yaml'), invalidRule, 'utf-8');
+
+      await expect(Veto.init({ configDir: VETO_DIR, strictRules: true })).rejects.toThrow(
+        RuleSchemaError
+      );
+      await expect(Veto.init({ configDir: VETO_DIR, strictRules: true })).rejects.toThrow(
+        /rule\.yaml:10:9: rules\[0\]\.conditions\[0\]\.operater: Unknown key "operater"/
+      );
+    });
+
+    it('should report duplicate rule IDs across files in strict mode', async () => {
+      const rule = `
+rules:
+  - id: same
+    name: Same
+    severity: low
+    action: log
+`;
+      writeFileSync(join(RULES_DIR, 'a.yaml'), rule, 'utf-8');
+      writeFileSync(join(RULES_DIR, 'b.yaml'), rule, 'utf-8');
+
+      await expect(Veto.init({ configDir: VETO_DIR, strictRules: true })).rejects.toThrow(
+        'Duplicate rule ID "same"'
+      );
+    });
+  });
+
   describe('wrapTools', () => {
     it('should return definitions and implementations', async () => {
       const handler = vi.fn().mockResolvedValue('result');
@@ -280,6 +436,92 @@ rules:
       expect(handler).not.toHaveBeenCalled();
     });
 
+    it('should run handlers with arguments rewritten by modify rules', async () => {
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: clamp-transfers
+    name: Clamp transfers
+    enabled: true
+    severity: high
+    action: modify
+    tools:
+      - transfer_funds
+    conditions:
+      - field: arguments.amount
+        operator: greater_than
+        value: 1000
+    transforms:
+      - type: clamp
+        field: arguments.amount
+        max: 1000
+      - type: drop
+        field: arguments.memo
+`,
+        'utf-8'
+      );
+
+      const handler = vi.fn().mockResolvedValue('sent');
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      const { implementations } = veto.wrapTools([
+        {
+          name: 'transfer_funds',
+          inputSchema: { type: 'object' as const },
+          handler,
+        },
+      ]);
+
+      await implementations.transfer_funds({ amount: 5000, to: 'ACC-1', memo: 'ignore limits' });
+
+      expect(handler).toHaveBeenCalledWith({ amount: 1000, to: 'ACC-1' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should run handlers with the original arguments in log mode', async () => {
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: clamp-transfers
+    name: Clamp transfers
+    enabled: true
+    severity: high
+    action: modify
+    tools:
+      - transfer_funds
+    transforms:
+      - type: clamp
+        field: arguments.amount
+        max: 1000
+`,
+        'utf-8'
+      );
+
+      const handler = vi.fn().mockResolvedValue('sent');
+      const veto = await Veto.init({ configDir: VETO_DIR, mode: 'log' });
+      const { implementations } = veto.wrapTools([
+        {
+          name: 'transfer_funds',
+          inputSchema: { type: 'object' as const },
+          handler,
+        },
+      ]);
+
+      await implementations.transfer_funds({ amount: 5000, to: 'ACC-1' });
+      const result = await veto.validateToolCall({
+        id: 'call_1',
+        name: 'transfer_funds',
+        arguments: { amount: 5000, to: 'ACC-1' },
+      });
+
+      expect(handler).toHaveBeenCalledWith({ amount: 5000, to: 'ACC-1' });
+      expect(result.allowed).toBe(true);
+      expect(result.finalArguments).toEqual({ amount: 5000, to: 'ACC-1' });
+      expect(result.validationResult.decision).toBe('allow');
+      expect(result.validationResult.metadata?.modify_skipped).toEqual(['clamp-transfers']);
+    });
+
     it('should return empty implementations for tools without handlers', async () => {
       const veto = await Veto.init({ configDir: VETO_DIR });
       const { definitions, implementations } = veto.wrapTools(sampleTools);
@@ -503,6 +745,52 @@ rules:
       expect(result.validationResult.reason).toContain('API unavailable');
     });
 
+    it('should use validation.failMode and api.apiKey from the config', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+validation:
+  failMode: "open"
+api:
+  baseUrl: "http://localhost:8080"
+  apiKey: "secret-key"
+  retries: 0
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: test
+    name: Test
+    enabled: true
+    severity: high
+    action: block
+`,
+        'utf-8'
+      );
+
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      const result = await veto.validateToolCall({
+        id: 'call_7',
+        name: 'read_file',
+        arguments: { path: '/test.txt' },
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.validationResult.reason).toBe('API unavailable: Request failed: Network error');
+      expect(result.validationResult.metadata).toMatchObject({ api_error: true, fail_mode: 'open' });
+      expect(mockFetch.mock.calls[0][1].headers['Authorization']).toBe('Bearer secret-key');
+    });
+
     it('should generate call ID if not provided', async () => {
       const veto = await Veto.init({ configDir: VETO_DIR });
 
@@ -572,18 +860,118 @@ rules:
       await veto.validateToolCall({ id: 'call_1', name: 'read_file', arguments: {} });
       await veto.validateToolCall({ id: 'call_2', name: 'write_file', arguments: {} });
 
-      const stats = veto.getHistoryStats();
+      const stats = await veto.getHistoryStats();
       expect(stats.totalCalls).toBe(2);
     });
 
+    it('should count cached decisions in the history stats', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+api:
+  retries: 0
+validation:
+  cache:
+    enabled: true
+    ttl: 60000
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: judge-reads
+    name: Judge reads
+    enabled: true
+    severity: high
+    action: block
+    tools: [read_file]
+`,
+        'utf-8'
+      );
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          should_pass_weight: 1,
+          should_block_weight: 0,
+          decision: 'pass',
+          reasoning: 'OK',
+        }),
+      });
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      await veto.validateToolCall({ id: 'call_1', name: 'read_file', arguments: { path: '/a' } });
+      const repeat = await veto.validateToolCall({
+        id: 'call_2',
+        name: 'read_file',
+        arguments: { path: '/a' },
+      });
+
+      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(repeat.validationResult.metadata?.cache_hit).toBe(true);
+      expect(await veto.getHistoryStats()).toMatchObject({ totalCalls: 2, cacheHits: 1 });
+    });
+
+    it('should report an open circuit in the health', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+api:
+  retries: 0
+validation:
+  circuitBreaker:
+    minimumCalls: 2
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: judge-reads
+    name: Judge reads
+    enabled: true
+    severity: high
+    action: block
+    tools: [read_file]
+`,
+        'utf-8'
+      );
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      expect(veto.getHealth()).toEqual({
+        healthy: true,
+        backends: [{ backend: 'api', state: 'closed', calls: 0, failures: 0 }],
+      });
+
+      for (const id of ['call_1', 'call_2', 'call_3']) {
+        await veto.validateToolCall({ id, name: 'read_file', arguments: { path: '/a' } });
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(veto.getHealth()).toMatchObject({
+        healthy: false,
+        backends: [{ backend: 'api', state: 'open', failures: 2 }],
+      });
+    });
+
     it('should clear history', async () => {
       const veto = await Veto.init({ configDir: VETO_DIR });
 
       await veto.validateToolCall({ id: 'call_1', name: 'read_file', arguments: {} });
 
-      veto.clearHistory();
+      await veto.clearHistory();
 
-      const stats = veto.getHistoryStats();
+      const stats = await veto.getHistoryStats();
       expect(stats.totalCalls).toBe(0);
     });
   });
@@ -641,35 +1029,1658 @@ rules:
       expect(body.rules[0].id).toBe('test-rule');
     });
 
-    it('should handle non-OK API responses', async () => {
+    it('should send the configured call history with redacted arguments', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+api:
+  baseUrl: "http://localhost:8080"
+  retries: 0
+validation:
+  history:
+    depth: 1
+    includeArguments: true
+    redact:
+      - arguments.token
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
       writeFileSync(
         join(RULES_DIR, 'rule.yaml'),
         `
 rules:
-  - id: test
-    name: Test
+  - id: judge-calls
+    name: Judge calls
     enabled: true
     severity: high
     action: block
 `,
         'utf-8'
       );
-
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 500,
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          should_pass_weight: 1,
+          should_block_weight: 0,
+          decision: 'pass',
+          reasoning: 'OK',
+        }),
+      });
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      await veto.validateToolCall({ name: 'login', arguments: { user: 'me', token: 'secret' } });
+      await veto.validateToolCall({ name: 'read_file', arguments: { path: '/a' } });
+      await veto.validateToolCall({ name: 'read_file', arguments: { path: '/b' } });
+
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.context.call_history).toEqual([
+        {
+          tool_name: 'login',
+          allowed: true,
+          timestamp: expect.any(String),
+          decision: 'allow',
+          reason: 'OK',
+          arguments: { user: 'me', token: '[REDACTED]' },
+        },
+      ]);
+      const last = JSON.parse(mockFetch.mock.calls[2][1].body);
+      expect(last.context.call_history.map((entry: { tool_name: string }) => entry.tool_name))
+        .toEqual(['read_file']);
+    });
+
+    it('should interpolate env vars and apply auth headers', async () => {
+      vi.stubEnv('VETO_TEST_API_URL', 'https://veto.example.com');
+      vi.stubEnv('VETO_TEST_TOKEN', 'secret-token');
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+api:
+  baseUrl: "\${VETO_TEST_API_URL}"
+  endpoint: "\${VETO_TEST_ENDPOINT:-/v2/check}"
+  retries: 0
+  auth:
+    bearer: "\${VETO_TEST_TOKEN}"
+    headers:
+      X-Tenant: acme
+    hmac:
+      secret: signing-secret
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: semantic
+    name: Semantic
+    enabled: true
+    severity: high
+    action: block
+    tools: [read_file]
+`,
+        'utf-8'
+      );
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          should_pass_weight: 1,
+          should_block_weight: 0,
+          decision: 'pass',
+          reasoning: 'OK',
+        }),
+      });
+
+      try {
+        const veto = await Veto.init({ configDir: VETO_DIR });
+        await veto.validateToolCall({ id: 'call_auth', name: 'read_file', arguments: {} });
+      } finally {
+        vi.unstubAllEnvs();
+      }
+
+      const [url, options] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://veto.example.com/v2/check');
+      expect(options.headers['Authorization']).toBe('Bearer secret-token');
+      expect(options.headers['X-Tenant']).toBe('acme');
+
+      const timestamp = options.headers['X-Veto-Timestamp'];
+      const signature = createHmac('sha256', 'signing-secret')
+        .update(`${timestamp}.${options.body}`)
+        .digest('hex');
+      expect(options.headers['X-Veto-Signature']).toBe(`sha256=${signature}`);
+    });
+
+    it('should keep numeric-looking tokens and secrets as strings', async () => {
+      vi.stubEnv('VETO_TEST_TOKEN', '000123');
+      vi.stubEnv('VETO_TEST_SECRET', '424242');
+      vi.stubEnv('VETO_TEST_RETRIES', '0');
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+api:
+  retries: \${VETO_TEST_RETRIES}
+  auth:
+    bearer: "\${VETO_TEST_TOKEN}"
+    hmac:
+      secret: "\${VETO_TEST_SECRET}"
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: semantic
+    name: Semantic
+    enabled: true
+    severity: high
+    action: block
+    tools: [read_file]
+`,
+        'utf-8'
+      );
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          should_pass_weight: 1,
+          should_block_weight: 0,
+          decision: 'pass',
+          reasoning: 'OK',
+        }),
+      });
+
+      let result;
+      try {
+        const veto = await Veto.init({ configDir: VETO_DIR });
+        result = await veto.validateToolCall({ id: 'call_auth', name: 'read_file', arguments: {} });
+      } finally {
+        vi.unstubAllEnvs();
+      }
+
+      expect(result.allowed).toBe(true);
+      expect(mockFetch).toHaveBeenCalledOnce();
+      const [, options] = mockFetch.mock.calls[0];
+      expect(options.headers['Authorization']).toBe('Bearer 000123');
+
+      const timestamp = options.headers['X-Veto-Timestamp'];
+      const signature = createHmac('sha256', '424242')
+        .update(`${timestamp}.${options.body}`)
+        .digest('hex');
+      expect(options.headers['X-Veto-Signature']).toBe(`sha256=${signature}`);
+    });
+
+    it('should handle non-OK API responses', async () => {
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: test
+    name: Test
+    enabled: true
+    severity: high
+    action: block
+`,
+        'utf-8'
+      );
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+      });
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      const result = await veto.validateToolCall({
+        id: 'call_500',
+        name: 'read_file',
+        arguments: {},
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.validationResult.reason).toContain('API unavailable');
+    });
+  });
+
+  describe('sessions', () => {
+    const passResponse = {
+      ok: true,
+      json: async () => ({
+        should_pass_weight: 1,
+        should_block_weight: 0,
+        decision: 'pass',
+        reasoning: 'OK',
+      }),
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep history, rate limits and context per session', async () => {
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: judge-email
+    name: Judge email
+    enabled: true
+    severity: high
+    action: block
+    tools: [send_email]
+  - id: email-rate
+    name: Email rate
+    enabled: true
+    severity: medium
+    action: block
+    tools: [send_email]
+    rate_limit:
+      max: 1
+      window: 1m
+`,
+        'utf-8'
+      );
+      mockFetch.mockResolvedValue(passResponse);
+
+      const veto = await Veto.init({ configDir: VETO_DIR, customContext: { region: 'eu' } });
+      const alice = veto.session('session-a', { agentId: 'agent-a', custom: { tenant: 'acme' } });
+      const bob = veto.session('session-b');
+      const call = { name: 'send_email', arguments: { to: 'x@example.com' } };
+
+      expect((await alice.validateToolCall(call)).allowed).toBe(true);
+      expect((await bob.validateToolCall(call)).allowed).toBe(true);
+      expect((await alice.validateToolCall(call)).allowed).toBe(false);
+
+      expect(veto.session('session-a')).toBe(alice);
+      expect((await alice.getHistoryStats()).totalCalls).toBe(2);
+      expect((await bob.getHistoryStats()).totalCalls).toBe(1);
+      expect((await veto.getHistoryStats()).totalCalls).toBe(0);
+
+      const [aliceBody, bobBody] = mockFetch.mock.calls.map(([, options]) => JSON.parse(options.body));
+      expect(aliceBody.context).toMatchObject({
+        session_id: 'session-a',
+        agent_id: 'agent-a',
+        custom: { region: 'eu', tenant: 'acme' },
+      });
+      expect(bobBody.context.session_id).toBe('session-b');
+      expect(bobBody.context.custom).toEqual({ region: 'eu' });
+    });
+
+    it('should not reuse cached decisions across sessions with different context', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+validation:
+  mode: "api"
+  cache:
+    enabled: true
+api:
+  retries: 0
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: admins-only
+    name: Admins only
+    enabled: true
+    severity: high
+    action: block
+    tools: [delete_user]
+`,
+        'utf-8'
+      );
+      mockFetch.mockImplementation(async (_url, options) => {
+        const admin = JSON.parse(options.body).context.custom?.role === 'admin';
+        return {
+          ok: true,
+          json: async () => ({
+            should_pass_weight: admin ? 1 : 0,
+            should_block_weight: admin ? 0 : 1,
+            decision: admin ? 'pass' : 'block',
+            reasoning: admin ? 'Admin' : 'Not an admin',
+          }),
+        };
+      });
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      const call = { name: 'delete_user', arguments: { id: 42 } };
+      const admin = veto.session('session-admin', { custom: { role: 'admin' } });
+      const guest = veto.session('session-guest', { custom: { role: 'guest' } });
+
+      expect((await admin.validateToolCall(call)).allowed).toBe(true);
+      expect((await admin.validateToolCall(call)).validationResult.metadata?.cache_hit).toBe(true);
+      expect((await guest.validateToolCall(call)).allowed).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict idle and least recently active sessions', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+validation:
+  mode: "local"
+session:
+  maxSessions: 2
+  idleTimeout: 60000
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      vi.useFakeTimers({ toFake: ['Date'] });
+
+      const first = veto.session('first');
+      vi.advanceTimersByTime(1000);
+      veto.session('second');
+      vi.advanceTimersByTime(1000);
+      await first.validateToolCall({ name: 'read_file', arguments: {} });
+      veto.session('third');
+
+      expect(veto.getSessionCount()).toBe(2);
+      expect(veto.endSession('second')).toBe(false);
+      expect(veto.session('first')).toBe(first);
+
+      vi.advanceTimersByTime(60_001);
+      expect(veto.getSessionCount()).toBe(0);
+      expect(veto.session('first')).not.toBe(first);
+      expect(veto.endSession('first')).toBe(true);
+    });
+  });
+
+  describe('validateToolCalls', () => {
+    const judgeRule = `
+rules:
+  - id: judge-files
+    name: Judge file access
+    enabled: true
+    severity: high
+    action: block
+    tools: [read_file, write_file]
+`;
+
+    function writeBatchConfig(batchEndpoint?: string, batchSettings = ''): void {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+api:
+  retries: 0
+${batchEndpoint ? `  batchEndpoint: "${batchEndpoint}"` : ''}
+${batchSettings}
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      writeFileSync(join(RULES_DIR, 'rule.yaml'), judgeRule, 'utf-8');
+    }
+
+    const decision = (decision: 'pass' | 'block', reasoning: string) => ({
+      should_pass_weight: decision === 'pass' ? 1 : 0,
+      should_block_weight: decision === 'pass' ? 0 : 1,
+      decision,
+      reasoning,
+    });
+
+    const calls = [
+      { id: 'call_1', name: 'read_file', arguments: { path: '/a' } },
+      { id: 'call_2', name: 'write_file', arguments: { path: '/b', content: 'x' } },
+      { id: 'call_3', name: 'read_file', arguments: { path: '/c' } },
+    ];
+
+    it('should validate the calls in one batch request and keep their order', async () => {
+      writeBatchConfig('/tool/call/check/batch');
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          results: [
+            decision('pass', 'first'),
+            decision('block', 'second'),
+            decision('pass', 'third'),
+          ],
+        }),
+      });
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      const results = await veto.validateToolCalls(calls);
+
+      expect(mockFetch).toHaveBeenCalledOnce();
+      const [url, options] = mockFetch.mock.calls[0];
+      expect(url).toBe('http://localhost:8080/tool/call/check/batch');
+      const body = JSON.parse(options.body);
+      expect(body.contexts.map((context: { call_id: string }) => context.call_id))
+        .toEqual(['call_1', 'call_2', 'call_3']);
+      expect(body.rules).toHaveLength(3);
+      expect(body.rules[1][0].id).toBe('judge-files');
+
+      expect(results.map((result) => [result.originalCall.id, result.allowed])).toEqual([
+        ['call_1', true],
+        ['call_2', false],
+        ['call_3', true],
+      ]);
+      expect(results[1].validationResult.reason).toBe('second');
+    });
+
+    it('should fall back to single requests if the batch request fails', async () => {
+      writeBatchConfig('/tool/call/check/batch');
+      mockFetch.mockImplementation(async (url: string, options: { body: string }) => {
+        if (url.endsWith('/batch')) {
+          return { ok: false, status: 404, text: async () => 'Not found' };
+        }
+        const { context } = JSON.parse(options.body);
+        return {
+          ok: true,
+          json: async () => decision(context.tool_name === 'write_file' ? 'block' : 'pass', context.call_id),
+        };
+      });
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      const results = await veto.validateToolCalls(calls);
+
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(results.map((result) => result.validationResult.reason))
+        .toEqual(['call_1', 'call_2', 'call_3']);
+      expect(results.map((result) => result.allowed)).toEqual([true, false, true]);
+    });
+
+    const respondByContext = async (url: string, options: { body: string }) => {
+      const body = JSON.parse(options.body);
+      return {
+        ok: true,
+        json: async () => url.endsWith('/batch')
+          ? { results: body.contexts.map((context: { call_id: string }) => decision('pass', context.call_id)) }
+          : decision('pass', body.context.call_id),
+      };
+    };
+
+    it('should batch calls made at different times within the batch window', async () => {
+      writeBatchConfig('/tool/call/check/batch', '  batchWindow: 200');
+      mockFetch.mockImplementation(respondByContext);
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      const first = veto.validateToolCall(calls[0]);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const second = veto.validateToolCall(calls[1]);
+      const results = await Promise.all([first, second]);
+
+      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).contexts).toHaveLength(2);
+      expect(results.map((result) => result.validationResult.reason)).toEqual(['call_1', 'call_2']);
+    });
+
+    it('should split bursts larger than the maximum batch size', async () => {
+      writeBatchConfig('/tool/call/check/batch', '  batchMaxSize: 2');
+      mockFetch.mockImplementation(respondByContext);
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      const results = await veto.validateToolCalls(calls);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const [[batchUrl, batchOptions], [singleUrl, singleOptions]] = mockFetch.mock.calls;
+      expect(batchUrl).toBe('http://localhost:8080/tool/call/check/batch');
+      expect(JSON.parse(batchOptions.body).contexts.map((context: { call_id: string }) => context.call_id))
+        .toEqual(['call_1', 'call_2']);
+      expect(singleUrl).toBe('http://localhost:8080/tool/call/check');
+      expect(JSON.parse(singleOptions.body).context.call_id).toBe('call_3');
+      expect(results.map((result) => result.validationResult.reason))
+        .toEqual(['call_1', 'call_2', 'call_3']);
+    });
+
+    it('should send parallel single requests without a batch endpoint', async () => {
+      writeBatchConfig();
+      mockFetch.mockImplementation(async (_url: string, options: { body: string }) => {
+        const { context } = JSON.parse(options.body);
+        return { ok: true, json: async () => decision('pass', context.call_id) };
+      });
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      const results = await veto.validateToolCalls(calls);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch.mock.calls.every(([url]) => url === 'http://localhost:8080/tool/call/check'))
+        .toBe(true);
+      expect(results.map((result) => result.validationResult.reason))
+        .toEqual(['call_1', 'call_2', 'call_3']);
+    });
+  });
+
+  describe('local rule evaluation', () => {
+    const blockEtcRule = `
+rules:
+  - id: block-etc
+    name: Block etc
+    enabled: true
+    severity: critical
+    action: block
+    tools:
+      - read_file
+    conditions:
+      - field: arguments.path
+        operator: starts_with
+        value: /etc
+`;
+
+    it('should block matching calls without calling the API', async () => {
+      writeFileSync(join(RULES_DIR, 'rule.yaml'), blockEtcRule, 'utf-8');
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      const result = await veto.validateToolCall({
+        id: 'call_local',
+        name: 'read_file',
+        arguments: { path: '/etc/passwd' },
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.validationResult.metadata?.matched_rules).toEqual(['block-etc']);
+      expect(result.validationResult.metadata?.validation_path).toBe('local');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should decide calls offline in local mode', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+mode: "strict"
+validation:
+  mode: "local"
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      writeFileSync(join(RULES_DIR, 'rule.yaml'), blockEtcRule, 'utf-8');
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      const blocked = await veto.validateToolCall({
+        id: 'call_blocked',
+        name: 'read_file',
+        arguments: { path: '/etc/shadow' },
+      });
+      const allowed = await veto.validateToolCall({
+        id: 'call_allowed',
+        name: 'read_file',
+        arguments: { path: '/home/user/notes.txt' },
+      });
+
+      expect(veto.getValidationMode()).toBe('local');
+      expect(blocked.allowed).toBe(false);
+      expect(allowed.allowed).toBe(true);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should enforce rate-limit rules from the call history', async () => {
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: email-rate
+    name: Email rate
+    enabled: true
+    severity: medium
+    action: block
+    tools:
+      - send_email
+    rate_limit:
+      max: 2
+      window: 1m
+`,
+        'utf-8'
+      );
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ decision: 'pass', reasoning: 'OK' }),
+      });
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      const call = { name: 'send_email', arguments: { to: 'a@example.com' } };
+
+      const results = [
+        await veto.validateToolCall(call),
+        await veto.validateToolCall(call),
+        await veto.validateToolCall(call),
+      ];
+
+      expect(results.map((result) => result.allowed)).toEqual([true, true, false]);
+      expect(results[2].validationResult.reason).toMatch(
+        /^Rate limit exceeded: Email rate \(2 of 2 calls in 1m; window resets at /
+      );
+      // The rate-limit rule is never sent to the backend
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should enforce rate limits above the history size', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+validation:
+  mode: "local"
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: email-rate
+    name: Email rate
+    enabled: true
+    severity: medium
+    action: block
+    tools: [send_email]
+    rate_limit:
+      max: 150
+      window: 1h
+`,
+        'utf-8'
+      );
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      const call = { name: 'send_email', arguments: { to: 'a@example.com' } };
+      let denied = 0;
+      for (let i = 0; i < 300; i++) {
+        if (!(await veto.validateToolCall(call)).allowed) denied++;
+      }
+
+      expect(denied).toBe(150);
+    });
+
+    it('should keep rate-limit history across restarts with a history store', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+validation:
+  mode: "local"
+  history:
+    store: "jsonl"
+    path: "state/history.jsonl"
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: email-rate
+    name: Email rate
+    enabled: true
+    severity: medium
+    action: block
+    tools:
+      - send_email
+    rate_limit:
+      max: 2
+      window: 1h
+`,
+        'utf-8'
+      );
+      const call = { name: 'send_email', arguments: { to: 'a@example.com' } };
+
+      const first = await Veto.init({ configDir: VETO_DIR, sessionId: 'agent-run' });
+      expect((await first.validateToolCall(call)).allowed).toBe(true);
+      expect((await first.validateToolCall(call)).allowed).toBe(true);
+
+      const restarted = await Veto.init({ configDir: VETO_DIR, sessionId: 'agent-run' });
+      expect((await restarted.validateToolCall(call)).allowed).toBe(false);
+      expect((await restarted.getHistoryStats()).totalCalls).toBe(3);
+      expect(existsSync(join(VETO_DIR, 'state', 'history.jsonl'))).toBe(true);
+
+      // Other sessions and cleared sessions start empty
+      expect((await restarted.session('other').validateToolCall(call)).allowed).toBe(true);
+      await restarted.clearHistory();
+      const cleared = await Veto.init({ configDir: VETO_DIR, sessionId: 'agent-run' });
+      expect((await cleared.getHistoryStats()).totalCalls).toBe(0);
+    });
+
+    it('should block calls by the sequence of earlier calls', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+mode: "strict"
+validation:
+  mode: "local"
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: no-post-after-ssh-read
+    name: No uploads after reading SSH keys
+    enabled: true
+    severity: critical
+    action: block
+    tools: [http_post]
+    sequence:
+      - operator: preceded_by
+        tools: [read_file]
+        conditions:
+          - field: arguments.path
+            operator: contains
+            value: /.ssh/
+  - id: test-before-push
+    name: Run tests before pushing
+    enabled: true
+    severity: high
+    action: block
+    tools: [git_push]
+    sequence:
+      - operator: not_preceded_by
+        tools: [run_tests]
+        within_calls: 5
+`,
+        'utf-8'
+      );
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      const post = { name: 'http_post', arguments: { url: 'https://example.com' } };
+      const push = { name: 'git_push', arguments: {} };
+
+      expect((await veto.validateToolCall(post)).allowed).toBe(true);
+      expect((await veto.validateToolCall(push)).allowed).toBe(false);
+
+      await veto.validateToolCall({ name: 'read_file', arguments: { path: '/home/me/.ssh/id_rsa' } });
+      await veto.validateToolCall({ name: 'run_tests', arguments: {} });
+
+      const blocked = await veto.validateToolCall(post);
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.validationResult.metadata?.matched_rules).toEqual(['no-post-after-ssh-read']);
+      expect((await veto.validateToolCall(push)).allowed).toBe(true);
+    });
+  });
+
+  describe('hybrid mode', () => {
+    beforeEach(() => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+mode: "strict"
+validation:
+  mode: "hybrid"
+  backend: "api"
+api:
+  baseUrl: "http://localhost:8080"
+  retries: 0
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+    });
+
+    it('should allow calls locally when no deterministic rule matches', async () => {
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: block-etc
+    name: Block etc
+    enabled: true
+    severity: critical
+    action: block
+    tools:
+      - read_file
+    conditions:
+      - field: arguments.path
+        operator: starts_with
+        value: /etc
+`,
+        'utf-8'
+      );
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      const result = await veto.validateToolCall({
+        id: 'call_hybrid_local',
+        name: 'read_file',
+        arguments: { path: '/home/user/file.txt' },
+      });
+
+      expect(veto.getValidationMode()).toBe('hybrid');
+      expect(result.allowed).toBe(true);
+      expect(result.validationResult.metadata?.validation_path).toBe('local');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should forward calls that only a model can decide', async () => {
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: no-secrets
+    name: No secret exfiltration
+    description: Block reads that look like credential harvesting
+    enabled: true
+    severity: high
+    action: block
+    tools:
+      - read_file
+`,
+        'utf-8'
+      );
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          should_pass_weight: 0.9,
+          should_block_weight: 0.1,
+          decision: 'pass',
+          reasoning: 'Looks fine',
+        }),
+      });
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      const result = await veto.validateToolCall({
+        id: 'call_hybrid_remote',
+        name: 'read_file',
+        arguments: { path: '/home/user/file.txt' },
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.validationResult.metadata?.validation_path).toBe('api');
+      expect(mockFetch).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('custom backends', () => {
+    const judgeRule = `
+rules:
+  - id: no-secrets
+    name: No secret exfiltration
+    enabled: true
+    severity: high
+    action: block
+    tools:
+      - read_file
+`;
+
+    function writeConfig(validation: string): void {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+validation:
+${validation}
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+    }
+
+    it('should select a registered backend by name', async () => {
+      writeConfig('  mode: "classifier"');
+      writeFileSync(join(RULES_DIR, 'rule.yaml'), judgeRule, 'utf-8');
+
+      const decide = vi.fn().mockResolvedValue({
+        decision: 'block',
+        should_pass_weight: 0.3,
+        should_block_weight: 0.7,
+        reasoning: 'Looks like credential harvesting',
+        matched_rules: ['no-secrets'],
+      });
+      const veto = await Veto.init({
+        configDir: VETO_DIR,
+        backends: [{ name: 'classifier', decide }],
+      });
+
+      const result = await veto.validateToolCall({
+        id: 'call_custom',
+        name: 'read_file',
+        arguments: { path: '/home/user/.aws/credentials' },
+      });
+
+      expect(veto.getValidationMode()).toBe('classifier');
+      expect(result.allowed).toBe(false);
+      expect(result.validationResult.reason).toBe('Looks like credential harvesting');
+      expect(result.validationResult.metadata).toMatchObject({
+        validation_path: 'classifier',
+        should_block_weight: 0.7,
+      });
+      expect(decide.mock.calls[0][0]).toMatchObject({
+        call_id: 'call_custom',
+        tool_name: 'read_file',
+      });
+      expect(decide.mock.calls[0][1].map((rule: { id: string }) => rule.id)).toEqual(['no-secrets']);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should use a registered backend in hybrid mode and apply the fail mode', async () => {
+      writeConfig('  mode: "hybrid"\n  backend: "sidecar"\n  failMode: "open"');
+      writeFileSync(join(RULES_DIR, 'rule.yaml'), judgeRule, 'utf-8');
+
+      const veto = await Veto.init({
+        configDir: VETO_DIR,
+        backends: [{
+          name: 'sidecar',
+          label: 'Sidecar',
+          decide: vi.fn().mockRejectedValue(new Error('process exited')),
+        }],
+      });
+
+      const result = await veto.validateToolCall({
+        id: 'call_sidecar',
+        name: 'read_file',
+        arguments: { path: '/tmp/notes.txt' },
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.validationResult.reason).toBe('Sidecar unavailable: process exited');
+      expect(result.validationResult.metadata).toMatchObject({ sidecar_error: true, fail_mode: 'open' });
+    });
+
+    it('should treat malformed decisions as backend failures', async () => {
+      writeConfig('  mode: "classifier"');
+      writeFileSync(join(RULES_DIR, 'rule.yaml'), judgeRule, 'utf-8');
+
+      const veto = await Veto.init({
+        configDir: VETO_DIR,
+        backends: [{ name: 'classifier', decide: vi.fn().mockResolvedValue({ decision: 'maybe' }) }],
+      });
+
+      const result = await veto.validateToolCall({
+        id: 'call_malformed',
+        name: 'read_file',
+        arguments: { path: '/tmp/notes.txt' },
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.validationResult.metadata?.classifier_error).toBe(true);
+    });
+
+    it('should replace the built-in api backend', async () => {
+      writeFileSync(join(RULES_DIR, 'rule.yaml'), judgeRule, 'utf-8');
+
+      const decide = vi.fn().mockResolvedValue({ decision: 'pass', reasoning: 'Test double' });
+      const veto = await Veto.init({ configDir: VETO_DIR, backends: [{ name: 'api', decide }] });
+
+      const result = await veto.validateToolCall({
+        id: 'call_double',
+        name: 'read_file',
+        arguments: { path: '/tmp/notes.txt' },
+      });
+
+      expect(result.validationResult.reason).toBe('Test double');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should combine registered backends in an ensemble', async () => {
+      writeConfig(`  mode: "ensemble"
+  ensemble:
+    backends: ["classifier", "sidecar"]
+    strategy: "weighted"
+    threshold: 0.6
+    weights:
+      classifier: 3`);
+      writeFileSync(join(RULES_DIR, 'rule.yaml'), judgeRule, 'utf-8');
+
+      const veto = await Veto.init({
+        configDir: VETO_DIR,
+        backends: [
+          {
+            name: 'classifier',
+            decide: vi.fn().mockResolvedValue({
+              decision: 'block',
+              should_block_weight: 0.8,
+              reasoning: 'Credential file',
+              matched_rules: ['no-secrets'],
+            }),
+          },
+          {
+            name: 'sidecar',
+            decide: vi.fn().mockResolvedValue({
+              decision: 'pass',
+              should_block_weight: 0.2,
+              reasoning: 'Looks harmless',
+            }),
+          },
+        ],
+      });
+
+      const result = await veto.validateToolCall({
+        id: 'call_ensemble',
+        name: 'read_file',
+        arguments: { path: '/home/user/.aws/credentials' },
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.validationResult.reason).toBe('classifier: Credential file');
+      expect(result.validationResult.metadata).toMatchObject({
+        validation_path: 'ensemble',
+        should_block_weight: expect.closeTo(0.65),
+        ensemble_votes: { block: 1, pass: 1 },
+      });
+      expect(result.aggregatedResult.backendResults.map((r) => [r.backend, r.decision])).toEqual([
+        ['classifier', 'block'],
+        ['sidecar', 'pass'],
+      ]);
+    });
+
+    it('should apply configured thresholds and escalate uncertain decisions', async () => {
+      writeConfig(`  mode: "classifier"
+  thresholds:
+    severity:
+      high: 0.4
+    uncertainty:
+      margin: 0.05
+      action: "backend"
+      backend: "sidecar"`);
+      writeFileSync(join(RULES_DIR, 'rule.yaml'), judgeRule, 'utf-8');
+
+      const classifier = vi.fn().mockResolvedValue({
+        decision: 'pass',
+        should_block_weight: 0.42,
+        reasoning: 'Probably fine',
+      });
+      const sidecar = vi.fn().mockResolvedValue({
+        decision: 'pass',
+        should_block_weight: 0.3,
+        reasoning: 'Reviewed by sidecar',
+      });
+      const veto = await Veto.init({
+        configDir: VETO_DIR,
+        backends: [
+          { name: 'classifier', decide: classifier },
+          { name: 'sidecar', decide: sidecar },
+        ],
+      });
+
+      const result = await veto.validateToolCall({
+        id: 'call_threshold',
+        name: 'read_file',
+        arguments: { path: '/home/user/notes.txt' },
+      });
+
+      expect(sidecar).toHaveBeenCalledOnce();
+      expect(result.allowed).toBe(true);
+      expect(result.validationResult.reason).toBe('Reviewed by sidecar');
+      expect(result.validationResult.metadata).toMatchObject({
+        validation_path: 'sidecar',
+        escalated_from: 'classifier',
+        block_threshold: 0.4,
+      });
+
+      classifier.mockResolvedValueOnce({
+        decision: 'pass',
+        should_block_weight: 0.6,
+        reasoning: 'Probably fine',
+      });
+      const blocked = await veto.validateToolCall({
+        id: 'call_threshold_2',
+        name: 'read_file',
+        arguments: { path: '/home/user/.ssh/id_rsa' },
+      });
+
+      expect(blocked.allowed).toBe(false);
+      expect(sidecar).toHaveBeenCalledOnce();
+    });
+
+    it('should reject unknown backend names', async () => {
+      writeConfig('  mode: "classifier"');
+
+      await expect(Veto.init({ configDir: VETO_DIR })).rejects.toThrow(
+        'Unknown decision backend "classifier" (available: api, kernel, local, ensemble)'
+      );
+    });
+  });
+
+  describe('rule inheritance', () => {
+    it('should load rules that extend a baseline outside the rules directory', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'baseline.yaml'),
+        `
+fragments:
+  system_paths:
+    - field: arguments.path
+      operator: starts_with
+      value: /etc
+rules:
+  - id: block-system-reads
+    name: Block system reads
+    enabled: true
+    severity: high
+    action: block
+    tools: [read_file]
+    conditions: [$system_paths]
+  - id: block-shell
+    name: Block shell
+    enabled: true
+    severity: high
+    action: block
+    tools: [run_shell]
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'project.yaml'),
+        `
+extends: ../baseline.yaml
+overrides:
+  - id: block-shell
+    enabled: false
+`,
+        'utf-8'
+      );
+
+      const veto = await Veto.init({ configDir: VETO_DIR, validationMode: 'local' });
+
+      expect(veto.getLoadedRules().map((rule) => rule.id)).toEqual(['block-system-reads']);
+      const read = await veto.validateToolCall({
+        id: 'call_read',
+        name: 'read_file',
+        arguments: { path: '/etc/passwd' },
+      });
+      const shell = await veto.validateToolCall({
+        id: 'call_shell',
+        name: 'run_shell',
+        arguments: { command: 'ls' },
+      });
+      expect(read.allowed).toBe(false);
+      expect(shell.allowed).toBe(true);
+    });
+
+    it('should load a base inside the rules directory only through the file extending it', async () => {
+      mkdirSync(join(RULES_DIR, 'base'), { recursive: true });
+      writeFileSync(
+        join(RULES_DIR, 'base', 'tmp.yaml'),
+        `
+rules:
+  - id: no-tmp
+    name: No tmp
+    enabled: true
+    severity: high
+    action: block
+    tools: [write_file]
+    conditions:
+      - field: arguments.path
+        operator: starts_with
+        value: /tmp
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'project.yaml'),
+        `
+extends: ./base/tmp.yaml
+overrides:
+  - id: no-tmp
+    enabled: false
+`,
+        'utf-8'
+      );
+
+      const veto = await Veto.init({ configDir: VETO_DIR, validationMode: 'local' });
+      const result = await veto.validateToolCall({
+        id: 'call_tmp',
+        name: 'write_file',
+        arguments: { path: '/tmp/x' },
+      });
+
+      expect(veto.getLoadedRules()).toEqual([]);
+      expect(result.allowed).toBe(true);
+    });
+  });
+
+  describe('rule set settings', () => {
+    it('should merge global tags into every rule', async () => {
+      writeFileSync(
+        join(RULES_DIR, 'finance.yaml'),
+        `
+version: "1.0"
+name: finance
+settings:
+  global_tags: [finance, pci]
+rules:
+  - id: large-transfer
+    name: Large transfer
+    enabled: true
+    severity: high
+    action: block
+    tags: [payments]
+`,
+        'utf-8'
+      );
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      expect(veto.getLoadedRules()[0].tags).toEqual(['payments', 'finance', 'pci']);
+    });
+
+    it('should fail open only for rule sets with fail_mode open', async () => {
+      writeFileSync(
+        join(RULES_DIR, 'general.yaml'),
+        `
+version: "1.0"
+name: general
+settings:
+  fail_mode: open
+rules:
+  - id: general-rule
+    name: General rule
+    enabled: true
+    severity: low
+    action: block
+    tools: [read_file]
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'finance.yaml'),
+        `
+version: "1.0"
+name: finance
+settings:
+  fail_mode: closed
+rules:
+  - id: finance-rule
+    name: Finance rule
+    enabled: true
+    severity: critical
+    action: block
+    tools: [transfer_funds]
+`,
+        'utf-8'
+      );
+
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      const read = await veto.validateToolCall({
+        id: 'call_read',
+        name: 'read_file',
+        arguments: { path: '/test.txt' },
+      });
+      const transfer = await veto.validateToolCall({
+        id: 'call_transfer',
+        name: 'transfer_funds',
+        arguments: { amount: 100 },
+      });
+
+      expect(read.allowed).toBe(true);
+      expect(read.validationResult.metadata?.fail_mode).toBe('open');
+      expect(transfer.allowed).toBe(false);
+      expect(transfer.validationResult.metadata?.fail_mode).toBe('closed');
+
+      mockFetch.mockReset();
+    });
+
+    it('should apply default_action when no rule in the set matches', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+validation:
+  mode: "local"
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'accounts.yaml'),
+        `
+version: "1.0"
+name: approved-accounts
+settings:
+  default_action: block
+rules:
+  - id: allow-known-account
+    name: Allow known account
+    enabled: true
+    severity: high
+    action: allow
+    tools: [transfer_funds]
+    conditions:
+      - field: arguments.to_account
+        operator: in
+        value: [ACC-1, ACC-2]
+`,
+        'utf-8'
+      );
+
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      const known = await veto.validateToolCall({
+        id: 'call_known',
+        name: 'transfer_funds',
+        arguments: { to_account: 'ACC-1' },
+      });
+      const unknown = await veto.validateToolCall({
+        id: 'call_unknown',
+        name: 'transfer_funds',
+        arguments: { to_account: 'ACC-9' },
+      });
+
+      expect(known.allowed).toBe(true);
+      expect(unknown.allowed).toBe(false);
+      expect(unknown.validationResult.reason).toContain('approved-accounts');
+    });
+  });
+
+  describe('rule actions', () => {
+    beforeEach(() => {
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: warn-external
+    name: Warn on external reads
+    description: External paths are read
+    enabled: true
+    severity: medium
+    action: warn
+    tools: [read_file]
+  - id: log-reads
+    name: Log reads
+    enabled: true
+    severity: info
+    action: log
+    tools: [read_file]
+`,
+        'utf-8'
+      );
+    });
+
+    it('should allow and warn when only warn and log rules match', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          should_pass_weight: 0.2,
+          should_block_weight: 0.8,
+          decision: 'block',
+          reasoning: 'Matched warning rules',
+          matched_rules: ['warn-external', 'log-reads'],
+        }),
+      });
+
+      const onWarning = vi.fn();
+      const veto = await Veto.init({ configDir: VETO_DIR, onWarning });
+
+      const result = await veto.validateToolCall({
+        id: 'call_warn',
+        name: 'read_file',
+        arguments: { path: '/mnt/external/data.csv' },
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.warnings).toEqual([
+        {
+          ruleId: 'warn-external',
+          ruleName: 'Warn on external reads',
+          severity: 'medium',
+          message: 'External paths are read',
+        },
+      ]);
+      expect(result.validationResult.metadata?.logged_rules).toEqual(['log-reads']);
+      expect(onWarning).toHaveBeenCalledOnce();
+    });
+
+    it('should still block when matched rules are not reported', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          should_pass_weight: 0.2,
+          should_block_weight: 0.8,
+          decision: 'block',
+          reasoning: 'Blocked',
+        }),
       });
 
       const veto = await Veto.init({ configDir: VETO_DIR });
 
       const result = await veto.validateToolCall({
-        id: 'call_500',
+        id: 'call_unreported',
         name: 'read_file',
-        arguments: {},
+        arguments: { path: '/mnt/external/data.csv' },
       });
 
       expect(result.allowed).toBe(false);
-      expect(result.validationResult.reason).toContain('API unavailable');
+    });
+  });
+
+  describe('approval', () => {
+    beforeEach(() => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+mode: "strict"
+validation:
+  mode: "local"
+approval:
+  timeout: 1000
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      writeFileSync(
+        join(RULES_DIR, 'rule.yaml'),
+        `
+rules:
+  - id: approve-large-transfers
+    name: Approve large transfers
+    enabled: true
+    severity: high
+    action: require_approval
+    tools: [transfer_funds]
+    conditions:
+      - field: arguments.amount
+        operator: greater_than
+        value: 1000
+`,
+        'utf-8'
+      );
+    });
+
+    it('should ask the approval provider before allowing matching calls', async () => {
+      const approvalProvider = {
+        name: 'test',
+        requestApproval: vi.fn().mockResolvedValue({ approved: false, approver: 'ops' }),
+      };
+      const veto = await Veto.init({ configDir: VETO_DIR, approvalProvider });
+
+      const large = await veto.validateToolCall({
+        name: 'transfer_funds',
+        arguments: { amount: 5000 },
+      });
+      const small = await veto.validateToolCall({
+        name: 'transfer_funds',
+        arguments: { amount: 10 },
+      });
+
+      expect(large.allowed).toBe(false);
+      expect(large.approval).toMatchObject({
+        approved: false,
+        approver: 'ops',
+        ruleIds: ['approve-large-transfers'],
+      });
+      expect(small.allowed).toBe(true);
+      expect(approvalProvider.requestApproval).toHaveBeenCalledOnce();
+    });
+
+    it('should ask for approval when the API passes a locally matched call', async () => {
+      writeFileSync(
+        join(VETO_DIR, 'veto.config.yaml'),
+        `
+version: "1.0"
+validation:
+  mode: "api"
+api:
+  retries: 0
+logging:
+  level: "silent"
+`,
+        'utf-8'
+      );
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          should_pass_weight: 0.9,
+          should_block_weight: 0.1,
+          decision: 'pass',
+          reasoning: 'OK',
+        }),
+      });
+      const approvalProvider = {
+        name: 'test',
+        requestApproval: vi.fn().mockResolvedValue({ approved: false }),
+      };
+      const veto = await Veto.init({ configDir: VETO_DIR, approvalProvider });
+
+      const result = await veto.validateToolCall({
+        name: 'transfer_funds',
+        arguments: { amount: 50000 },
+      });
+
+      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(approvalProvider.requestApproval).toHaveBeenCalledOnce();
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should not ask for approval in log mode', async () => {
+      const approvalProvider = { name: 'test', requestApproval: vi.fn() };
+      const veto = await Veto.init({ configDir: VETO_DIR, mode: 'log', approvalProvider });
+
+      const result = await veto.validateToolCall({
+        name: 'transfer_funds',
+        arguments: { amount: 5000 },
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.validationResult.metadata?.approval_skipped).toEqual(['approve-large-transfers']);
+      expect(approvalProvider.requestApproval).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rule reloading', () => {
+    const rule = (id: string, severity = 'high') => `
+rules:
+  - id: ${id}
+    name: ${id}
+    enabled: true
+    severity: ${severity}
+    action: block
+`;
+
+    it('should reload rules and report the diff', async () => {
+      writeFileSync(join(RULES_DIR, 'a.yaml'), rule('rule-a'), 'utf-8');
+      writeFileSync(join(RULES_DIR, 'b.yaml'), rule('rule-b'), 'utf-8');
+      const veto = await Veto.init({ configDir: VETO_DIR });
+      const listener = vi.fn();
+      veto.on('rulesReloaded', listener);
+
+      writeFileSync(join(RULES_DIR, 'a.yaml'), rule('rule-a', 'critical'), 'utf-8');
+      rmSync(join(RULES_DIR, 'b.yaml'));
+      writeFileSync(join(RULES_DIR, 'c.yaml'), rule('rule-c'), 'utf-8');
+      const event = veto.reloadRules();
+
+      expect(event).toMatchObject({
+        trigger: 'manual',
+        added: ['rule-c'],
+        removed: ['rule-b'],
+        changed: ['rule-a'],
+        total: 2,
+        errors: [],
+      });
+      expect(listener).toHaveBeenCalledWith(event);
+      expect(veto.getLoadedRules().map((r) => r.id).sort()).toEqual(['rule-a', 'rule-c']);
+    });
+
+    it('should keep the last good rules of a file that fails to parse', async () => {
+      writeFileSync(join(RULES_DIR, 'a.yaml'), rule('rule-a'), 'utf-8');
+      const veto = await Veto.init({ configDir: VETO_DIR });
+
+      writeFileSync(join(RULES_DIR, 'a.yaml'), 'rules: [unclosed', 'utf-8');
+      const event = veto.reloadRules();
+
+      expect(event.errors).toHaveLength(1);
+      expect(event.errors[0].path).toBe(join(RULES_DIR, 'a.yaml'));
+      expect(event.removed).toEqual([]);
+      expect(veto.getLoadedRules().map((r) => r.id)).toEqual(['rule-a']);
+    });
+
+    it('should reject reloads with schema problems in strict mode', async () => {
+      writeFileSync(join(RULES_DIR, 'a.yaml'), rule('rule-a'), 'utf-8');
+      const veto = await Veto.init({ configDir: VETO_DIR, strictRules: true });
+
+      writeFileSync(join(RULES_DIR, 'a.yaml'), rule('rule-a', 'urgent'), 'utf-8');
+      const event = veto.reloadRules();
+
+      expect(event.applied).toBe(false);
+      expect(event.issues[0].path).toBe('rules[0].severity');
+      expect(veto.getLoadedRules()[0].severity).toBe('high');
+    });
+
+    it('should reload automatically when watching', async () => {
+      writeFileSync(join(RULES_DIR, 'a.yaml'), rule('rule-a'), 'utf-8');
+      const veto = await Veto.init({ configDir: VETO_DIR, watch: true });
+      const listener = vi.fn();
+      veto.on('rulesReloaded', listener);
+
+      try {
+        writeFileSync(join(RULES_DIR, 'b.yaml'), rule('rule-b'), 'utf-8');
+
+        await vi.waitFor(() => expect(listener).toHaveBeenCalled(), { timeout: 2000 });
+        expect(listener.mock.calls[0][0]).toMatchObject({ trigger: 'rules', added: ['rule-b'] });
+      } finally {
+        veto.close();
+      }
+    });
+
+    it('should watch each directory where recursive watching is unavailable', async () => {
+      watchSupport.recursive = false;
+      mkdirSync(join(RULES_DIR, 'team'));
+      const veto = await Veto.init({ configDir: VETO_DIR, watch: true });
+      const listener = vi.fn();
+      veto.on('rulesReloaded', listener);
+
+      try {
+        writeFileSync(join(RULES_DIR, 'team', 'a.yaml'), rule('rule-a'), 'utf-8');
+        await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1), { timeout: 2000 });
+
+        // Directories created after startup are watched too
+        mkdirSync(join(RULES_DIR, 'team', 'new'));
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        writeFileSync(join(RULES_DIR, 'team', 'new', 'b.yaml'), rule('rule-b'), 'utf-8');
+
+        await vi.waitFor(
+          () => expect(listener.mock.calls.at(-1)?.[0]).toMatchObject({ added: ['rule-b'] }),
+          { timeout: 2000 }
+        );
+      } finally {
+        veto.close();
+        watchSupport.recursive = true;
+      }
     });
   });
 
@@ -700,15 +2711,12 @@ rules:
 rules:
   - id: block-etc
     name: Block etc
+    description: Block reads of system configuration
     enabled: true
     severity: critical
     action: block
     tools:
       - read_file
-    conditions:
-      - field: arguments.path
-        operator: starts_with
-        value: /etc
 `,
         'utf-8'
       );
@@ -181,5 +181,43 @@ describe('kernel prompt builder', () => {
       // Tool call section followed by blank line then rules
       expect(prompt).toMatch(/arguments:\n\s+command:.*\n\nRULES:/s);
     });
+
+    it('should include recent calls between the tool call and the rules', () => {
+      const prompt = buildPrompt(
+        {
+          ...sampleToolCall,
+          history: [
+            {
+              tool_name: 'read_file',
+              allowed: true,
+              timestamp: '2026-01-01T00:00:00.000Z',
+              decision: 'allow',
+              arguments: { path: '/home/me/.ssh/id_rsa' },
+            },
+            {
+              tool_name: 'http_post',
+              allowed: false,
+              timestamp: '2026-01-01T00:00:05.000Z',
+              reason: 'Blocked by rule',
+            },
+          ],
+        },
+        sampleRules
+      );
+
+      expect(prompt).toContain(
+        'RECENT CALLS (oldest first):\n' +
+        '- tool: read_file\n' +
+        '  decision: allow\n' +
+        '  timestamp: 2026-01-01T00:00:00.000Z\n' +
+        '  arguments:\n' +
+        '    path: "/home/me/.ssh/id_rsa"\n' +
+        '- tool: http_post\n' +
+        '  decision: deny\n' +
+        '  timestamp: 2026-01-01T00:00:05.000Z\n' +
+        '  reason: "Blocked by rule"\n\nRULES:'
+      );
+      expect(buildPrompt(sampleToolCall, sampleRules)).not.toContain('RECENT CALLS');
+    });
   });
 });
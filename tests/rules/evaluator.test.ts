@@ -0,0 +1,214 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  evaluateCondition,
+  evaluateRule,
+  evaluateRules,
+  evaluateSequence,
+  resolveFieldPath,
+  type RuleEvaluationTarget,
+} from '../../src/rules/evaluator.js';
+import type { Rule, RuleCondition } from '../../src/rules/types.js';
+import type { ToolCallHistoryEntry } from '../../src/types/config.js';
+
+const target: RuleEvaluationTarget = {
+  tool_name: 'transfer_funds',
+  arguments: {
+    amount: 2500,
+    to_account: 'ACC-123',
+    path: '/etc/passwd',
+    tags: ['urgent', 'external'],
+    nested: { approved: false },
+  },
+  context: { call_count_last_minute: 7 },
+};
+
+const rule = (overrides: Partial<Rule>): Rule => ({
+  id: 'rule',
+  name: 'Rule',
+  enabled: true,
+  severity: 'high',
+  action: 'block',
+  ...overrides,
+});
+
+const cond = (
+  field: string,
+  operator: RuleCondition['operator'],
+  value: unknown
+): RuleCondition => ({ field, operator, value });
+
+describe('rule evaluator', () => {
+  describe('resolveFieldPath', () => {
+    it('should resolve nested dot-notation paths', () => {
+      expect(resolveFieldPath(target, 'arguments.nested.approved')).toBe(false);
+      expect(resolveFieldPath(target, 'arguments.tags.1')).toBe('external');
+      expect(resolveFieldPath(target, 'context.call_count_last_minute')).toBe(7);
+    });
+
+    it('should return undefined for missing segments', () => {
+      expect(resolveFieldPath(target, 'arguments.missing.deep')).toBeUndefined();
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    it.each([
+      [cond('arguments.to_account', 'equals', 'ACC-123'), true],
+      [cond('arguments.to_account', 'not_equals', 'ACC-123'), false],
+      [cond('arguments.path', 'contains', 'passwd'), true],
+      [cond('arguments.tags', 'contains', 'urgent'), true],
+      [cond('arguments.path', 'not_contains', 'shadow'), true],
+      [cond('arguments.path', 'starts_with', '/etc'), true],
+      [cond('arguments.path', 'ends_with', '.env'), false],
+      [cond('arguments.path', 'matches', '^/(etc|root)/'), true],
+      [cond('arguments.amount', 'greater_than', 1000), true],
+      [cond('arguments.amount', 'less_than', 1000), false],
+      [cond('arguments.to_account', 'in', ['ACC-123', 'ACC-456']), true],
+      [cond('arguments.to_account', 'not_in', ['ACC-123']), false],
+      [cond('tool_name', 'equals', 'transfer_funds'), true],
+    ])('should evaluate %o as %s', (condition, expected) => {
+      expect(evaluateCondition(condition, target)).toBe(expected);
+    });
+
+    it('should treat missing fields as not matching positive operators', () => {
+      expect(evaluateCondition(cond('arguments.missing', 'equals', 'x'), target)).toBe(false);
+      expect(evaluateCondition(cond('arguments.missing', 'greater_than', 0), target)).toBe(false);
+      expect(evaluateCondition(cond('arguments.missing', 'not_equals', 'x'), target)).toBe(true);
+    });
+
+    it('should throw on invalid regex', () => {
+      expect(() =>
+        evaluateCondition(cond('arguments.path', 'matches', '(unclosed'), target)
+      ).toThrow('Invalid regex');
+    });
+  });
+
+  describe('evaluateRule', () => {
+    it('should require all conditions to match', () => {
+      const r = rule({
+        conditions: [
+          cond('arguments.amount', 'greater_than', 1000),
+          cond('arguments.nested.approved', 'equals', true),
+        ],
+      });
+
+      expect(evaluateRule(r, target)).toBe(false);
+    });
+
+    it('should match when any condition group matches', () => {
+      const r = rule({
+        condition_groups: [
+          [cond('arguments.amount', 'greater_than', 10000)],
+          [cond('arguments.tags', 'contains', 'external')],
+        ],
+      });
+
+      expect(evaluateRule(r, target)).toBe(true);
+    });
+
+    it('should never match rules without conditions', () => {
+      expect(evaluateRule(rule({}), target)).toBe(false);
+    });
+  });
+
+  describe('evaluateSequence', () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    const call = (
+      toolName: string,
+      args: Record<string, unknown>,
+      secondsAgo: number,
+      decision: 'allow' | 'deny' = 'allow'
+    ): ToolCallHistoryEntry => ({
+      toolName,
+      arguments: args,
+      validationResult: { decision },
+      timestamp: new Date(now.getTime() - secondsAgo * 1000),
+    });
+
+    const history = [
+      call('read_file', { path: '/home/me/.ssh/id_rsa' }, 300),
+      call('list_dir', { path: '/tmp' }, 120),
+      call('run_tests', {}, 60, 'deny'),
+      call('write_file', { path: '/tmp/out' }, 10),
+    ];
+    const withHistory = { ...target, history };
+    const sshRead = {
+      tools: ['read_file'],
+      conditions: [cond('arguments.path', 'contains', '/.ssh/')],
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should match earlier calls by tool and conditions', () => {
+      expect(evaluateSequence({ operator: 'preceded_by', ...sshRead }, withHistory)).toBe(true);
+      expect(evaluateSequence({ operator: 'not_preceded_by', ...sshRead }, withHistory)).toBe(false);
+      expect(evaluateSequence({ operator: 'preceded_by', ...sshRead }, target)).toBe(false);
+    });
+
+    it('should not count denied calls', () => {
+      expect(
+        evaluateSequence({ operator: 'not_preceded_by', tools: ['run_tests'] }, withHistory)
+      ).toBe(true);
+    });
+
+    it('should limit the lookback by calls and by time', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+
+      expect(
+        evaluateSequence({ operator: 'preceded_by', ...sshRead, within_calls: 3 }, withHistory)
+      ).toBe(false);
+      expect(
+        evaluateSequence({ operator: 'preceded_by', ...sshRead, within: '5m' }, withHistory)
+      ).toBe(true);
+      expect(
+        evaluateSequence({ operator: 'preceded_by', ...sshRead, within: 299 }, withHistory)
+      ).toBe(false);
+    });
+
+    it('should combine with the rule conditions', () => {
+      const exfiltration = rule({
+        tools: ['http_post'],
+        conditions: [cond('arguments.amount', 'greater_than', 1000)],
+        sequence: [{ operator: 'preceded_by', ...sshRead }],
+      });
+
+      expect(evaluateRule(exfiltration, withHistory)).toBe(true);
+      expect(evaluateRule(exfiltration, target)).toBe(false);
+      expect(evaluateRule(rule({ sequence: [{ operator: 'not_preceded_by', tools: ['git_push'] }] }), target))
+        .toBe(true);
+    });
+  });
+
+  describe('evaluateRules', () => {
+    it('should report the strongest action among matched rules', () => {
+      const result = evaluateRules(
+        [
+          rule({ id: 'warn', action: 'warn', conditions: [cond('arguments.amount', 'greater_than', 100)] }),
+          rule({ id: 'block', action: 'block', conditions: [cond('arguments.path', 'starts_with', '/etc')] }),
+          rule({ id: 'miss', action: 'block', conditions: [cond('arguments.path', 'starts_with', '/var')] }),
+        ],
+        target
+      );
+
+      expect(result.matchedRules.map((r) => r.id)).toEqual(['warn', 'block']);
+      expect(result.action).toBe('block');
+    });
+
+    it('should separate rules without conditions and rules that fail to evaluate', () => {
+      const result = evaluateRules(
+        [
+          rule({ id: 'semantic' }),
+          rule({ id: 'broken', conditions: [cond('arguments.path', 'matches', '[')] }),
+        ],
+        target
+      );
+
+      expect(result.unevaluatedRules.map((r) => r.id)).toEqual(['semantic']);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].ruleId).toBe('broken');
+      expect(result.action).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import {
+  RuleInheritanceError,
+  isRuleSetDocument,
+  resolveRuleSet,
+} from '../../src/rules/inheritance.js';
+
+const TEST_DIR = '/tmp/veto-inheritance-test-' + Date.now();
+
+const BASELINE = `
+name: baseline
+settings:
+  fail_mode: closed
+  global_tags: [baseline]
+fragments:
+  sensitive_paths:
+    - field: arguments.path
+      operator: starts_with
+      value: /etc
+rules:
+  - id: block-sensitive-reads
+    name: Block sensitive reads
+    enabled: true
+    severity: high
+    action: warn
+    tools: [read_file]
+    conditions:
+      - $sensitive_paths
+  - id: log-shell
+    name: Log shell
+    enabled: true
+    severity: low
+    action: log
+    tools: [run_shell]
+`;
+
+function resolveYaml(content: string, file = join(TEST_DIR, 'project.yaml')) {
+  return resolveRuleSet(parseYaml(content) as Record<string, unknown>, file);
+}
+
+describe('rule inheritance', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    mkdirSync(join(TEST_DIR, 'base'), { recursive: true });
+    writeFileSync(join(TEST_DIR, 'base', 'baseline.yaml'), BASELINE, 'utf-8');
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+
+  describe('isRuleSetDocument', () => {
+    it('should recognize rule sets by their keys', () => {
+      expect(isRuleSetDocument({ rules: [] })).toBe(true);
+      expect(isRuleSetDocument({ extends: './base.yaml' })).toBe(true);
+      expect(isRuleSetDocument({ id: 'rule', name: 'Rule' })).toBe(false);
+      expect(isRuleSetDocument([{ id: 'rule' }])).toBe(false);
+    });
+  });
+
+  describe('resolveRuleSet', () => {
+    it('should inherit rules, fragments and settings through extends', () => {
+      const resolved = resolveYaml(`
+extends: ./base/baseline.yaml
+settings:
+  fail_mode: open
+rules:
+  - id: block-secret-writes
+    name: Block secret writes
+    enabled: true
+    severity: high
+    action: block
+    tools: [write_file]
+    conditions:
+      - $sensitive_paths
+`);
+
+      expect(resolved.rules.map((rule) => rule.id)).toEqual([
+        'block-sensitive-reads',
+        'log-shell',
+        'block-secret-writes',
+      ]);
+      expect(resolved.rules[0].conditions).toEqual([
+        { field: 'arguments.path', operator: 'starts_with', value: '/etc' },
+      ]);
+      expect(resolved.rules[0].tags).toEqual(['baseline']);
+      expect(resolved.rules[2].conditions).toEqual(resolved.rules[0].conditions);
+      expect(resolved.settings).toEqual({ fail_mode: 'open', global_tags: ['baseline'] });
+      expect(resolved.sources).toEqual([join(TEST_DIR, 'base', 'baseline.yaml')]);
+    });
+
+    it('should not inherit settings through include', () => {
+      const resolved = resolveYaml('include: [./base/baseline.yaml]');
+
+      expect(resolved.rules).toHaveLength(2);
+      expect(resolved.settings).toEqual({});
+    });
+
+    it('should disable and tighten inherited rules with overrides', () => {
+      const resolved = resolveYaml(`
+extends: ./base/baseline.yaml
+fragments:
+  home_paths:
+    - field: arguments.path
+      operator: starts_with
+      value: /home
+overrides:
+  - id: log-shell
+    enabled: false
+  - id: block-sensitive-reads
+    action: block
+    condition_groups:
+      - $sensitive_paths
+      - $home_paths
+`);
+
+      expect(resolved.rules[1].enabled).toBe(false);
+      expect(resolved.rules[0]).toMatchObject({
+        id: 'block-sensitive-reads',
+        action: 'block',
+        severity: 'high',
+        condition_groups: [
+          [{ field: 'arguments.path', operator: 'starts_with', value: '/etc' }],
+          [{ field: 'arguments.path', operator: 'starts_with', value: '/home' }],
+        ],
+      });
+    });
+
+    it('should replace an inherited rule redefined with the same ID', () => {
+      const resolved = resolveYaml(`
+extends: ./base/baseline.yaml
+rules:
+  - id: log-shell
+    name: Block shell
+    enabled: true
+    severity: critical
+    action: block
+    tools: [run_shell]
+`);
+
+      expect(resolved.rules).toHaveLength(2);
+      expect(resolved.rules[1]).toMatchObject({ id: 'log-shell', action: 'block' });
+    });
+
+    it('should resolve rule sets from npm packages', () => {
+      const packageDir = join(TEST_DIR, 'node_modules', '@acme', 'veto-baseline');
+      mkdirSync(packageDir, { recursive: true });
+      writeFileSync(
+        join(packageDir, 'package.json'),
+        JSON.stringify({ name: '@acme/veto-baseline', main: 'rules.yaml' }),
+        'utf-8'
+      );
+      writeFileSync(join(packageDir, 'rules.yaml'), BASELINE, 'utf-8');
+
+      const resolved = resolveYaml('extends: "@acme/veto-baseline"');
+
+      expect(resolved.rules.map((rule) => rule.id)).toEqual([
+        'block-sensitive-reads',
+        'log-shell',
+      ]);
+      expect(resolved.sources).toEqual([join(packageDir, 'rules.yaml')]);
+    });
+
+    it('should report schema issues in pulled-in files', () => {
+      writeFileSync(
+        join(TEST_DIR, 'base', 'typo.yaml'),
+        `
+rules:
+  - id: typo
+    name: Typo
+    severity: urgent
+    action: block
+`,
+        'utf-8'
+      );
+
+      const resolved = resolveYaml('include: ./base/typo.yaml');
+
+      expect(resolved.issues).toHaveLength(1);
+      expect(resolved.issues[0]).toMatchObject({
+        file: join(TEST_DIR, 'base', 'typo.yaml'),
+        path: 'rules[0].severity',
+      });
+    });
+
+    it('should reject unknown fragments and override targets', () => {
+      expect(() => resolveYaml(`
+rules:
+  - id: uses-missing
+    name: Uses missing
+    severity: low
+    action: log
+    conditions: [$missing]
+`)).toThrow('Unknown condition fragment "$missing"');
+
+      expect(() => resolveYaml(`
+extends: ./base/baseline.yaml
+overrides:
+  - id: not-a-rule
+    enabled: false
+`)).toThrow(RuleInheritanceError);
+    });
+
+    it('should reject missing files, missing packages and cycles', () => {
+      expect(() => resolveYaml('extends: ./base/missing.yaml')).toThrow(/Cannot read rule set/);
+      expect(() => resolveYaml('extends: "@acme/missing"')).toThrow(
+        'Cannot resolve rule set package "@acme/missing"'
+      );
+
+      writeFileSync(join(TEST_DIR, 'a.yaml'), 'extends: ./b.yaml', 'utf-8');
+      writeFileSync(join(TEST_DIR, 'b.yaml'), 'extends: ./a.yaml', 'utf-8');
+      expect(() => resolveYaml('extends: ./a.yaml')).toThrow(/Circular rule set inheritance/);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDuplicateRuleIds,
+  formatSchemaIssue,
+  validateRuleFile,
+} from '../../src/rules/schema.js';
+
+describe('rule schema', () => {
+  describe('validateRuleFile', () => {
+    it('should accept a valid rule set', () => {
+      const result = validateRuleFile(
+        `
+version: "1.0"
+name: security
+settings:
+  default_action: allow
+  fail_mode: open
+  block_threshold: 0.4
+rules:
+  - id: block-etc
+    name: Block etc
+    enabled: true
+    severity: critical
+    action: block
+    tools: [read_file]
+    conditions:
+      - field: arguments.path
+        operator: matches
+        value: "^/etc/"
+  - id: redact
+    name: Redact keys
+    severity: low
+    action: modify
+    transforms:
+      - type: mask
+        field: arguments.body
+        pattern: "sk-[a-z]+"
+`,
+        'rules.yaml'
+      );
+
+      expect(result.issues).toEqual([]);
+      expect(result.ruleIds.map((entry) => entry.id)).toEqual(['block-etc', 'redact']);
+    });
+
+    it('should report unknown keys with their location and a suggestion', () => {
+      const result = validateRuleFile(
+        `rules:
+  - id: typo
+    name: Typo
+    severity: high
+    action: block
+    conditions:
+      - field: arguments.path
+        operater: equals
+        value: /etc
+`,
+        'typo.yaml'
+      );
+
+      expect(result.issues).toContainEqual({
+        file: 'typo.yaml',
+        line: 8,
+        column: 9,
+        path: 'rules[0].conditions[0].operater',
+        message: 'Unknown key "operater" (did you mean "operator"?)',
+      });
+      expect(result.issues.some((issue) => issue.message === 'Missing required key "operator"')).toBe(true);
+    });
+
+    it('should report invalid enums, list values and regexes', () => {
+      const result = validateRuleFile(
+        `- id: bad
+  name: Bad
+  severity: urgent
+  action: block
+  conditions:
+    - field: arguments.path
+      operator: in
+      value: /etc
+    - field: arguments.path
+      operator: matches
+      value: "(unclosed"
+`,
+        'bad.yaml'
+      );
+
+      const messages = result.issues.map(formatSchemaIssue);
+      expect(messages).toEqual([
+        'bad.yaml:3:13: [0].severity: Invalid value "urgent", expected one of: critical, high, medium, low, info',
+        'bad.yaml:8:14: [0].conditions[0].value: Operator "in" requires a list value',
+        expect.stringMatching(/^bad\.yaml:11:14: \[0\]\.conditions\[1\]\.value: Invalid regex/),
+      ]);
+    });
+
+    it('should report block thresholds outside 0..1', () => {
+      const result = validateRuleFile(
+        `settings:
+  block_threshold: 1.5
+rules: []
+`,
+        'threshold.yaml'
+      );
+
+      expect(result.issues.map(formatSchemaIssue)).toEqual([
+        'threshold.yaml:2:20: settings.block_threshold: Expected a number between 0 and 1',
+      ]);
+    });
+
+    it('should report invalid rate limits', () => {
+      const result = validateRuleFile(
+        `rules:
+  - id: email-rate
+    name: Email rate
+    severity: medium
+    action: warn
+    rate_limit:
+      max: five
+      window: 1 hour
+`,
+        'rate.yaml'
+      );
+
+      expect(result.issues.map(formatSchemaIssue)).toEqual([
+        'rate.yaml:7:12: rules[0].rate_limit.max: Expected a non-negative number',
+        'rate.yaml:8:15: rules[0].rate_limit.window: Expected a duration such as 60, "30s", "1m" or "1h"',
+        'rate.yaml:5:13: rules[0].action: Rate-limit rules must use action "block"',
+      ]);
+    });
+
+    it('should report invalid sequence conditions', () => {
+      const result = validateRuleFile(
+        `rules:
+  - id: test-before-push
+    name: Test before push
+    severity: high
+    action: block
+    sequence:
+      - operator: followed_by
+        tools: [run_tests]
+        within_calls: 0
+        within: soon
+`,
+        'sequence.yaml'
+      );
+
+      expect(result.issues.map(formatSchemaIssue)).toEqual([
+        'sequence.yaml:7:19: rules[0].sequence[0].operator: Invalid value "followed_by", expected one of: preceded_by, not_preceded_by',
+        'sequence.yaml:9:23: rules[0].sequence[0].within_calls: Expected a positive integer',
+        'sequence.yaml:10:17: rules[0].sequence[0].within: Expected a duration such as 60, "30s", "1m" or "1h"',
+      ]);
+    });
+
+    it('should report YAML syntax errors', () => {
+      const result = validateRuleFile('rules: [unclosed', 'broken.yaml');
+
+      expect(result.syntaxError).toBe(true);
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0].file).toBe('broken.yaml');
+    });
+  });
+
+  describe('env interpolation', () => {
+    it('should interpolate values and report unset variables', () => {
+      const result = validateRuleFile(
+        `
+rules:
+  - id: allow-domain
+    name: Allow domain
+    enabled: \${ALLOW_DOMAIN:-true}
+    severity: low
+    action: allow
+    conditions:
+      - field: arguments.url
+        operator: starts_with
+        value: \${ALLOWED_URL}
+      - field: arguments.size
+        operator: less_than
+        value: \${MAX_SIZE:-1024}
+      - field: arguments.token
+        operator: equals
+        value: \${MISSING_TOKEN}
+`,
+        'rules.yaml',
+        { ALLOWED_URL: 'https://example.com' }
+      );
+
+      const rules = (result.data as {
+        rules: Array<{ enabled: unknown; conditions: Array<{ value: unknown }> }>;
+      }).rules;
+      expect(rules[0].enabled).toBe(true);
+      // Condition values stay strings; less_than compares them as numbers
+      expect(rules[0].conditions.map((condition) => condition.value)).toEqual([
+        'https://example.com',
+        '1024',
+        '${MISSING_TOKEN}',
+      ]);
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0]).toMatchObject({
+        line: 17,
+        message: 'Environment variable "MISSING_TOKEN" is not set',
+      });
+    });
+  });
+
+  describe('inheritance keys', () => {
+    it('should accept extends, fragments, references and overrides', () => {
+      const result = validateRuleFile(
+        `
+extends: [./baseline.yaml, "@acme/veto-baseline"]
+include: ./extra.yaml
+fragments:
+  sensitive_paths:
+    - field: arguments.path
+      operator: starts_with
+      value: /etc
+rules:
+  - id: block-writes
+    name: Block writes
+    severity: high
+    action: block
+    conditions: [$sensitive_paths]
+    condition_groups:
+      - $sensitive_paths
+overrides:
+  - id: inherited-rule
+    enabled: false
+`,
+        'rules.yaml'
+      );
+
+      expect(result.issues).toEqual([]);
+      expect(result.ruleIds.map((entry) => entry.id)).toEqual(['block-writes']);
+    });
+
+    it('should report invalid references and overrides without an ID', () => {
+      const result = validateRuleFile(
+        `
+extends: ./baseline.yaml
+rules:
+  - id: bad-ref
+    name: Bad reference
+    severity: low
+    action: log
+    conditions: [sensitive_paths]
+overrides:
+  - action: block
+`,
+        'rules.yaml'
+      );
+
+      expect(result.issues.map((issue) => [issue.path, issue.message])).toEqual([
+        ['rules[0].conditions[0]', 'Expected a condition or a "$name" fragment reference'],
+        ['overrides[0]', 'Missing required key "id"'],
+      ]);
+    });
+  });
+
+  describe('findDuplicateRuleIds', () => {
+    it('should report later definitions of the same ID across files', () => {
+      const a = validateRuleFile('- { id: dup, name: A, severity: low, action: log }', 'a.yaml');
+      const b = validateRuleFile('\n- { id: dup, name: B, severity: low, action: log }', 'b.yaml');
+
+      const issues = findDuplicateRuleIds([a, b]);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ file: 'b.yaml', line: 2 });
+      expect(issues[0].message).toBe('Duplicate rule ID "dup" (first defined at a.yaml:1:9)');
+    });
+  });
+});
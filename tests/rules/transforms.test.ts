@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { applyTransforms, TransformError } from '../../src/rules/transforms.js';
+
+describe('argument transforms', () => {
+  it('should mask regex matches in string fields', () => {
+    const result = applyTransforms(
+      { body: 'card 4111-1111-1111-1111 and 5500-0000-0000-0004' },
+      [{ type: 'mask', field: 'arguments.body', pattern: '\\d{4}-\\d{4}-\\d{4}-\\d{4}', replacement: '[CARD]' }]
+    );
+
+    expect(result.arguments.body).toBe('card [CARD] and [CARD]');
+    expect(result.changedFields).toEqual(['arguments.body']);
+  });
+
+  it('should clamp numeric fields to a range', () => {
+    const result = applyTransforms(
+      { amount: 25000, limit: -5 },
+      [
+        { type: 'clamp', field: 'arguments.amount', max: 10000 },
+        { type: 'clamp', field: 'arguments.limit', min: 0, max: 100 },
+      ]
+    );
+
+    expect(result.arguments).toEqual({ amount: 10000, limit: 0 });
+  });
+
+  it('should force paths under a prefix', () => {
+    const transform = { type: 'prefix' as const, field: 'arguments.path', prefix: '/workspace' };
+
+    expect(applyTransforms({ path: '/workspace/src/a.ts' }, [transform]).arguments.path)
+      .toBe('/workspace/src/a.ts');
+    expect(applyTransforms({ path: '/etc/passwd' }, [transform]).arguments.path)
+      .toBe('/workspace/etc/passwd');
+    expect(applyTransforms({ path: '/workspace/../../etc/passwd' }, [transform]).arguments.path)
+      .toBe('/workspace/etc/passwd');
+    expect(applyTransforms({ path: 'notes.txt' }, [transform]).arguments.path)
+      .toBe('/workspace/notes.txt');
+  });
+
+  it('should drop nested keys without mutating the input', () => {
+    const args = { url: 'https://example.com', headers: { authorization: 'secret', accept: '*/*' } };
+
+    const result = applyTransforms(args, [{ type: 'drop', field: 'arguments.headers.authorization' }]);
+
+    expect(result.arguments).toEqual({ url: 'https://example.com', headers: { accept: '*/*' } });
+    expect(args.headers.authorization).toBe('secret');
+  });
+
+  it('should skip missing fields and report no changes', () => {
+    const result = applyTransforms({}, [{ type: 'clamp', field: 'arguments.amount', max: 1 }]);
+
+    expect(result.changedFields).toEqual([]);
+  });
+
+  it('should reject fields outside of arguments', () => {
+    expect(() => applyTransforms({}, [{ type: 'drop', field: 'context.user' }])).toThrow(TransformError);
+  });
+});
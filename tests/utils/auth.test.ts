@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'node:crypto';
+import { buildAuthHeaders } from '../../src/utils/auth.js';
+
+describe('buildAuthHeaders', () => {
+  it('should return no headers without auth', () => {
+    expect(buildAuthHeaders(undefined, '{}')).toEqual({});
+  });
+
+  it('should add bearer tokens and custom headers', () => {
+    expect(buildAuthHeaders({ bearer: 'token', headers: { 'X-Tenant': 'acme' } }, '{}')).toEqual({
+      'X-Tenant': 'acme',
+      Authorization: 'Bearer token',
+    });
+  });
+
+  it('should sign the timestamp and body', () => {
+    const now = 1_700_000_000_000;
+    const headers = buildAuthHeaders({ hmac: { secret: 'shh' } }, '{"a":1}', now);
+
+    const expected = createHmac('sha256', 'shh').update('1700000000.{"a":1}').digest('hex');
+    expect(headers).toEqual({
+      'X-Veto-Timestamp': '1700000000',
+      'X-Veto-Signature': `sha256=${expected}`,
+    });
+  });
+
+  it('should use custom HMAC headers and algorithm', () => {
+    const headers = buildAuthHeaders(
+      { hmac: { secret: 'shh', algorithm: 'sha512', header: 'X-Sig', timestampHeader: 'X-Time' } },
+      'body',
+      0
+    );
+
+    expect(headers['X-Time']).toBe('0');
+    expect(headers['X-Sig']).toMatch(/^sha512=[0-9a-f]{128}$/);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { formatDuration, parseDuration } from '../../src/utils/duration.js';
+
+describe('durations', () => {
+  it('should parse seconds and unit strings into milliseconds', () => {
+    expect(parseDuration(60)).toBe(60_000);
+    expect(parseDuration('500ms')).toBe(500);
+    expect(parseDuration('30s')).toBe(30_000);
+    expect(parseDuration('1.5m')).toBe(90_000);
+    expect(parseDuration(' 1h ')).toBe(3_600_000);
+    expect(parseDuration('1d')).toBe(86_400_000);
+  });
+
+  it('should reject invalid durations', () => {
+    expect(parseDuration('1 hour')).toBeNull();
+    expect(parseDuration('-5s')).toBeNull();
+    expect(parseDuration(-5)).toBeNull();
+    expect(parseDuration(undefined)).toBeNull();
+  });
+
+  it('should format with the largest even unit', () => {
+    expect(formatDuration(3_600_000)).toBe('1h');
+    expect(formatDuration(90_000)).toBe('90s');
+    expect(formatDuration(1500)).toBe('1500ms');
+  });
+});
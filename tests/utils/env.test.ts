@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EnvInterpolationError,
+  interpolateEnv,
+  interpolateScalar,
+  interpolateString,
+} from '../../src/utils/env.js';
+
+const env = {
+  API_URL: 'https://veto.example.com',
+  EMPTY: '',
+  TIMEOUT: '5000',
+  TOKEN: '000123',
+  SECRET: '424242',
+};
+
+describe('env interpolation', () => {
+  describe('interpolateString', () => {
+    it('should replace variables and apply defaults', () => {
+      expect(interpolateString('${API_URL}/check', env)).toBe('https://veto.example.com/check');
+      expect(interpolateString('${MISSING:-fallback}', env)).toBe('fallback');
+      expect(interpolateString('${EMPTY:-fallback}', env)).toBe('fallback');
+      expect(interpolateString('${EMPTY}', env)).toBe('');
+    });
+
+    it('should keep escaped references literal', () => {
+      expect(interpolateString('$${API_URL}', env)).toBe('${API_URL}');
+    });
+
+    it('should throw for unset variables without a default', () => {
+      expect(() => interpolateString('${MISSING}', env)).toThrow(EnvInterpolationError);
+      expect(() => interpolateString('${MISSING}', env)).toThrow(
+        'Environment variable "MISSING" is not set'
+      );
+    });
+  });
+
+  describe('interpolateScalar', () => {
+    it('should type values that are a single reference when a type is given', () => {
+      expect(interpolateScalar('${TIMEOUT}', env, 'number')).toBe(5000);
+      expect(interpolateScalar('${WATCH:-true}', env, 'boolean')).toBe(true);
+      expect(interpolateScalar('${API_URL}', env, 'number')).toBe('https://veto.example.com');
+      expect(interpolateScalar('timeout-${TIMEOUT}', env, 'number')).toBe('timeout-5000');
+    });
+
+    it('should keep values strings without a type', () => {
+      expect(interpolateScalar('${TOKEN}', env)).toBe('000123');
+      expect(interpolateScalar('${SECRET}', env)).toBe('424242');
+      expect(interpolateScalar('${WATCH:-true}', env)).toBe('true');
+    });
+  });
+
+  describe('interpolateEnv', () => {
+    it('should interpolate nested values but not keys', () => {
+      expect(
+        interpolateEnv(
+          { api: { baseUrl: '${API_URL}', timeout: '${TIMEOUT}' }, '${KEY}': ['${MISSING:-a}', 1] },
+          env
+        )
+      ).toEqual({
+        api: { baseUrl: 'https://veto.example.com', timeout: '5000' },
+        '${KEY}': ['a', 1],
+      });
+    });
+
+    it('should type values by their path', () => {
+      const types = (path: readonly string[]) =>
+        path.join('.') === 'api.timeout' ? 'number' as const : undefined;
+
+      expect(
+        interpolateEnv({ api: { timeout: '${TIMEOUT}', auth: { bearer: '${TOKEN}' } } }, env, types)
+      ).toEqual({ api: { timeout: 5000, auth: { bearer: '000123' } } });
+    });
+  });
+});